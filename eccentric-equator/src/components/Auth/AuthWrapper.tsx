@@ -6,6 +6,9 @@ import type { Session } from '@supabase/supabase-js';
 import { AuthProvider } from './AuthContext';
 import { t } from '../../i18n/translations';
 import type { SavedDashboard } from '../DashboardBuilder/dashboardStorage';
+import { createSupabaseRepository } from '../DashboardBuilder/supabaseRepository';
+
+const dashboardRepository = createSupabaseRepository(supabase);
 
 interface AuthWrapperProps {
   children: React.ReactNode;
@@ -79,52 +82,23 @@ function AuthWrapper({ children, allowPublic = false }: AuthWrapperProps) {
 
       setAuthChecking(true);
       try {
-        const { data: accessData, error: accessError } = await supabase
-          .from('dashboard_access')
-          .select('dashboard_id');
-
-        if (accessError) {
+        let authorizedIds: string[];
+        try {
+          authorizedIds = await dashboardRepository.listAuthorizedIds();
+        } catch (accessError) {
           console.error('Error fetching authorizations:', accessError);
           setAuthorizedDashboards(new Set());
           setDashboards([]);
           return;
         }
 
-        const authorizedIds = accessData.map(row => row.dashboard_id);
         setAuthorizedDashboards(new Set(authorizedIds));
 
-        if (authorizedIds.length === 0) {
-          setDashboards([]);
-          return;
-        }
-
-        const { data: dashboardData, error: dashboardError } = await supabase
-          .from('dashboards')
-          .select('id, title, status, version, payload')
-          .in('id', authorizedIds);
-
-        if (dashboardError) {
+        try {
+          setDashboards(await dashboardRepository.listByIds(authorizedIds));
+        } catch (dashboardError) {
           console.error('Error fetching dashboard data:', dashboardError);
           setDashboards([]);
-        } else if (dashboardData) {
-          const parsedDashboards: SavedDashboard[] = dashboardData.map(row => {
-            const payload = row.payload as Record<string, unknown>;
-            const statusMap: Record<number, SavedDashboard['status']> = { 0: 'draft', 1: 'published', 2: 'archived' };
-            return {
-              id: row.id,
-              name: row.title || (payload.name as string) || (payload.title as string) || 'Untitled Dashboard',
-              description: (payload.description as string) || '',
-              nodes: (payload.nodes as SavedDashboard['nodes']) || [],
-              edges: (payload.edges as SavedDashboard['edges']) || [],
-              createdAt: (payload.createdAt as string) || (payload.created_at as string) || new Date().toISOString(),
-              updatedAt: (payload.updatedAt as string) || (payload.updated_at as string) || new Date().toISOString(),
-              publishedAt: (payload.publishedAt as string) || (payload.published_at as string),
-              archivedAt: (payload.archivedAt as string) || (payload.archived_at as string),
-              version: row.version || (payload.version as number) || 1,
-              status: statusMap[row.status as number] || (payload.status as SavedDashboard['status']) || 'draft',
-            };
-          });
-          setDashboards(parsedDashboards);
         }
       } catch (err) {
         console.error('Authorization fetch failed:', err);
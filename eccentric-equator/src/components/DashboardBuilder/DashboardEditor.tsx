@@ -0,0 +1,1027 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  ReactFlow,
+  Background,
+  BackgroundVariant,
+  Controls,
+  MiniMap,
+  ReactFlowProvider,
+  applyNodeChanges,
+  applyEdgeChanges,
+  useReactFlow,
+  useStoreApi,
+  type Node,
+  type Edge,
+  type NodeTypes,
+  type EdgeTypes,
+  type NodeChange,
+  type EdgeChange,
+  type Connection,
+  type OnSelectionChangeParams,
+} from '@xyflow/react';
+import { AuthWrapper } from '../Auth';
+import { supabase } from '../../lib/supabase';
+import '@xyflow/react/dist/style.css';
+import './viewer-styles.css';
+import './editor-styles.css';
+
+import StrategyNode from './StrategyNode';
+import StrategyEdge from './StrategyEdge';
+import StrategicBackground from './StrategicBackground';
+import { NodeInspector, EdgeInspector, CustomFieldsEditor, TimelineEditor, SwimlanesEditor } from './EditorInspector';
+import type {
+  StrategyNodeData,
+  NodeCategory,
+  EdgeType,
+  Quarter,
+  PeriodModel,
+  SwimlaneDefinition,
+  PresentationStep,
+} from './types';
+import { CATEGORY_CONFIG, CATEGORY_EDGE_DEFAULTS } from './types';
+import type { SavedDashboard, DashboardSettings } from './dashboardStorage';
+import { saveWithMerge } from './dashboardRepository';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createBrowserRepository } from './indexedDbStore';
+import { importDashboard, downloadDashboardFile, DashboardImportError } from './dashboardSchema';
+import type { QuarterFix, QuarterMismatch } from './quarters';
+import { quarterFromX, quarterCenterX, snapToQuarterX, findQuarterMismatches } from './quarters';
+import { buildPeriods, resolvePeriodModel, remapPeriodKey } from './periods';
+import type { LaneBand } from './lanes';
+import { laneBands, laneContentTop, laneFromY, laneOf, relayoutLanes, computeLaneLayout } from './lanes';
+import type { GraphIssue } from './graphRules';
+import { GRAPH_RULES, validateGraph, summarizeIssuesByNode } from './graphRules';
+import { withMetricRollups } from './metrics';
+import { withProgressRollups } from './progress';
+import { CustomFieldsContext, NO_CUSTOM_FIELDS } from './nodeDetails';
+import GraphIssuesPanel from './GraphIssuesPanel';
+import PresentationStepsPanel from './PresentationStepsPanel';
+import { NO_STEPS, STEP_PADDING, STEP_TRANSITION_MS, viewportArea } from './presentation';
+import type { CommandHistory, EditorCommand, EditorDraft, EditorGraph, NodeBox, NodePlacement } from './commandHistory';
+import {
+  EMPTY_HISTORY,
+  NEW_DRAFT_KEY,
+  applyCommand,
+  recordCommand,
+  undoCommand,
+  redoCommand,
+  describeCommand,
+  addNodesCommand,
+  removeNodesCommand,
+  connectCommand,
+  disconnectCommand,
+  placementOf,
+  boxOf,
+  loadEditorDraft,
+  saveEditorDraft,
+  clearEditorDraft,
+} from './commandHistory';
+
+type StrategyNodeType = Node<StrategyNodeData>;
+
+const nodeTypes: NodeTypes = {
+  strategy: StrategyNode,
+};
+
+const edgeTypes: EdgeTypes = {
+  strategy: StrategyEdge as EdgeTypes['strategy'],
+};
+
+// Same store as the dashboard list and viewer, so saved dashboards show up there
+const dashboardRepository = createSupabaseRepository(supabase);
+// Dashboards saved in this browser before the editor saved to the account
+// (moved from localStorage to IndexedDB on first use). Saving one moves it.
+const browserRepository = createBrowserRepository();
+const BROWSER_OPTION_PREFIX = 'browser:';
+
+const DUPLICATE_SOURCE_KEY = 'hf_duplicate_source';
+const NO_SETTINGS: DashboardSettings = {};
+const NO_LANES: SwimlaneDefinition[] = [];
+const NODE_SPACING_Y = 160;
+const FIRST_ROW_Y = 80;
+
+interface EditorMessage {
+  kind: 'info' | 'error';
+  text: string;
+}
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Editor-only state (selection, drag flags, build mode, badges) is not persisted
+function toPersistedGraph(nodes: StrategyNodeType[], edges: Edge[]): { nodes: StrategyNodeType[]; edges: Edge[] } {
+  return {
+    nodes: nodes.map(({ selected, dragging, ...node }) => {
+      const { mode, issues, metricRollup, progress, ...data } = node.data;
+      return { ...node, data: data as StrategyNodeData };
+    }),
+    edges: edges.map(({ selected, ...edge }) => edge),
+  };
+}
+
+function toEditorNodes(nodes: StrategyNodeType[]): StrategyNodeType[] {
+  return nodes.map(node => ({ ...node, data: { ...node.data, mode: 'build' as const } }));
+}
+
+// Next free slot below the lowest node in a quarter column (within a lane, when given)
+function nextPositionIn(
+  quarter: Quarter,
+  nodes: StrategyNodeType[],
+  bands: LaneBand[] = [],
+  lane?: string
+): { x: number; y: number } {
+  const band = bands.find(b => b.lane.key === lane);
+  const inQuarter = nodes.filter(n => n.data.quarter === quarter && (!band || laneOf(n, bands) === lane));
+  const lowest = inQuarter.reduce((max, n) => Math.max(max, n.position.y), -Infinity);
+  return {
+    x: quarterCenterX(quarter),
+    y: inQuarter.length > 0 ? lowest + NODE_SPACING_Y : band ? laneContentTop(band) : FIRST_ROW_Y,
+  };
+}
+
+// One undoable step reconciling stored quarters with the columns nodes sit in
+function quarterFixCommand(nodes: StrategyNodeType[], mismatches: QuarterMismatch[], fix: QuarterFix): EditorCommand {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const moves = mismatches.flatMap(({ id, stored, column }) => {
+    const node = byId.get(id);
+    if (!node) return [];
+    const from = placementOf(node);
+    const to = fix === 'move' ? { ...from, x: quarterCenterX(stored) } : { ...from, quarter: column };
+    return [{ id, from, to }];
+  });
+  return {
+    type: 'batch',
+    label: fix === 'move' ? 'move nodes into their quarters' : 'set quarters from columns',
+    commands: [{ type: 'moveNodes', moves }],
+  };
+}
+
+// One undoable step reshaping the timeline: nodes keep the months they are
+// planned in and shift with their column
+function timelineCommand(nodes: StrategyNodeType[], settings: DashboardSettings, from: PeriodModel, to: PeriodModel): EditorCommand {
+  const moves = nodes.flatMap(node => {
+    const quarter = remapPeriodKey(node.data.quarter, from, to);
+    if (quarter === node.data.quarter) return [];
+    const current = placementOf(node);
+    const x = quarterCenterX(quarter) + (node.position.x - quarterCenterX(node.data.quarter));
+    return [{ id: node.id, from: current, to: { ...current, x, quarter } }];
+  });
+  return {
+    type: 'batch',
+    label: 'change timeline',
+    commands: [
+      { type: 'updateSettings', before: settings, after: { ...settings, periods: to } },
+      ...(moves.length > 0 ? [{ type: 'moveNodes' as const, moves }] : []),
+    ],
+  };
+}
+
+// One undoable step changing the swimlanes; nodes move with their lane
+function lanesCommand(nodes: StrategyNodeType[], settings: DashboardSettings, next: SwimlaneDefinition[]): EditorCommand {
+  const update: EditorCommand = {
+    type: 'updateSettings',
+    before: settings,
+    after: { ...settings, lanes: next.length > 0 ? next : undefined },
+  };
+  const placements = relayoutLanes(nodes, settings.lanes ?? [], next);
+  const moves = nodes.flatMap(node => {
+    const to = placements.get(node.id);
+    if (!to || (to.y === node.position.y && to.lane === node.data.lane)) return [];
+    const from = placementOf(node);
+    return [{ id: node.id, from, to: { ...from, ...to } }];
+  });
+  // Renaming a lane moves nothing, so typing a label coalesces into one step
+  return moves.length === 0
+    ? update
+    : { type: 'batch', label: 'change swimlanes', commands: [update, { type: 'moveNodes', moves }] };
+}
+
+interface LoadOptions {
+  // Load the content as a new, unsaved dashboard (duplicates and imports)
+  asCopy?: boolean;
+  name?: string;
+  // Unsaved work and undo stack from a previous session on the same draft
+  draft?: EditorDraft | null;
+}
+
+function DashboardEditorCanvas() {
+  const { screenToFlowPosition, fitView, fitBounds, getViewport } = useReactFlow();
+  const flowStore = useStoreApi();
+  const [dashboard, setDashboard] = useState<SavedDashboard | null>(null);
+  const [name, setName] = useState('Untitled Roadmap');
+  const [description, setDescription] = useState('');
+  const [graph, setGraph] = useState<EditorGraph>({ nodes: [], edges: [] });
+  const [history, setHistory] = useState<CommandHistory>(EMPTY_HISTORY);
+  const [ready, setReady] = useState(false);
+  const [snapToColumns, setSnapToColumns] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  const [message, setMessage] = useState<EditorMessage | null>(null);
+  const [savedDashboards, setSavedDashboards] = useState<SavedDashboard[]>([]);
+  const [browserDashboards, setBrowserDashboards] = useState<SavedDashboard[]>([]);
+  // Browser dashboard the editor content came from, removed once saved to the account
+  const [browserSource, setBrowserSource] = useState<SavedDashboard | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { nodes, edges } = graph;
+  const settings = graph.settings ?? NO_SETTINGS;
+  const periodModel = resolvePeriodModel(settings);
+  const periods = useMemo(() => buildPeriods(periodModel), [periodModel]);
+  const quarters = useMemo(() => periods.map(p => p.key), [periods]);
+  const lanes = settings.lanes ?? NO_LANES;
+  const bands = useMemo(() => laneBands(lanes), [lanes]);
+
+  // Latest graph for event handlers that record a command after React Flow already applied the change
+  const graphRef = useRef(graph);
+  graphRef.current = graph;
+  const dragStartRef = useRef(new Map<string, NodePlacement>());
+  const resizeStartRef = useRef(new Map<string, NodeBox>());
+
+  const draftKey = dashboard?.id ?? NEW_DRAFT_KEY;
+
+  const notify = useCallback((kind: EditorMessage['kind'], text: string) => {
+    setMessage({ kind, text });
+    setTimeout(() => setMessage(current => (current?.text === text ? null : current)), 4000);
+  }, []);
+
+  const loadIntoEditor = useCallback((source: SavedDashboard | null, { asCopy = false, name: copyName, draft }: LoadOptions = {}) => {
+    setDashboard(asCopy ? null : source);
+    setBrowserSource(null);
+    setName(draft?.name ?? copyName ?? source?.name ?? 'Untitled Roadmap');
+    setDescription(draft?.description ?? source?.description ?? '');
+    setGraph(draft
+      ? { nodes: toEditorNodes(draft.nodes), edges: draft.edges, settings: draft.settings }
+      : { nodes: toEditorNodes(source?.nodes ?? []), edges: source?.edges ?? [], settings: source?.settings });
+    setHistory(draft?.history ?? EMPTY_HISTORY);
+    setSelectedNodeId(null);
+    setSelectedEdgeId(null);
+    setDirty(draft?.dirty ?? asCopy);
+  }, []);
+
+  // Resume the stored draft only if it was edited from the version we just loaded
+  const openDashboard = useCallback((source: SavedDashboard) => {
+    const draft = loadEditorDraft(source.id);
+    if (draft && draft.baseVersion !== source.version) {
+      clearEditorDraft(source.id);
+      if (draft.dirty) notify('info', `Discarded unsaved edits made against v${draft.baseVersion}; the dashboard has changed since.`);
+    }
+    loadIntoEditor(source, { draft: draft?.baseVersion === source.version ? draft : null });
+  }, [loadIntoEditor, notify]);
+
+  const refreshSavedDashboards = useCallback(() => {
+    dashboardRepository.list()
+      .then(list => setSavedDashboards(list.filter(d => d.status !== 'trashed')))
+      .catch(error => console.error('Error listing dashboards:', error));
+    browserRepository.list()
+      .then(list => setBrowserDashboards(list.filter(d => d.status !== 'trashed')))
+      .catch(error => console.error('Error listing dashboards saved in this browser:', error));
+  }, []);
+
+  // Initial load: ?id=<dashboard> edits a saved dashboard, ?mode=duplicate copies the list's selection
+  useEffect(() => {
+    refreshSavedDashboards();
+    const params = new URLSearchParams(window.location.search);
+    const id = params.get('id');
+    const stored = params.get('mode') === 'duplicate' ? sessionStorage.getItem(DUPLICATE_SOURCE_KEY) : null;
+    sessionStorage.removeItem(DUPLICATE_SOURCE_KEY);
+
+    if (stored) {
+      try {
+        const source = importDashboard(stored);
+        loadIntoEditor(source, { asCopy: true, name: `${source.name} (Copy)` });
+      } catch (error) {
+        console.error('Error reading duplicate source:', error);
+        notify('error', 'Could not load the dashboard to duplicate.');
+      }
+      setReady(true);
+      return;
+    }
+
+    if (id) {
+      dashboardRepository.get(id)
+        .then(found => {
+          if (found) openDashboard(found);
+          else notify('error', 'Dashboard not found, or you do not have access to it.');
+        })
+        .catch(error => {
+          console.error('Error loading dashboard:', error);
+          notify('error', 'Failed to load dashboard.');
+        })
+        .finally(() => setReady(true));
+      return;
+    }
+
+    // A reload of an unsaved dashboard picks up where it left off
+    const draft = loadEditorDraft(NEW_DRAFT_KEY);
+    if (draft) loadIntoEditor(null, { draft });
+    setReady(true);
+  }, [loadIntoEditor, notify, openDashboard, refreshSavedDashboards]);
+
+  // Persist the working copy and its undo stack so a reload resumes the same draft
+  useEffect(() => {
+    if (!ready) return;
+    const timer = setTimeout(() => {
+      if (!dirty && history.past.length === 0 && history.future.length === 0) {
+        clearEditorDraft(draftKey);
+        return;
+      }
+      saveEditorDraft(draftKey, {
+        baseVersion: dashboard?.version ?? null,
+        name,
+        description,
+        settings,
+        nodes,
+        edges,
+        dirty,
+        history,
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [ready, draftKey, dashboard, name, description, settings, nodes, edges, dirty, history]);
+
+  // Warn before leaving with unsaved changes
+  useEffect(() => {
+    if (!dirty) return;
+    const handler = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handler);
+    return () => window.removeEventListener('beforeunload', handler);
+  }, [dirty]);
+
+  // Apply a command to the graph and push it onto the undo stack
+  const execute = useCallback((command: EditorCommand) => {
+    setGraph(current => applyCommand(current, command));
+    setHistory(current => recordCommand(current, command));
+    setDirty(true);
+  }, []);
+
+  // Push a command whose effect React Flow has already applied (drag, resize, delete key)
+  const record = useCallback((command: EditorCommand) => {
+    setHistory(current => recordCommand(current, command));
+    setDirty(true);
+  }, []);
+
+  const undo = useCallback(() => {
+    const step = undoCommand(history);
+    if (!step) return;
+    setGraph(current => applyCommand(current, step.command));
+    setHistory(step.history);
+    setDirty(true);
+  }, [history]);
+
+  const redo = useCallback(() => {
+    const step = redoCommand(history);
+    if (!step) return;
+    setGraph(current => applyCommand(current, step.command));
+    setHistory(step.history);
+    setDirty(true);
+  }, [history]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes; form fields keep their native undo
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      if ((e.target as HTMLElement | null)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [undo, redo]);
+
+  const onNodesChange = useCallback((changes: NodeChange<StrategyNodeType>[]) => {
+    // One resize command per gesture: remember the box when it starts, record when it ends
+    changes.forEach(change => {
+      if (change.type !== 'dimensions' || change.resizing === undefined) return;
+      const node = graphRef.current.nodes.find(n => n.id === change.id);
+      if (!node) return;
+      const start = resizeStartRef.current.get(change.id);
+      if (change.resizing && !start) {
+        resizeStartRef.current.set(change.id, boxOf(node));
+      } else if (!change.resizing && start) {
+        resizeStartRef.current.delete(change.id);
+        record({
+          type: 'resizeNode',
+          id: change.id,
+          from: start,
+          to: { ...boxOf(node), ...change.dimensions },
+        });
+      }
+    });
+    setGraph(current => ({ ...current, nodes: applyNodeChanges(changes, current.nodes) }));
+    if (changes.some(c => c.type !== 'select' && (c.type !== 'dimensions' || c.resizing))) setDirty(true);
+  }, [record]);
+
+  const onEdgesChange = useCallback((changes: EdgeChange[]) => {
+    setGraph(current => ({ ...current, edges: applyEdgeChanges(changes, current.edges) }));
+    if (changes.some(c => c.type !== 'select')) setDirty(true);
+  }, []);
+
+  // Deletions via the keyboard are applied by React Flow; only the history entry is ours.
+  // Snapshots come from editor state, not the decorated nodes React Flow was given.
+  const onDelete = useCallback(({ nodes: deletedNodes, edges: deletedEdges }: { nodes: StrategyNodeType[]; edges: Edge[] }) => {
+    const deletedIds = new Set(deletedNodes.map(n => n.id));
+    const removed = graphRef.current.nodes.filter(n => deletedIds.has(n.id));
+    if (removed.length > 0) record(removeNodesCommand(removed, deletedEdges));
+    else if (deletedEdges.length > 0) record(disconnectCommand(deletedEdges));
+  }, [record]);
+
+  const onNodeDragStart = useCallback((_: React.MouseEvent, _node: StrategyNodeType, dragged: StrategyNodeType[]) => {
+    dragStartRef.current = new Map(dragged.map(n => [n.id, placementOf(n)]));
+  }, []);
+
+  // A whole drag is one move command; dropping into a column (or lane) moves the node there
+  const onNodeDragStop = useCallback((_: React.MouseEvent, _node: StrategyNodeType, dragged: StrategyNodeType[]) => {
+    const moves = dragged.flatMap(n => {
+      const from = dragStartRef.current.get(n.id);
+      const x = snapToColumns ? snapToQuarterX(n.position.x, quarters) : n.position.x;
+      const lane = bands.length > 0 ? laneFromY(n.position.y, bands) : n.data.lane;
+      const to = { x, y: n.position.y, quarter: quarterFromX(x, quarters), lane };
+      const changed = from && (from.x !== to.x || from.y !== to.y || from.quarter !== to.quarter || from.lane !== to.lane);
+      return changed ? [{ id: n.id, from, to }] : [];
+    });
+    dragStartRef.current = new Map();
+    if (moves.length > 0) execute({ type: 'moveNodes', moves });
+  }, [execute, snapToColumns, quarters, bands]);
+
+  // New connections take the source category's default edge type
+  const onConnect = useCallback((connection: Connection) => {
+    if (connection.source === connection.target) return;
+    const duplicate = edges.some(e =>
+      e.source === connection.source && e.target === connection.target &&
+      (e.sourceHandle ?? null) === (connection.sourceHandle ?? null) &&
+      (e.targetHandle ?? null) === (connection.targetHandle ?? null));
+    if (duplicate) return;
+    const source = nodes.find(n => n.id === connection.source);
+    const type: EdgeType = source ? CATEGORY_EDGE_DEFAULTS[source.data.category] : 'dependency';
+    execute(connectCommand([{ ...connection, id: createId('edge'), type: 'strategy', data: { type } }]));
+  }, [edges, execute, nodes]);
+
+  const onSelectionChange = useCallback(({ nodes: selNodes, edges: selEdges }: OnSelectionChangeParams) => {
+    setSelectedNodeId(selNodes.length === 1 ? selNodes[0].id : null);
+    setSelectedEdgeId(selNodes.length === 0 && selEdges.length === 1 ? selEdges[0].id : null);
+  }, []);
+
+  const addNode = useCallback((category: NodeCategory, position?: { x: number; y: number }) => {
+    const id = createId('node');
+    const quarter = position ? quarterFromX(position.x, quarters) : quarters[0];
+    const lane = position ? laneFromY(position.y, bands) : bands[0]?.lane.key;
+    execute(addNodesCommand([{
+      id,
+      type: 'strategy',
+      position: position ?? nextPositionIn(quarter, graphRef.current.nodes, bands, lane),
+      data: {
+        category,
+        quarter,
+        ...(lane ? { lane } : {}),
+        title: `New ${CATEGORY_CONFIG[category].label}`,
+        description: '',
+        status: 'planned',
+        priority: 'medium',
+        mode: 'build',
+      },
+    }]));
+    // Select the new node so the inspector opens on it
+    setGraph(current => ({ ...current, nodes: current.nodes.map(n => ({ ...n, selected: n.id === id })) }));
+    setSelectedNodeId(id);
+    setSelectedEdgeId(null);
+  }, [execute, quarters, bands]);
+
+  const onDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+  }, []);
+
+  const onDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    const category = e.dataTransfer.getData('application/hf-category') as NodeCategory;
+    if (!category || !CATEGORY_CONFIG[category]) return;
+    const position = screenToFlowPosition({ x: e.clientX, y: e.clientY });
+    addNode(category, snapToColumns ? { ...position, x: snapToQuarterX(position.x, quarters) } : position);
+  }, [addNode, screenToFlowPosition, snapToColumns, quarters]);
+
+  const updateNodeData = useCallback((id: string, { quarter, lane, ...patch }: Partial<StrategyNodeData>) => {
+    const node = graphRef.current.nodes.find(n => n.id === id);
+    if (!node) return;
+    const commands: EditorCommand[] = [];
+    const from = placementOf(node);
+    let to = from;
+    // Picking a quarter in the inspector moves the node into that column
+    if (quarter && quarter !== node.data.quarter) to = { ...to, x: quarterCenterX(quarter), quarter };
+    // ...and picking a lane moves it to the next free slot in that lane
+    if (lane && lane !== node.data.lane) {
+      const others = graphRef.current.nodes.filter(n => n.id !== id);
+      to = { ...to, y: nextPositionIn(to.quarter, others, bands, lane).y, lane };
+    }
+    if (to !== from) commands.push({ type: 'moveNodes', moves: [{ id, from, to }] });
+    if (Object.keys(patch).length > 0) {
+      const before = Object.fromEntries(Object.keys(patch).map(key => [key, node.data[key]])) as Partial<StrategyNodeData>;
+      commands.push({ type: 'updateNode', id, before, after: patch });
+    }
+    if (commands.length === 1) execute(commands[0]);
+    else if (commands.length > 1) execute({ type: 'batch', label: 'edit node', commands });
+  }, [execute, bands]);
+
+  const updateEdgeType = useCallback((id: string, type: EdgeType | undefined) => {
+    const edge = graphRef.current.edges.find(e => e.id === id);
+    if (!edge) return;
+    execute({ type: 'changeEdgeType', id, from: (edge.data as { type?: EdgeType } | undefined)?.type, to: type });
+  }, [execute]);
+
+  const deleteNode = useCallback((id: string) => {
+    const { nodes: current, edges: currentEdges } = graphRef.current;
+    const node = current.find(n => n.id === id);
+    if (!node) return;
+    execute(removeNodesCommand([node], currentEdges.filter(e => e.source === id || e.target === id)));
+    setSelectedNodeId(null);
+  }, [execute]);
+
+  const deleteEdge = useCallback((id: string) => {
+    const edge = graphRef.current.edges.find(e => e.id === id);
+    if (!edge) return;
+    execute(disconnectCommand([edge]));
+    setSelectedEdgeId(null);
+  }, [execute]);
+
+  const changeTimeline = useCallback((model: PeriodModel) => {
+    const { nodes: current, settings: currentSettings = NO_SETTINGS } = graphRef.current;
+    execute(timelineCommand(current, currentSettings, resolvePeriodModel(currentSettings), model));
+  }, [execute]);
+
+  const changeLanes = useCallback((next: SwimlaneDefinition[]) => {
+    const { nodes: current, settings: currentSettings = NO_SETTINGS } = graphRef.current;
+    execute(lanesCommand(current, currentSettings, next));
+  }, [execute]);
+
+  const fixQuarters = useCallback((mismatches: QuarterMismatch[], fix: QuarterFix) => {
+    if (mismatches.length > 0) execute(quarterFixCommand(graphRef.current.nodes, mismatches, fix));
+  }, [execute]);
+
+  // Auto-layout as a single undoable move of every node that changes place
+  const tidyLayout = useCallback(() => {
+    const { nodes: current, edges: currentEdges, settings: currentSettings } = graphRef.current;
+    const positions = computeLaneLayout(current, currentEdges, currentSettings?.lanes ?? []);
+    const moves = current.flatMap(n => {
+      const to = positions.get(n.id);
+      if (!to || (to.x === n.position.x && to.y === n.position.y)) return [];
+      const from = placementOf(n);
+      return [{ id: n.id, from, to: { ...from, ...to } }];
+    });
+    if (moves.length === 0) return;
+    execute({ type: 'batch', label: 'tidy layout', commands: [{ type: 'moveNodes', moves }] });
+    requestAnimationFrame(() => fitView({ padding: 0.1, maxZoom: 1, duration: 300 }));
+  }, [execute, fitView]);
+
+  const save = useCallback(async (): Promise<SavedDashboard | null> => {
+    const persisted = toPersistedGraph(nodes, edges);
+    const trimmedName = name.trim() || 'Untitled Roadmap';
+    setSaving(true);
+    try {
+      let saved: SavedDashboard | null;
+      if (!dashboard) {
+        saved = await dashboardRepository.create({ name: trimmedName, description, settings, ...persisted });
+        // The draft now lives under the dashboard's id
+        clearEditorDraft(NEW_DRAFT_KEY);
+        if (browserSource) {
+          // Now in the account: drop the browser copy so it is not moved twice
+          try {
+            const trashed = await browserRepository.trash(browserSource.id, { expectedVersion: browserSource.version });
+            if (trashed) await browserRepository.delete(browserSource.id, { expectedVersion: trashed.version });
+          } catch (error) {
+            console.error('Error removing the browser copy of a moved dashboard:', error);
+          }
+          setBrowserSource(null);
+        }
+        window.history.replaceState(null, '', `?id=${saved.id}`);
+      } else {
+        // Saved elsewhere (e.g. another tab) since we loaded: merge instead of overwriting
+        const result = await saveWithMerge(dashboardRepository, dashboard, {
+          name: trimmedName,
+          description,
+          settings,
+          ...persisted,
+        });
+        saved = result.dashboard;
+        if (saved && result.merged) {
+          // Show the merged dashboard; the undo history was recorded against the pre-merge one
+          setName(saved.name);
+          setDescription(saved.description);
+          setGraph({ nodes: toEditorNodes(saved.nodes), edges: saved.edges, settings: saved.settings });
+          setHistory(EMPTY_HISTORY);
+          notify('info', result.conflicts.length > 0
+            ? `Merged with newer changes; ${result.conflicts.length} conflict(s) kept your version.`
+            : 'Merged with newer changes.');
+        }
+      }
+      if (!saved) {
+        notify('error', 'This dashboard no longer exists.');
+        return null;
+      }
+      setDashboard(saved);
+      setDirty(false);
+      refreshSavedDashboards();
+      return saved;
+    } catch (error) {
+      console.error('Error saving dashboard:', error);
+      notify('error', error instanceof Error ? error.message : 'Failed to save dashboard.');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [browserSource, dashboard, description, edges, name, nodes, notify, refreshSavedDashboards, settings]);
+
+  const handleSave = async () => {
+    if (await save()) notify('info', 'Saved.');
+  };
+
+  const handlePublish = async () => {
+    const saved = dirty || !dashboard ? await save() : dashboard;
+    if (!saved) return;
+    try {
+      const published = await dashboardRepository.publish(saved.id, { expectedVersion: saved.version });
+      if (published) {
+        setDashboard(published);
+        notify('info', 'Published.');
+      }
+    } catch (error) {
+      console.error('Error publishing dashboard:', error);
+      notify('error', 'Failed to publish dashboard.');
+    }
+  };
+
+  // Discarding also drops the stored draft so a reload does not bring the changes back
+  const confirmDiscard = () => {
+    if (!dirty) return true;
+    if (!window.confirm('Discard unsaved changes?')) return false;
+    clearEditorDraft(draftKey);
+    return true;
+  };
+
+  const handleNew = () => {
+    if (!confirmDiscard()) return;
+    clearEditorDraft(NEW_DRAFT_KEY);
+    loadIntoEditor(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  };
+
+  const handleOpen = async (id: string) => {
+    if (!id || !confirmDiscard()) return;
+    if (id.startsWith(BROWSER_OPTION_PREFIX)) {
+      const local = await browserRepository.get(id.slice(BROWSER_OPTION_PREFIX.length));
+      if (local) {
+        loadIntoEditor(local, { asCopy: true, name: local.name });
+        setBrowserSource(local);
+        window.history.replaceState(null, '', window.location.pathname);
+        notify('info', `Save to move "${local.name}" from this browser to your account.`);
+      }
+      return;
+    }
+    const found = await dashboardRepository.get(id);
+    if (found) {
+      openDashboard(found);
+      window.history.replaceState(null, '', `?id=${found.id}`);
+    }
+  };
+
+  const handleExport = () => {
+    const persisted = toPersistedGraph(nodes, edges);
+    const now = new Date().toISOString();
+    downloadDashboardFile({
+      ...(dashboard ?? { id: createId('dash'), createdAt: now, version: 1, status: 'draft' as const }),
+      name: name.trim() || 'Untitled Roadmap',
+      description,
+      settings,
+      ...persisted,
+      updatedAt: now,
+    });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !confirmDiscard()) return;
+    try {
+      const imported = importDashboard(await file.text());
+      // Imports always become a new dashboard so they never overwrite an existing one
+      loadIntoEditor(imported, { asCopy: true });
+      notify('info', `Imported "${imported.name}". Save to keep it.`);
+    } catch (error) {
+      console.error('Error importing dashboard:', error);
+      notify('error', error instanceof DashboardImportError
+        ? `Invalid dashboard file: ${error.errors[0]?.path} ${error.errors[0]?.message}`
+        : 'Could not read dashboard file.');
+    }
+  };
+
+  const quarterMismatches = useMemo(() => findQuarterMismatches(nodes, quarters), [nodes, quarters]);
+
+  const issues = useMemo(() => validateGraph(nodes, edges, GRAPH_RULES, periodModel), [nodes, edges, periodModel]);
+
+  // Flag misplaced nodes, rule violations and roll-ups on the canvas; decorations are display-only and never saved
+  const displayNodes = useMemo(() => {
+    const misplaced = new Set(quarterMismatches.map(m => m.id));
+    const badges = summarizeIssuesByNode(issues);
+    const measured = withProgressRollups(withMetricRollups(nodes, edges), edges);
+    if (misplaced.size === 0 && badges.size === 0) return measured;
+    return measured.map(n => {
+      const badge = badges.get(n.id);
+      if (!badge && !misplaced.has(n.id)) return n;
+      return {
+        ...n,
+        className: misplaced.has(n.id) ? 'quarter-mismatch' : undefined,
+        data: badge ? { ...n.data, issues: badge } : n.data,
+      };
+    });
+  }, [nodes, edges, issues, quarterMismatches]);
+
+  // Presentation steps record what is on screen and the selected nodes
+  const presentation = settings.presentation ?? NO_STEPS;
+  const changePresentation = useCallback((steps: PresentationStep[]) => {
+    const { settings: currentSettings = NO_SETTINGS } = graphRef.current;
+    execute({
+      type: 'updateSettings',
+      before: currentSettings,
+      after: { ...currentSettings, presentation: steps.length > 0 ? steps : undefined },
+    });
+  }, [execute]);
+
+  const captureStep = useCallback((): Omit<PresentationStep, 'id' | 'caption'> => {
+    const { width, height } = flowStore.getState();
+    return {
+      viewport: viewportArea(getViewport(), width, height),
+      nodeIds: graphRef.current.nodes.filter(n => n.selected).map(n => n.id),
+    };
+  }, [flowStore, getViewport]);
+
+  const addStep = useCallback(() => {
+    const steps = graphRef.current.settings?.presentation ?? NO_STEPS;
+    changePresentation([...steps, { id: createId('step'), caption: '', ...captureStep() }]);
+  }, [changePresentation, captureStep]);
+
+  const recaptureStep = useCallback((index: number) => {
+    const steps = graphRef.current.settings?.presentation ?? NO_STEPS;
+    changePresentation(steps.map((step, i) => (i === index ? { ...step, ...captureStep() } : step)));
+  }, [changePresentation, captureStep]);
+
+  const showStep = useCallback((step: PresentationStep) => {
+    setGraph(current => ({ ...current, nodes: current.nodes.map(n => ({ ...n, selected: step.nodeIds.includes(n.id) })) }));
+    fitBounds(step.viewport, { padding: STEP_PADDING, duration: STEP_TRANSITION_MS });
+  }, [fitBounds]);
+
+  // Select the issue's first node (or edge) and bring everything involved into view
+  const focusIssue = useCallback((issue: GraphIssue) => {
+    const [nodeId] = issue.nodeIds;
+    const edgeId = nodeId ? undefined : issue.edgeIds[0];
+    setGraph(current => ({
+      ...current,
+      nodes: current.nodes.map(n => ({ ...n, selected: n.id === nodeId })),
+      edges: current.edges.map(e => ({ ...e, selected: e.id === edgeId })),
+    }));
+    setSelectedNodeId(nodeId ?? null);
+    setSelectedEdgeId(edgeId ?? null);
+    if (issue.nodeIds.length > 0) {
+      fitView({ nodes: issue.nodeIds.map(id => ({ id })), padding: 0.4, maxZoom: 1, duration: 300 });
+    }
+  }, [fitView]);
+
+  const lastCommand = history.past[history.past.length - 1]?.command;
+  const nextCommand = history.future[0]?.command;
+
+  const selectedNode = useMemo(() => nodes.find(n => n.id === selectedNodeId) ?? null, [nodes, selectedNodeId]);
+  const selectedEdge = useMemo(() => edges.find(e => e.id === selectedEdgeId) ?? null, [edges, selectedEdgeId]);
+
+  return (
+    <div className="dashboard-editor">
+      <header className="editor-toolbar">
+        <div className="toolbar-group toolbar-title">
+          <input
+            className="editor-name"
+            value={name}
+            onChange={(e) => { setName(e.target.value); setDirty(true); }}
+            aria-label="Dashboard name"
+          />
+          <input
+            className="editor-description"
+            value={description}
+            onChange={(e) => { setDescription(e.target.value); setDirty(true); }}
+            placeholder="Description"
+            aria-label="Dashboard description"
+          />
+          {dashboard && (
+            <span className="editor-meta">v{dashboard.version} · {dashboard.status}</span>
+          )}
+          {dirty && <span className="editor-dirty">Unsaved</span>}
+        </div>
+
+        <div className="toolbar-group">
+          <button
+            className="toolbar-btn icon"
+            onClick={undo}
+            disabled={!lastCommand}
+            title={lastCommand ? `Undo ${describeCommand(lastCommand)} (Ctrl+Z)` : 'Nothing to undo'}
+            aria-label="Undo"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M9 14L4 9l5-5"/>
+              <path d="M4 9h10.5a5.5 5.5 0 010 11H11"/>
+            </svg>
+          </button>
+          <button
+            className="toolbar-btn icon"
+            onClick={redo}
+            disabled={!nextCommand}
+            title={nextCommand ? `Redo ${describeCommand(nextCommand)} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            aria-label="Redo"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M15 14l5-5-5-5"/>
+              <path d="M20 9H9.5a5.5 5.5 0 000 11H13"/>
+            </svg>
+          </button>
+          <button
+            className="toolbar-btn"
+            onClick={tidyLayout}
+            disabled={nodes.length === 0}
+            title="Arrange nodes in their period columns, following dependencies"
+          >
+            Tidy
+          </button>
+          <button
+            className={`toolbar-btn ${snapToColumns ? 'active' : ''}`}
+            onClick={() => setSnapToColumns(snap => !snap)}
+            aria-pressed={snapToColumns}
+            title="Snap dropped nodes to the center of their period column"
+          >
+            Snap
+          </button>
+          <select
+            className="editor-open"
+            value=""
+            onChange={(e) => handleOpen(e.target.value)}
+            aria-label="Open dashboard"
+          >
+            <option value="">Open…</option>
+            {savedDashboards.map(d => (
+              <option key={d.id} value={d.id}>{d.name} (v{d.version})</option>
+            ))}
+            {browserDashboards.length > 0 && (
+              <optgroup label="Saved in this browser">
+                {browserDashboards.map(d => (
+                  <option key={d.id} value={`${BROWSER_OPTION_PREFIX}${d.id}`}>{d.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <button className="toolbar-btn" onClick={handleNew}>New</button>
+          <button className="toolbar-btn" onClick={() => fileInputRef.current?.click()}>Import</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+          <button className="toolbar-btn" onClick={handleExport}>Export</button>
+          <button className="toolbar-btn" onClick={handlePublish} disabled={saving}>Publish</button>
+          <button className="toolbar-btn primary" onClick={handleSave} disabled={saving || (!dirty && !!dashboard)}>
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </header>
+
+      {message && <div className={`editor-message ${message.kind}`}>{message.text}</div>}
+
+      <div className="editor-body">
+        <aside className="editor-palette">
+          <span className="palette-title">Add</span>
+          {(Object.keys(CATEGORY_CONFIG) as NodeCategory[]).map(category => (
+            <button
+              key={category}
+              className="palette-item"
+              style={{ '--node-color': CATEGORY_CONFIG[category].color } as React.CSSProperties}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData('application/hf-category', category);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onClick={() => addNode(category)}
+              title={`Click to add to ${periods[0].label}, or drag into a period`}
+            >
+              <span className="palette-swatch" />
+              {CATEGORY_CONFIG[category].label}
+            </button>
+          ))}
+        </aside>
+
+        <div className="builder-canvas" onDragOver={onDragOver} onDrop={onDrop}>
+          {quarterMismatches.length > 0 && (
+            <div className="editor-validation">
+              <span>
+                {quarterMismatches.length === 1
+                  ? '1 node is drawn outside its period column'
+                  : `${quarterMismatches.length} nodes are drawn outside their period columns`}
+              </span>
+              <button onClick={() => fixQuarters(quarterMismatches, 'move')}>Move into columns</button>
+              <button onClick={() => fixQuarters(quarterMismatches, 'requarter')}>Use column periods</button>
+            </div>
+          )}
+          <CustomFieldsContext.Provider value={settings.customFields ?? NO_CUSTOM_FIELDS}>
+            <ReactFlow
+              nodes={displayNodes}
+              edges={edges}
+              nodeTypes={nodeTypes}
+              edgeTypes={edgeTypes}
+              nodeOrigin={[0.5, 0]}
+              onNodesChange={onNodesChange}
+              onEdgesChange={onEdgesChange}
+              onNodeDragStart={onNodeDragStart}
+              onNodeDragStop={onNodeDragStop}
+              onDelete={onDelete}
+              onConnect={onConnect}
+              onSelectionChange={onSelectionChange}
+              defaultEdgeOptions={{ type: 'strategy' }}
+              deleteKeyCode={['Backspace', 'Delete']}
+              fitView
+              fitViewOptions={{ padding: 0.1, maxZoom: 1 }}
+              minZoom={0.3}
+              maxZoom={2}
+            >
+              <StrategicBackground periods={periods} lanes={bands} />
+              <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="color-mix(in srgb, var(--hf-text) 3%, transparent)" />
+              <Controls showInteractive={false} />
+              <MiniMap
+                nodeColor={(node) => CATEGORY_CONFIG[(node.data as StrategyNodeData).category]?.color ?? '#6a6a6a'}
+                maskColor="rgba(0, 0, 0, 0.5)"
+                style={{ background: 'var(--hf-bg-secondary)', borderRadius: '8px' }}
+              />
+            </ReactFlow>
+          </CustomFieldsContext.Provider>
+        </div>
+
+        <aside className="editor-sidebar">
+          {selectedNode ? (
+            <NodeInspector
+              node={selectedNode}
+              onChange={(patch) => updateNodeData(selectedNode.id, patch)}
+              onDelete={() => deleteNode(selectedNode.id)}
+              quarterMismatch={quarterMismatches.find(m => m.id === selectedNode.id)}
+              onFixQuarter={(fix) => fixQuarters(quarterMismatches.filter(m => m.id === selectedNode.id), fix)}
+              customFields={settings.customFields}
+              periods={periods}
+              lanes={lanes}
+            />
+          ) : selectedEdge ? (
+            <EdgeInspector
+              edge={selectedEdge}
+              sourceCategory={nodes.find(n => n.id === selectedEdge.source)?.data.category}
+              onChange={(type) => updateEdgeType(selectedEdge.id, type)}
+              onDelete={() => deleteEdge(selectedEdge.id)}
+            />
+          ) : (
+            <div className="editor-empty-inspector">
+              <p>Select a node or connection to edit it.</p>
+              <p>Drag from a node's right or bottom handle to connect it; the link uses the source category's default type.</p>
+              <TimelineEditor model={periodModel} onApply={changeTimeline} />
+              <SwimlanesEditor lanes={lanes} nodes={nodes} onChange={changeLanes} />
+              <CustomFieldsEditor
+                fields={settings.customFields ?? []}
+                onChange={(customFields) => execute({
+                  type: 'updateSettings',
+                  before: settings,
+                  after: { ...settings, customFields: customFields.length > 0 ? customFields : undefined },
+                })}
+              />
+            </div>
+          )}
+          {nodes.length > 0 && (
+            <PresentationStepsPanel
+              steps={presentation}
+              selectedCount={nodes.filter(n => n.selected).length}
+              onAdd={addStep}
+              onRecapture={recaptureStep}
+              onShow={showStep}
+              onChange={changePresentation}
+            />
+          )}
+          {nodes.length > 0 && <GraphIssuesPanel issues={issues} onSelect={focusIssue} />}
+        </aside>
+      </div>
+    </div>
+  );
+}
+
+function DashboardEditor() {
+  return (
+    <AuthWrapper>
+      <ReactFlowProvider>
+        <DashboardEditorCanvas />
+      </ReactFlowProvider>
+    </AuthWrapper>
+  );
+}
+
+export default DashboardEditor;
@@ -4,16 +4,70 @@ import { useAuth } from '../Auth/AuthContext';
 import { supabase } from '../../lib/supabase';
 import './list-styles.css';
 import type { SavedDashboard } from './dashboardStorage';
+import {
+  DashboardConflictError,
+  markArchived,
+  markRestored,
+  markTrashed,
+  markUntrashed,
+  trashExpiresAt,
+  TRASH_RETENTION_DAYS,
+} from './dashboardStorage';
+import { purgeExpiredTrash } from './dashboardRepository';
+import { createSupabaseRepository } from './supabaseRepository';
+import type { StorageUsage } from './indexedDbStore';
+import { getStorageUsage, describeStorageUsage, STORAGE_WARNING_PERCENT } from './indexedDbStore';
+import VersionTimeline from './VersionTimeline';
+import type { QueuedMutation, ReplayResult } from './syncQueue';
+import { createSyncQueue, isOnline } from './syncQueue';
 
-type ViewMode = 'active' | 'archived';
+type ViewMode = 'active' | 'archived' | 'trash';
 
-// Supabase stores status as integer: 0=draft, 1=published, 2=archived
-const STATUS_TO_INT: Record<SavedDashboard['status'], number> = {
-  draft: 0,
-  published: 1,
-  archived: 2,
+type StatusAction = 'archive' | 'restore' | 'trash' | 'restoreFromTrash';
+
+// Local preview of each status change, shown until the backend confirms it
+const OPTIMISTIC_TRANSITIONS: Record<StatusAction, (dashboard: SavedDashboard) => SavedDashboard> = {
+  archive: d => markArchived(d),
+  restore: d => markRestored(d),
+  trash: d => markTrashed(d),
+  restoreFromTrash: d => markUntrashed(d),
+};
+
+const ACTION_LABELS: Record<StatusAction, string> = {
+  archive: 'archive',
+  restore: 'restore',
+  trash: 'move to trash',
+  restoreFromTrash: 'restore from trash',
 };
 
+function matchesViewMode(dashboard: SavedDashboard, viewMode: ViewMode): boolean {
+  switch (viewMode) {
+    case 'archived': return dashboard.status === 'archived';
+    case 'trash': return dashboard.status === 'trashed';
+    default: return dashboard.status !== 'archived' && dashboard.status !== 'trashed';
+  }
+}
+
+const PURGE_MARKER_KEY = 'hackfluency_trash_purged_at';
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Expired trash is purged at most once a day, when the list is opened
+function isPurgeDue(): boolean {
+  try {
+    const last = Number(localStorage.getItem(PURGE_MARKER_KEY));
+    return !last || Date.now() - last > PURGE_INTERVAL_MS;
+  } catch {
+    return false;
+  }
+}
+
+function daysUntil(date: Date): number {
+  return Math.max(0, Math.ceil((date.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+const dashboardRepository = createSupabaseRepository(supabase);
+const syncQueue = createSyncQueue();
+
 function DashboardListContent() {
   const [viewMode, setViewMode] = useState<ViewMode>('active');
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
@@ -21,75 +75,141 @@ function DashboardListContent() {
   const { dashboards: remoteDashboards, isAuthorized } = useAuth();
   // Local copy for optimistic UI updates
   const [dashboards, setDashboards] = useState<SavedDashboard[]>(remoteDashboards);
+  const [historyOpen, setHistoryOpen] = useState<string | null>(null);
+  // Dashboards created in this session (e.g. forks) that the access list doesn't know yet
+  const [createdIds, setCreatedIds] = useState<Set<string>>(new Set());
+  const canView = (id: string) => isAuthorized(id) || createdIds.has(id);
+  const [pendingChanges, setPendingChanges] = useState<QueuedMutation[]>(() => syncQueue.pending());
+  const [syncing, setSyncing] = useState(false);
+  // Browser storage holds offline changes, editor drafts and locally saved dashboards
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
 
   // Sync local state when remote data changes (initial load / auth refresh)
   useEffect(() => {
     setDashboards(remoteDashboards);
   }, [remoteDashboards]);
 
-  const filteredDashboards = dashboards.filter((d) => {
-    const isStatusMatch = viewMode === 'archived' ? d.status === 'archived' : d.status !== 'archived';
-    const authorized = isAuthorized(d.id);
-    return isStatusMatch && authorized;
-  });
+  const filteredDashboards = dashboards.filter((d) => matchesViewMode(d, viewMode) && canView(d.id));
+  const countFor = (mode: ViewMode) => dashboards.filter((d) => matchesViewMode(d, mode) && canView(d.id)).length;
 
   const showError = (msg: string) => {
     setActionError(msg);
     setTimeout(() => setActionError(null), 4000);
   };
 
-  const handleArchive = async (id: string) => {
-    // Optimistic update
-    setDashboards(prev =>
-      prev.map(d => d.id === id ? { ...d, status: 'archived' as const, archivedAt: new Date().toISOString() } : d)
-    );
-    const { error } = await supabase
-      .from('dashboards')
-      .update({ status: STATUS_TO_INT['archived'] })
-      .eq('id', id);
-    if (error) {
-      showError('Failed to archive dashboard. Please try again.');
-      // Rollback
-      setDashboards(prev =>
-        prev.map(d => d.id === id ? { ...d, status: 'published' as const, archivedAt: undefined } : d)
-      );
+  const applyReplayResult = ({ applied, conflicts }: ReplayResult) => {
+    setDashboards(prev => {
+      let next = prev;
+      applied.forEach(({ mutation, dashboard }) => {
+        next = dashboard
+          ? next.map(d => d.id === dashboard.id ? dashboard : d)
+          : next.filter(d => d.id !== mutation.dashboardId);
+      });
+      // Conflicting changes were dropped: show what is actually stored
+      conflicts.forEach(({ current }) => {
+        if (current) next = next.map(d => d.id === current.id ? current : d);
+      });
+      return next;
+    });
+    if (conflicts.length > 0) {
+      console.warn('Queued changes conflicted:', conflicts);
+      showError(`${conflicts.length} offline change${conflicts.length > 1 ? 's' : ''} could not be applied: ${conflicts[0].message}`);
+    }
+  };
+
+  const syncPendingChanges = async () => {
+    if (!isOnline() || syncQueue.pending().length === 0) return;
+    setSyncing(true);
+    try {
+      applyReplayResult(await syncQueue.replay(dashboardRepository));
+    } finally {
+      setSyncing(false);
     }
   };
 
-  const handleRestore = async (id: string) => {
-    // Optimistic update
-    setDashboards(prev =>
-      prev.map(d => d.id === id ? { ...d, status: 'published' as const, archivedAt: undefined } : d)
-    );
-    const { error } = await supabase
-      .from('dashboards')
-      .update({ status: STATUS_TO_INT['published'] })
-      .eq('id', id);
-    if (error) {
-      showError('Failed to restore dashboard. Please try again.');
+  useEffect(() => {
+    getStorageUsage().then(setStorageUsage);
+  }, [pendingChanges]);
+
+  // Replay queued changes on load and whenever the browser comes back online
+  useEffect(() => {
+    const unsubscribe = syncQueue.subscribe(setPendingChanges);
+    syncPendingChanges();
+    window.addEventListener('online', syncPendingChanges);
+    if (isOnline() && isPurgeDue()) {
+      purgeExpiredTrash(dashboardRepository)
+        .then(purged => {
+          localStorage.setItem(PURGE_MARKER_KEY, String(Date.now()));
+          if (purged.length > 0) setDashboards(prev => prev.filter(d => !purged.includes(d.id)));
+        })
+        .catch(error => console.error('Error purging expired trash:', error));
+    }
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', syncPendingChanges);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Status changes carry the version this card was loaded at so stale cards can't overwrite newer edits
+  const handleStatusChange = async (id: string, action: StatusAction) => {
+    const previous = dashboards.find(d => d.id === id);
+    if (!previous) return;
+
+    // Optimistic update (kept while the change waits in the offline queue)
+    const optimistic = OPTIMISTIC_TRANSITIONS[action](previous);
+    setDashboards(prev => prev.map(d => d.id === id ? optimistic : d));
+    try {
+      const outcome = await syncQueue.run(dashboardRepository, {
+        kind: action,
+        dashboardId: id,
+        expectedVersion: previous.version,
+      });
+      if (outcome.status === 'applied' && outcome.dashboard) {
+        const updated = outcome.dashboard;
+        setDashboards(prev => prev.map(d => d.id === id ? updated : d));
+      } else if (outcome.status === 'queued') {
+        syncPendingChanges();
+      }
+    } catch (error) {
+      if (error instanceof DashboardConflictError) {
+        // Someone else saved first: show their version instead of ours
+        setDashboards(prev => prev.map(d => d.id === id ? error.current : d));
+        showError(`"${previous.name}" was changed by someone else (now v${error.current.version}). Review it and try again.`);
+        return;
+      }
+      console.error(`Failed to ${ACTION_LABELS[action]}:`, error);
+      showError(`Failed to ${ACTION_LABELS[action]} dashboard. Please try again.`);
       // Rollback
-      setDashboards(prev =>
-        prev.map(d => d.id === id ? { ...d, status: 'archived' as const } : d)
-      );
+      setDashboards(prev => prev.map(d => d.id === id ? previous : d));
     }
   };
 
+  // Permanent deletion, only offered from the trash
   const handleDelete = async (id: string) => {
     if (deleteConfirm === id) {
+      const previous = dashboards.find(d => d.id === id);
       // Optimistic removal
       setDashboards(prev => prev.filter(d => d.id !== id));
       setDeleteConfirm(null);
-      const { error } = await supabase
-        .from('dashboards')
-        .delete()
-        .eq('id', id);
-      if (error) {
-        showError('Failed to delete dashboard. Please try again.');
-        // Re-add the dashboard back from remoteDashboards (best effort rollback)
-        setDashboards(prev => {
-          const original = remoteDashboards.find(d => d.id === id);
-          return original ? [...prev, original] : prev;
+      try {
+        const outcome = await syncQueue.run(dashboardRepository, {
+          kind: 'delete',
+          dashboardId: id,
+          expectedVersion: previous?.version,
         });
+        if (outcome.status === 'queued') syncPendingChanges();
+      } catch (error) {
+        if (error instanceof DashboardConflictError) {
+          // Restored or edited elsewhere since this card loaded: keep it
+          setDashboards(prev => [...prev.filter(d => d.id !== id), error.current]);
+          showError(`"${error.current.name}" was changed by someone else and was not deleted.`);
+          return;
+        }
+        console.error('Delete failed:', error);
+        showError('Failed to delete dashboard. Please try again.');
+        // Put the card back (best effort rollback)
+        if (previous) setDashboards(prev => [...prev, previous]);
       }
     } else {
       setDeleteConfirm(id);
@@ -97,6 +217,16 @@ function DashboardListContent() {
     }
   };
 
+  const handleVersionRestored = (updated: SavedDashboard) => {
+    setDashboards(prev => prev.map(d => d.id === updated.id ? updated : d));
+  };
+
+  const handleVersionForked = (created: SavedDashboard) => {
+    setCreatedIds(prev => new Set(prev).add(created.id));
+    setDashboards(prev => [...prev, created]);
+    setHistoryOpen(null);
+  };
+
   const handleDuplicate = (id: string) => {
     // Store source in sessionStorage and open dashboard-builder in duplicate mode
     const dashboard = dashboards.find(d => d.id === id);
@@ -126,6 +256,7 @@ function DashboardListContent() {
       case 'published': return '#00D26A';
       case 'draft': return '#6a6a6a';
       case 'archived': return '#ef4444';
+      case 'trashed': return '#9ca3af';
       default: return '#6a6a6a';
     }
   };
@@ -226,6 +357,22 @@ function DashboardListContent() {
             <h1>Strategy Dashboards</h1>
             <p>Manage and view your security strategy dashboards</p>
           </div>
+          {pendingChanges.length > 0 && (
+            <button
+              className={`sync-indicator ${syncing ? 'syncing' : ''}`}
+              onClick={syncPendingChanges}
+              disabled={syncing}
+              title={pendingChanges.map(m => `${m.kind} ${dashboards.find(d => d.id === m.dashboardId)?.name ?? m.dashboardId}`).join('\n')}
+            >
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <polyline points="23 4 23 10 17 10"/><polyline points="1 20 1 14 7 14"/>
+                <path d="M3.51 9a9 9 0 0114.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0020.49 15"/>
+              </svg>
+              {syncing
+                ? 'Syncing...'
+                : `${pendingChanges.length} pending change${pendingChanges.length > 1 ? 's' : ''}${isOnline() ? '' : ' (offline)'}`}
+            </button>
+          )}
           <div className="list-tabs">
             <button
               className={`tab-btn ${viewMode === 'active' ? 'active' : ''}`}
@@ -236,7 +383,7 @@ function DashboardListContent() {
               </svg>
               Active
               <span className="tab-count">
-                {dashboards.filter((d) => d.status !== 'archived' && isAuthorized(d.id)).length}
+                {countFor('active')}
               </span>
             </button>
             <button
@@ -248,7 +395,19 @@ function DashboardListContent() {
               </svg>
               Archived
               <span className="tab-count">
-                {dashboards.filter((d) => d.status === 'archived' && isAuthorized(d.id)).length}
+                {countFor('archived')}
+              </span>
+            </button>
+            <button
+              className={`tab-btn ${viewMode === 'trash' ? 'active' : ''}`}
+              onClick={() => setViewMode('trash')}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2"/>
+              </svg>
+              Trash
+              <span className="tab-count">
+                {countFor('trash')}
               </span>
             </button>
           </div>
@@ -262,6 +421,10 @@ function DashboardListContent() {
                 <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
                   <path d="M21 8v13H3V8M1 3h22v5H1zM10 12h4"/>
                 </svg>
+              ) : viewMode === 'trash' ? (
+                <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                  <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2"/>
+                </svg>
               ) : (
                 <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
                   <rect x="3" y="3" width="18" height="18" rx="2"/>
@@ -270,11 +433,15 @@ function DashboardListContent() {
                 </svg>
               )}
             </div>
-            <h3>{viewMode === 'archived' ? 'No archived dashboards' : 'No dashboards found'}</h3>
+            <h3>
+              {viewMode === 'archived' ? 'No archived dashboards' : viewMode === 'trash' ? 'Trash is empty' : 'No dashboards found'}
+            </h3>
             <p>
               {viewMode === 'archived'
                 ? 'Archived dashboards you have access to will appear here'
-                : 'You do not have access to any dashboards, or haven\'t created any yet.'}
+                : viewMode === 'trash'
+                  ? `Deleted dashboards stay here for ${TRASH_RETENTION_DAYS} days before they are removed for good`
+                  : 'You do not have access to any dashboards, or haven\'t created any yet.'}
             </p>
             <div style={{ marginTop: '24px', borderTop: '1px solid var(--hf-bg-elevated, #1a1a1a)', paddingTop: '24px' }}>
               <p style={{ color: 'var(--hf-text-dim, #666)', fontSize: '0.8rem', marginBottom: '12px' }}>Need an example?</p>
@@ -335,13 +502,46 @@ function DashboardListContent() {
                   {dashboard.publishedAt && (
                     <span>Published: {formatDate(dashboard.publishedAt)}</span>
                   )}
+                  {dashboard.status === 'trashed' && (() => {
+                    const expiresAt = trashExpiresAt(dashboard);
+                    return expiresAt && (
+                      <span className="card-trash-expiry">
+                        Deleted permanently in {daysUntil(expiresAt)} day{daysUntil(expiresAt) === 1 ? '' : 's'}
+                      </span>
+                    );
+                  })()}
                   <span style={{ display: 'block', marginTop: '4px', fontSize: '0.7em', color: 'var(--hf-text-disabled, #444)', fontFamily: 'monospace' }}>
                     ID: {dashboard.id}
                   </span>
                 </div>
 
                   <div className="card-actions">
-                    {dashboard.status !== 'archived' ? (
+                    {dashboard.status === 'trashed' ? (
+                      <>
+                      <button
+                        className="action-btn restore"
+                        onClick={() => handleStatusChange(dashboard.id, 'restoreFromTrash')}
+                      >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <path d="M3 12a9 9 0 019-9 9.75 9.75 0 016.74 2.74L21 8"/>
+                          <path d="M21 3v5h-5"/>
+                          <path d="M21 12a9 9 0 01-9 9 9.75 9.75 0 01-6.74-2.74L3 16"/>
+                          <path d="M8 16H3v5"/>
+                        </svg>
+                        Restore
+                      </button>
+                      <button
+                        className={`action-btn delete ${deleteConfirm === dashboard.id ? 'confirm' : ''}`}
+                        onClick={() => handleDelete(dashboard.id)}
+                        title={deleteConfirm === dashboard.id ? 'Click again to confirm' : 'Delete permanently'}
+                      >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2"/>
+                        </svg>
+                        {deleteConfirm === dashboard.id ? 'Confirm' : 'Delete forever'}
+                      </button>
+                    </>
+                  ) : dashboard.status !== 'archived' ? (
                       <>
                         <a href={`/dashboards/view?id=${dashboard.id}`} className="action-btn primary">
                           <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -360,9 +560,19 @@ function DashboardListContent() {
                           <path d="M5 15H4a2 2 0 01-2-2V4a2 2 0 012-2h9a2 2 0 012 2v1"/>
                         </svg>
                       </button>
+                      <button
+                        className={`action-btn history ${historyOpen === dashboard.id ? 'open' : ''}`}
+                        onClick={() => setHistoryOpen(prev => prev === dashboard.id ? null : dashboard.id)}
+                        title="Version history"
+                        aria-expanded={historyOpen === dashboard.id}
+                      >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/>
+                        </svg>
+                      </button>
                       <button
                         className="action-btn archive"
-                        onClick={() => handleArchive(dashboard.id)}
+                        onClick={() => handleStatusChange(dashboard.id, 'archive')}
                         title="Archive"
                       >
                         <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -374,7 +584,7 @@ function DashboardListContent() {
                     <>
                       <button
                         className="action-btn restore"
-                        onClick={() => handleRestore(dashboard.id)}
+                        onClick={() => handleStatusChange(dashboard.id, 'restore')}
                       >
                         <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                           <path d="M3 12a9 9 0 019-9 9.75 9.75 0 016.74 2.74L21 8"/>
@@ -385,24 +595,42 @@ function DashboardListContent() {
                         Restore
                       </button>
                       <button
-                        className={`action-btn delete ${deleteConfirm === dashboard.id ? 'confirm' : ''}`}
-                        onClick={() => handleDelete(dashboard.id)}
-                        title={deleteConfirm === dashboard.id ? 'Click again to confirm' : 'Delete permanently'}
+                        className="action-btn delete"
+                        onClick={() => handleStatusChange(dashboard.id, 'trash')}
+                        title={`Move to trash (recoverable for ${TRASH_RETENTION_DAYS} days)`}
                       >
                         <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                           <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2"/>
                         </svg>
-                        {deleteConfirm === dashboard.id ? 'Confirm' : 'Delete'}
+                        Delete
                       </button>
                     </>
                   )}
                 </div>
+
+                {historyOpen === dashboard.id && (
+                  <VersionTimeline
+                    dashboard={dashboard}
+                    repository={dashboardRepository}
+                    onRestored={handleVersionRestored}
+                    onForked={handleVersionForked}
+                    onError={showError}
+                  />
+                )}
               </article>
             ))}
           </div>
         )}
 
         <footer className="list-footer">
+          {storageUsage && (
+            <span
+              className={`storage-usage ${storageUsage.percentUsed >= STORAGE_WARNING_PERCENT ? 'warning' : ''}`}
+              title={storageUsage.persisted ? 'Persistent storage granted' : 'The browser may clear this storage when space runs low'}
+            >
+              Browser storage: {describeStorageUsage(storageUsage)}
+            </span>
+          )}
           <button
             className="logout-btn"
             onClick={handleLogout}
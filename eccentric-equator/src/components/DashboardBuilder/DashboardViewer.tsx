@@ -4,9 +4,10 @@ import {
   MiniMap,
   Background,
   BackgroundVariant,
-  useViewport,
   ReactFlowProvider,
+  useReactFlow,
   type Node,
+  type Edge,
   type NodeTypes,
   type ReactFlowInstance,
   type EdgeTypes,
@@ -17,16 +18,38 @@ import './viewer-styles.css';
 
 import StrategyNode from './StrategyNode';
 import StrategyEdge from './StrategyEdge';
-import type { StrategyNodeData, Quarter } from './types';
-import { QUARTER_CONFIG } from './types';
+import StrategicBackground from './StrategicBackground';
+import type { StrategyNodeData, PeriodModel, SwimlaneDefinition, PresentationStep } from './types';
 import type { SavedDashboard } from './dashboardStorage';
 import { exportDashboardToPDF } from './pdfExport';
-import { useDeviceDetection, useReactFlowConfig, type DeviceType, BREAKPOINTS } from './useDeviceDetection';
+import { downloadDashboardFile } from './dashboardSchema';
+import { useDeviceDetection, useReactFlowConfig, fitConfigToTimeline, type DeviceType, BREAKPOINTS } from './useDeviceDetection';
 import { PDFExportContainer } from './PDFExportContainer';
-
-// --- FIXED COORDINATE SYSTEM ---
-const VIRTUAL_WIDTH = 1440;
-const QUARTERS: Quarter[] = ['q1', 'q2', 'q3', 'q4'];
+import { withMetricRollups } from './metrics';
+import { computeProgress, withProgressRollups } from './progress';
+import ViewerFilterBar from './ViewerFilterBar';
+import type { NodeFilter } from './nodeDetails';
+import {
+  CustomFieldsContext,
+  SearchTermsContext,
+  NO_CUSTOM_FIELDS,
+  isNodeFilterActive,
+  matchesNodeFilter,
+  nodeFilterFromParams,
+  writeNodeFilterParams,
+  searchTerms,
+  todayIso,
+} from './nodeDetails';
+import type { Period } from './periods';
+import { buildPeriods, currentPeriod, periodName, resolvePeriodModel } from './periods';
+import { timelineWidth } from './quarters';
+import type { LaneStats } from './lanes';
+import { applyLaneCollapse, computeLaneLayout, computeLaneStats, laneBands, laneOf, lanesBottom } from './lanes';
+import { useGraphAnalysis, type AnalysisMode } from './useGraphAnalysis';
+import RiskCoverageMatrix from './RiskCoverageMatrix';
+import NodeDetailDrawer from './NodeDetailDrawer';
+import PresentationPlayer from './PresentationPlayer';
+import { NO_STEPS, PRESENTATION_MAX_ZOOM, PRESENTATION_MIN_ZOOM, stepClasses } from './presentation';
 
 const nodeTypes: NodeTypes = {
   strategy: StrategyNode,
@@ -39,8 +62,18 @@ const edgeTypes: EdgeTypes = {
 interface DashboardViewerProps {
   dashboard: SavedDashboard;
   publicMode?: boolean;
+  subtitle?: string;
+  // Panel rendered over the right side of the canvas (e.g. version changes)
+  sidePanel?: React.ReactNode;
+  // Extra content at the start of the nav actions (e.g. live presence)
+  navExtras?: React.ReactNode;
 }
 
+const NO_LANES: SwimlaneDefinition[] = [];
+const NO_COLLAPSED_LANES: ReadonlySet<string> = new Set();
+// Presenting frames each step itself, anywhere on the canvas
+const UNBOUNDED_EXTENT: [[number, number], [number, number]] = [[-Infinity, -Infinity], [Infinity, Infinity]];
+
 // Store viewport preference in localStorage
 const VIEWPORT_STORAGE_KEY = 'dashboard-viewport-zoom';
 
@@ -69,44 +102,57 @@ function clearViewportStorage() {
   }
 }
 
-// Background guides that move and scale with the flow
-function StrategicBackground() {
-  const { x, y, zoom } = useViewport();
-  
-  const style: React.CSSProperties = {
-    transform: `translate(${x}px, ${y}px) scale(${zoom})`,
-    transformOrigin: '0 0',
-  };
+// Filter and focused node of a shared link, e.g. ?id=…&q=mfa&status=active&focus=node-3
+function getUrlViewState(): { filter: NodeFilter; focus: string | null } {
+  const params = new URLSearchParams(typeof window === 'undefined' ? '' : window.location.search);
+  return { filter: nodeFilterFromParams(params), focus: params.get('focus') };
+}
 
-  return (
-    <div className="strategic-bg-guide" style={style}>
-      {QUARTERS.map((q) => (
-        <div key={q} className="strategic-bg-column">
-          <div className="strategic-bg-label">
-            <span className="strategic-bg-badge">{QUARTER_CONFIG[q].label}</span>
-            <span className="strategic-bg-months">{QUARTER_CONFIG[q].months}</span>
-          </div>
-        </div>
-      ))}
-    </div>
-  );
+// Mirror the view into the URL so it can be shared; other parameters are kept
+function storeUrlViewState(filter: NodeFilter, focus: string | null) {
+  const params = new URLSearchParams(window.location.search);
+  writeNodeFilterParams(filter, params);
+  if (focus) params.set('focus', focus);
+  else params.delete('focus');
+  const search = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
 }
 
 interface DashboardStatsProps {
   nodes: Node<StrategyNodeData>[];
+  edges: Edge[];
+  periods: Period[];
+  periodModel: PeriodModel;
+  laneStats: LaneStats[];
+  collapsedLanes: ReadonlySet<string>;
 }
 
-function DashboardStats({ nodes }: DashboardStatsProps) {
+// Counts cover what is on the canvas: nodes of collapsed lanes are left out
+function DashboardStats({ nodes: allNodes, edges, periods, periodModel, laneStats, collapsedLanes }: DashboardStatsProps) {
+  const nodes = useMemo(() => allNodes.filter(n => !n.hidden), [allNodes]);
   const stats = useMemo(() => {
     const byStatus: Record<string, number> = { done: 0, active: 0, planned: 0, blocked: 0 };
     nodes.forEach((node) => {
       const data = node.data as StrategyNodeData;
       if (data) byStatus[data.status] = (byStatus[data.status] || 0) + 1;
     });
-    return { byStatus, total: nodes.length };
-  }, [nodes]);
+    // Work planned for the period we are in now
+    const now = currentPeriod(periods, periodModel, todayIso());
+    const inNow = now ? nodes.filter(n => n.data.quarter === now.key) : [];
+    return {
+      byStatus,
+      total: nodes.length,
+      progress: computeProgress(nodes, edges),
+      now,
+      nowTotal: inNow.length,
+      nowDone: inNow.filter(n => n.data.status === 'done').length,
+    };
+  }, [nodes, edges, periods, periodModel]);
 
-  const progressPercent = stats.total > 0 ? Math.round((stats.byStatus.done / stats.total) * 100) : 0;
+  const progressPercent = Math.round(stats.progress.overall * 100);
+  const progressBasis = stats.progress.basis === 'objectives'
+    ? 'weighted across objectives by priority'
+    : 'weighted across work items by priority';
 
   const statusBadges: Array<{ key: string; label: string; color: string }> = [
     { key: 'done',    label: 'Done',    color: '#00D26A' },
@@ -121,14 +167,34 @@ function DashboardStats({ nodes }: DashboardStatsProps) {
         <span className="label">Total:</span> <span className="value">{stats.total}</span>
       </div>
       <div className="compact-stat compact-stat--progress">
-        <span className="label">Done:</span> <span className="value">{progressPercent}%</span>
-        <div className="compact-progress-bar" title={`${progressPercent}% complete`}>
+        <span className="label">Progress:</span> <span className="value">{progressPercent}%</span>
+        <div className="compact-progress-bar" title={`${progressPercent}% complete, ${progressBasis}`}>
           <div
             className="compact-progress-fill"
             style={{ width: `${progressPercent}%`, background: 'var(--hf-accent, #00D26A)' }}
           />
         </div>
       </div>
+      {stats.now && stats.nowTotal > 0 && (
+        <div
+          className="compact-stat"
+          title={`${stats.nowDone} of ${stats.nowTotal} items planned for ${periodName(stats.now)} are done`}
+        >
+          <span className="label">Now ({stats.now.label}):</span>{' '}
+          <span className="value">{stats.nowDone}/{stats.nowTotal}</span>
+        </div>
+      )}
+      {laneStats.length > 0 && (
+        <div
+          className="compact-stat"
+          title={laneStats
+            .map(l => `${l.lane.label}: ${l.done}/${l.total} done, ${Math.round(l.progress * 100)}%${l.blocked > 0 ? `, ${l.blocked} blocked` : ''}${collapsedLanes.has(l.lane.key) ? ' (collapsed)' : ''}`)
+            .join('\n')}
+        >
+          <span className="label">Lanes:</span>{' '}
+          <span className="value">{laneStats.length - laneStats.filter(l => collapsedLanes.has(l.lane.key)).length}/{laneStats.length}</span>
+        </div>
+      )}
       {statusBadges.map(({ key, label, color }) =>
         stats.byStatus[key] > 0 ? (
           <div key={key} className="compact-stat compact-stat--badge">
@@ -145,26 +211,148 @@ function DashboardStats({ nodes }: DashboardStatsProps) {
   );
 };
 
-function DashboardViewer({ dashboard, publicMode = false }: DashboardViewerProps) {
+function DashboardViewer({ dashboard, publicMode = false, subtitle, sidePanel, navExtras }: DashboardViewerProps) {
   const [isExporting, setIsExporting] = useState(false);
   const [viewport, setViewport] = useState<Viewport | null>(null);
   const [resetViewportKey, setResetViewportKey] = useState(0);
+  const rootRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
   const deviceInfo = useDeviceDetection();
   const getReactFlowConfig = useReactFlowConfig(deviceInfo);
   const previousDeviceType = useRef<DeviceType | null>(null);
-  
+  const { fitView, setCenter, getZoom } = useReactFlow();
+  // Tidy re-arranges the layout for this view only; nothing is saved
+  const [tidy, setTidy] = useState(false);
+
+  const lanes = dashboard.settings?.lanes ?? NO_LANES;
+  const shownDashboard = useMemo(() => {
+    if (!tidy) return dashboard;
+    const positions = computeLaneLayout(dashboard.nodes || [], dashboard.edges || [], lanes);
+    return { ...dashboard, nodes: (dashboard.nodes || []).map(n => ({ ...n, position: positions.get(n.id) ?? n.position })) };
+  }, [dashboard, lanes, tidy]);
+
+  // Presentation steps play on the saved layout with every lane open
+  const steps = dashboard.settings?.presentation ?? NO_STEPS;
+  const [presenting, setPresenting] = useState(false);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [exportSteps, setExportSteps] = useState<PresentationStep[] | null>(null);
+
+  // Collapsing a lane hides its nodes for this view only
+  const [collapsedLanes, setCollapsedLanes] = useState<ReadonlySet<string>>(() => new Set());
+  const shownCollapsedLanes = presenting ? NO_COLLAPSED_LANES : collapsedLanes;
+  const bands = useMemo(() => laneBands(lanes, shownCollapsedLanes), [lanes, shownCollapsedLanes]);
+  const laneStats = useMemo(
+    () => computeLaneStats(shownDashboard.nodes || [], shownDashboard.edges || [], lanes),
+    [shownDashboard.nodes, shownDashboard.edges, lanes]
+  );
+  const toggleLane = useCallback((key: string) => {
+    setCollapsedLanes(current => {
+      const next = new Set(current);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  }, []);
+
+  const [initialView] = useState(getUrlViewState);
+
+  // Clicking a node opens its details and shows what slips with it (or, in
+  // focus mode, what it is connected to); the nav toggles whole-graph views
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>(initialView.focus ? 'focus' : 'none');
+  const [focusNodeId, setFocusNodeId] = useState<string | null>(initialView.focus);
+  const analysis = useGraphAnalysis(shownDashboard.nodes || [], shownDashboard.edges || [], analysisMode, focusNodeId);
+
+  // Search and filters; nodes that do not match are dimmed, not hidden
+  const customFields = shownDashboard.settings?.customFields ?? NO_CUSTOM_FIELDS;
+  const periodModel = resolvePeriodModel(shownDashboard.settings);
+  const periods = useMemo(() => buildPeriods(periodModel), [periodModel]);
+  const [nodeFilter, setNodeFilter] = useState<NodeFilter>(initialView.filter);
+  const [showFilters, setShowFilters] = useState(() => isNodeFilterActive(initialView.filter));
+  const highlightTerms = useMemo(() => searchTerms(nodeFilter.search), [nodeFilter.search]);
+  const filteredOut = useMemo(() => {
+    if (!isNodeFilterActive(nodeFilter)) return new Set<string>();
+    return new Set((shownDashboard.nodes || []).filter(n => !matchesNodeFilter(n.data, nodeFilter)).map(n => n.id));
+  }, [shownDashboard.nodes, nodeFilter]);
+
+  // While presenting, the current step decides what stands out
+  const presentationClasses = useMemo(
+    () => (presenting && steps[stepIndex]
+      ? stepClasses(steps[stepIndex], shownDashboard.nodes || [], shownDashboard.edges || [])
+      : null),
+    [presenting, steps, stepIndex, shownDashboard.nodes, shownDashboard.edges]
+  );
+
   // Inject mode='view' into every node so StrategyNode suppresses NodeResizer
   const viewNodes = useMemo(
-    () => (dashboard.nodes || []).map(n => ({
-      ...n,
-      data: { ...n.data, mode: 'view' as const },
-    })),
-    [dashboard.nodes]
+    () => applyLaneCollapse(
+      withProgressRollups(
+        withMetricRollups(shownDashboard.nodes || [], shownDashboard.edges || []),
+        shownDashboard.edges || []
+      ),
+      lanes,
+      shownCollapsedLanes
+    ).map(n => {
+      const classes = presentationClasses ? [presentationClasses.nodeClasses.get(n.id)] : [
+        analysis.nodeClasses.get(n.id) ?? (analysis.active ? 'analysis-dimmed' : undefined),
+        filteredOut.has(n.id) ? 'filter-dimmed' : undefined,
+      ].filter(Boolean);
+      return {
+        ...n,
+        className: classes.length > 0 ? classes.join(' ') : undefined,
+        data: { ...n.data, mode: 'view' as const },
+      };
+    }),
+    [shownDashboard.nodes, shownDashboard.edges, lanes, shownCollapsedLanes, analysis, filteredOut, presentationClasses]
   );
 
+  const viewEdges = useMemo(
+    () => (shownDashboard.edges || []).map(e => {
+      const classes = presentationClasses ? [presentationClasses.edgeClasses.get(e.id)] : [
+        analysis.edgeClasses.get(e.id) ?? (analysis.active ? 'analysis-dimmed' : undefined),
+        filteredOut.has(e.source) || filteredOut.has(e.target) ? 'filter-dimmed' : undefined,
+      ].filter(Boolean);
+      return classes.length > 0 ? { ...e, className: classes.join(' ') } : e;
+    }),
+    [shownDashboard.edges, analysis, filteredOut, presentationClasses]
+  );
+
+  const [showRiskCoverage, setShowRiskCoverage] = useState(false);
+  const hasRisks = useMemo(() => (dashboard.nodes || []).some(n => n.data.category === 'risk'), [dashboard.nodes]);
+
+  const toggleAnalysis = useCallback((mode: AnalysisMode) => {
+    setFocusNodeId(null);
+    setAnalysisMode(current => (current === mode ? 'none' : mode));
+  }, []);
+
+  // The clicked node's details open in the drawer; related nodes can be visited from there
+  const detailNode = useMemo(() => viewNodes.find(n => n.id === focusNodeId) ?? null, [viewNodes, focusNodeId]);
+  const closeDetails = useCallback(() => setFocusNodeId(null), []);
+  const navigateToNode = useCallback((id: string) => {
+    const target = (shownDashboard.nodes || []).find(n => n.id === id);
+    if (!target) return;
+    // Open the target's lane if it is collapsed
+    const lane = laneOf(target, laneBands(lanes));
+    const collapsed = new Set(collapsedLanes);
+    if (lane && collapsed.delete(lane)) setCollapsedLanes(collapsed);
+    setFocusNodeId(id);
+    const [shown] = applyLaneCollapse([target], lanes, collapsed);
+    setCenter(shown.position.x, shown.position.y + 80, { zoom: getZoom(), duration: 300 });
+  }, [shownDashboard.nodes, lanes, collapsedLanes, setCenter, getZoom]);
+
+  // Nodes can be reached with Tab; Enter or Space opens their details
+  const onCanvasKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (presenting || (e.key !== 'Enter' && e.key !== ' ')) return;
+    const id = (e.target as HTMLElement).closest('.react-flow__node')?.getAttribute('data-id');
+    if (!id) return;
+    e.preventDefault();
+    setFocusNodeId(current => (current === id ? null : id));
+  }, [presenting]);
+
+  useEffect(() => {
+    storeUrlViewState(nodeFilter, analysisMode === 'focus' ? focusNodeId : null);
+  }, [nodeFilter, analysisMode, focusNodeId]);
+
   // Get configuration based on device type
-  const config = getReactFlowConfig();
+  const config = fitConfigToTimeline(getReactFlowConfig(), { width: timelineWidth(periods.length), height: lanesBottom(bands) });
   
   // Handle device type transitions - reset viewport when switching to desktop
   useEffect(() => {
@@ -191,27 +379,62 @@ function DashboardViewer({ dashboard, publicMode = false }: DashboardViewerProps
     }
   }, [deviceInfo.type]);
 
-  const handleExportPDF = useCallback(async () => {
+  // The roadmap, or with steps, the roadmap followed by one page per step
+  const exportPDF = useCallback(async (withSteps: boolean) => {
     if (isExporting) return;
     
     setIsExporting(true);
+    setExportSteps(withSteps ? steps : null);
     try {
       // Export from the hidden desktop container for consistent results
       await exportDashboardToPDF('#pdf-export-container', {
         title: dashboard.name,
-        filename: `${dashboard.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-roadmap.pdf`,
-        includeHeader: true
+        filename: `${dashboard.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-${withSteps ? 'presentation' : 'roadmap'}.pdf`,
+        includeHeader: true,
+        periodModel,
       });
     } finally {
       setIsExporting(false);
+      setExportSteps(null);
     }
-  }, [dashboard.name, isExporting]);
+  }, [dashboard.name, isExporting, periodModel, steps]);
+
+  const startPresentation = useCallback(() => {
+    setTidy(false);
+    setFocusNodeId(null);
+    setStepIndex(0);
+    setPresenting(true);
+    // Browsers may refuse full screen; the presentation then plays in the window
+    rootRef.current?.requestFullscreen?.().catch(() => {});
+  }, []);
+
+  const exitPresentation = useCallback(() => {
+    setPresenting(false);
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    // Back to the normal view and its zoom limits
+    setResetViewportKey(prev => prev + 1);
+  }, []);
+
+  // Leaving full screen (e.g. with the browser's own Escape) ends the presentation
+  useEffect(() => {
+    if (!presenting) return;
+    const onFullscreenChange = () => {
+      if (!document.fullscreenElement) exitPresentation();
+    };
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', onFullscreenChange);
+  }, [presenting, exitPresentation]);
+
+  const toggleTidy = useCallback(() => {
+    setTidy(current => !current);
+    if (!publicMode) requestAnimationFrame(() => fitView({ ...config.fitViewOptions, duration: 300 }));
+  }, [config.fitViewOptions, fitView, publicMode]);
 
   // Determine if controls should be shown based on device type
   const showZoomControls = deviceInfo.type !== 'desktop';
 
   return (
-    <div className={`dashboard-viewer ${publicMode ? 'public-mode' : ''}`}>
+    <div ref={rootRef} className={`dashboard-viewer ${publicMode ? 'public-mode' : ''} ${presenting ? 'presenting' : ''}`}>
       <nav className="viewer-nav">
         <div className="nav-brand">
           <a href="/">
@@ -227,18 +450,106 @@ function DashboardViewer({ dashboard, publicMode = false }: DashboardViewerProps
               <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/>
             </svg>
             {publicMode ? 'Strategy Roadmap Sample' : dashboard.name}
+            {subtitle && <span className="nav-subtitle">{subtitle}</span>}
           </div>
         </div>
         
         <div className="nav-actions">
-          <DashboardStats nodes={viewNodes} />
+          {navExtras}
+          <DashboardStats
+            nodes={viewNodes}
+            edges={viewEdges}
+            periods={periods}
+            periodModel={periodModel}
+            laneStats={laneStats}
+            collapsedLanes={collapsedLanes}
+          />
           <span className="nav-divider" />
-          <button className="nav-btn" onClick={handleExportPDF} disabled={isExporting} title="Export PDF">
+          <button
+            className={`nav-btn ${analysisMode === 'critical' ? 'active' : ''}`}
+            onClick={() => toggleAnalysis('critical')}
+            aria-pressed={analysisMode === 'critical'}
+            title="Critical path"
+          >
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="5" cy="6" r="2"/><circle cx="12" cy="18" r="2"/><circle cx="19" cy="6" r="2"/>
+              <path d="M6.2 7.6l4.6 8.8M13.2 16.4l4.6-8.8"/>
+            </svg>
+          </button>
+          <button
+            className={`nav-btn ${analysisMode === 'blocked' ? 'active' : ''}`}
+            onClick={() => toggleAnalysis('blocked')}
+            aria-pressed={analysisMode === 'blocked'}
+            title="Blocked impact"
+          >
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="9"/><path d="M5.6 5.6l12.8 12.8"/>
+            </svg>
+          </button>
+          <button
+            className={`nav-btn ${analysisMode === 'focus' ? 'active' : ''}`}
+            onClick={() => toggleAnalysis('focus')}
+            aria-pressed={analysisMode === 'focus'}
+            title="Focus mode"
+          >
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="3"/><path d="M3 8V5a2 2 0 012-2h3M16 3h3a2 2 0 012 2v3M21 16v3a2 2 0 01-2 2h-3M8 21H5a2 2 0 01-2-2v-3"/>
+            </svg>
+          </button>
+          <button
+            className={`nav-btn ${showFilters || isNodeFilterActive(nodeFilter) ? 'active' : ''}`}
+            onClick={() => setShowFilters(current => !current)}
+            aria-pressed={showFilters}
+            aria-expanded={showFilters}
+            title="Search and filter"
+          >
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M22 3H2l8 9.46V19l4 2v-8.54L22 3z"/>
+            </svg>
+          </button>
+          {hasRisks && (
+            <button
+              className={`nav-btn ${showRiskCoverage ? 'active' : ''}`}
+              onClick={() => setShowRiskCoverage(current => !current)}
+              aria-pressed={showRiskCoverage}
+              title="Risk coverage"
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="3" y="3" width="18" height="18" rx="2"/><path d="M3 9h18M3 15h18M9 3v18M15 3v18"/>
+              </svg>
+            </button>
+          )}
+          <button
+            className={`nav-btn ${tidy ? 'active' : ''}`}
+            onClick={toggleTidy}
+            aria-pressed={tidy}
+            title={tidy ? 'Show saved layout' : 'Tidy layout'}
+          >
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <rect x="3" y="3" width="7" height="5" rx="1"/><rect x="14" y="3" width="7" height="5" rx="1"/>
+              <rect x="3" y="16" width="7" height="5" rx="1"/><rect x="14" y="16" width="7" height="5" rx="1"/>
+              <path d="M6.5 8v8M17.5 8v8"/>
+            </svg>
+          </button>
+          {steps.length > 0 && (
+            <button className="nav-btn" onClick={startPresentation} title={`Present (${steps.length} step${steps.length === 1 ? '' : 's'})`}>
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="2" y="3" width="20" height="14" rx="2"/><path d="M8 21h8M12 17v4M10 7l5 3-5 3z"/>
+              </svg>
+            </button>
+          )}
+          <button className="nav-btn" onClick={() => exportPDF(false)} disabled={isExporting} title="Export PDF">
             <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8z"/>
               <polyline points="14 2 14 8 20 8"/><line x1="12" y1="18" x2="12" y2="12"/><line x1="9" y1="15" x2="15" y2="15"/>
             </svg>
           </button>
+          <button className="nav-btn" onClick={() => downloadDashboardFile(dashboard)} title="Export JSON">
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4"/>
+              <polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/>
+            </svg>
+          </button>
           {!publicMode && (
             <a href="/dashboards" className="nav-btn" title="Exit to Dashboards">
               <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -249,76 +560,147 @@ function DashboardViewer({ dashboard, publicMode = false }: DashboardViewerProps
         </div>
       </nav>
 
+      {showFilters && (
+        <ViewerFilterBar
+          nodes={shownDashboard.nodes || []}
+          customFields={customFields}
+          periods={periods}
+          filter={nodeFilter}
+          onChange={setNodeFilter}
+        />
+      )}
+
       <div className="viewer-canvas" ref={canvasRef}>
         <div 
           key={resetViewportKey} 
           className={`react-flow-wrapper device-${deviceInfo.type}`}
+          onKeyDown={onCanvasKeyDown}
         >
-          <ReactFlow
-            key={`${deviceInfo.type}-${resetViewportKey}`}
-            nodes={viewNodes}
-            edges={dashboard.edges || []}
-            nodeTypes={nodeTypes}
-            nodeOrigin={[0.5, 0]}
-            defaultViewport={config.defaultViewport}
-            onViewportChange={onViewportChange}
-            fitView={!publicMode}
-            fitViewOptions={config.fitViewOptions}
-            nodesDraggable={false}
-            nodesConnectable={false}
-            nodesFocusable={false}
-            edgesFocusable={false}
-            elementsSelectable={false}
-            panOnDrag={config.panOnDrag}
-            translateExtent={config.translateExtent as [[number, number], [number, number]]}
-            zoomOnScroll={config.zoomOnScroll}
-            zoomOnPinch={config.zoomOnPinch}
-            zoomOnDoubleClick={config.zoomOnDoubleClick}
-            minZoom={config.minZoom}
-            maxZoom={config.maxZoom}
-            edgeTypes={edgeTypes}
-          >
-            <StrategicBackground />
-            <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="color-mix(in srgb, var(--hf-text) 3%, transparent)" />
-            {showZoomControls && (
-              <MiniMap
-                nodeStrokeColor={(node) => {
-                  const data = node.data as StrategyNodeData;
-                  if (!data) return '#fff';
-                  switch (data.status) {
-                    case 'done': return '#00D26A';
-                    case 'active': return '#3b82f6';
-                    case 'blocked': return '#ef4444';
-                    default: return '#8b5cf6';
-                  }
-                }}
-                nodeColor={(node) => {
-                  const data = node.data as StrategyNodeData;
-                  if (!data) return 'var(--hf-bg-elevated, #1a1a1a)';
-                  switch (data.status) {
-                    case 'done': return 'rgba(0, 210, 106, 0.3)';
-                    case 'active': return 'rgba(59, 130, 246, 0.3)';
-                    case 'blocked': return 'rgba(239, 68, 68, 0.3)';
-                    default: return 'rgba(139, 92, 246, 0.3)';
-                  }
-                }}
-                maskColor="rgba(0, 0, 0, 0.5)"
-                style={{
-                  background: 'var(--hf-bg-secondary, #111111)',
-                  border: '1px solid color-mix(in srgb, var(--hf-text) 10%, transparent)',
-                  borderRadius: '8px',
+          <CustomFieldsContext.Provider value={customFields}>
+            <SearchTermsContext.Provider value={highlightTerms}>
+              <ReactFlow
+                key={`${deviceInfo.type}-${resetViewportKey}`}
+                nodes={viewNodes}
+                edges={viewEdges}
+                nodeTypes={nodeTypes}
+                nodeOrigin={[0.5, 0]}
+                defaultViewport={config.defaultViewport}
+                onViewportChange={onViewportChange}
+                onNodeClick={(_, node) => {
+                  if (!presenting) setFocusNodeId(current => (current === node.id ? null : node.id));
                 }}
-              />
-            )}
-          </ReactFlow>
+                onPaneClick={() => setFocusNodeId(null)}
+                fitView={!publicMode}
+                fitViewOptions={config.fitViewOptions}
+                nodesDraggable={false}
+                nodesConnectable={false}
+                nodesFocusable
+                edgesFocusable={false}
+                elementsSelectable={false}
+                panOnDrag={presenting ? false : config.panOnDrag}
+                translateExtent={presenting ? UNBOUNDED_EXTENT : config.translateExtent as [[number, number], [number, number]]}
+                zoomOnScroll={presenting ? false : config.zoomOnScroll}
+                zoomOnPinch={presenting ? false : config.zoomOnPinch}
+                zoomOnDoubleClick={presenting ? false : config.zoomOnDoubleClick}
+                minZoom={presenting ? PRESENTATION_MIN_ZOOM : config.minZoom}
+                maxZoom={presenting ? PRESENTATION_MAX_ZOOM : config.maxZoom}
+                edgeTypes={edgeTypes}
+              >
+                <StrategicBackground
+                  periods={periods}
+                  lanes={bands}
+                  laneStats={laneStats}
+                  onToggleLane={presenting ? undefined : toggleLane}
+                />
+                <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="color-mix(in srgb, var(--hf-text) 3%, transparent)" />
+                {showZoomControls && (
+                  <MiniMap
+                    nodeStrokeColor={(node) => {
+                      const data = node.data as StrategyNodeData;
+                      if (!data) return '#fff';
+                      switch (data.status) {
+                        case 'done': return '#00D26A';
+                        case 'active': return '#3b82f6';
+                        case 'blocked': return '#ef4444';
+                        default: return '#8b5cf6';
+                      }
+                    }}
+                    nodeColor={(node) => {
+                      const data = node.data as StrategyNodeData;
+                      if (!data) return 'var(--hf-bg-elevated, #1a1a1a)';
+                      switch (data.status) {
+                        case 'done': return 'rgba(0, 210, 106, 0.3)';
+                        case 'active': return 'rgba(59, 130, 246, 0.3)';
+                        case 'blocked': return 'rgba(239, 68, 68, 0.3)';
+                        default: return 'rgba(139, 92, 246, 0.3)';
+                      }
+                    }}
+                    maskColor="rgba(0, 0, 0, 0.5)"
+                    style={{
+                      background: 'var(--hf-bg-secondary, #111111)',
+                      border: '1px solid color-mix(in srgb, var(--hf-text) 10%, transparent)',
+                      borderRadius: '8px',
+                    }}
+                  />
+                )}
+              </ReactFlow>
+            </SearchTermsContext.Provider>
+          </CustomFieldsContext.Provider>
         </div>
+        {analysis.summary && (
+          <div className="analysis-legend">
+            <span>{analysis.summary}</span>
+            <button
+              onClick={() => { setFocusNodeId(null); setAnalysisMode('none'); }}
+              title="Clear analysis"
+              aria-label="Clear analysis"
+            >
+              <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M18 6L6 18M6 6l12 12"/>
+              </svg>
+            </button>
+          </div>
+        )}
+        {showRiskCoverage && (
+          <div className="risk-coverage-panel">
+            <RiskCoverageMatrix
+              nodes={shownDashboard.nodes || []}
+              edges={shownDashboard.edges || []}
+              onClose={() => setShowRiskCoverage(false)}
+            />
+          </div>
+        )}
+        {presenting && (
+          <PresentationPlayer
+            steps={steps}
+            index={stepIndex}
+            onIndexChange={setStepIndex}
+            onExit={exitPresentation}
+            onExportPDF={() => exportPDF(true)}
+            isExporting={isExporting}
+          />
+        )}
+        {sidePanel}
+        {detailNode && !presenting && (
+          <NodeDetailDrawer
+            node={detailNode}
+            nodes={shownDashboard.nodes || []}
+            edges={shownDashboard.edges || []}
+            periods={periods}
+            lanes={lanes}
+            customFields={customFields}
+            onNavigate={navigateToNode}
+            onClose={closeDetails}
+          />
+        )}
       </div>
 
       {/* Hidden PDF export container - renders desktop version for consistent export */}
       <PDFExportContainer 
-        dashboard={dashboard} 
+        dashboard={shownDashboard} 
         isExporting={isExporting} 
         onExportComplete={() => setIsExporting(false)} 
+        presentationSteps={exportSteps ?? undefined}
       />
     </div>
   );
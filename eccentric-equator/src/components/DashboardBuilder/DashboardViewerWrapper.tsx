@@ -1,20 +1,89 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { AuthWrapper } from '../Auth';
 import { useAuth } from '../Auth/AuthContext';
+import { supabase } from '../../lib/supabase';
 import DashboardViewer from './DashboardViewer';
-import type { SavedDashboard } from './dashboardStorage';
+import VersionDiffViewer from './VersionDiffViewer';
+import LivePresence from './LivePresence';
+import type { SavedDashboard, DashboardVersion } from './dashboardStorage';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createSupabaseRealtime } from './dashboardRealtime';
+import type { DashboardRealtime } from './dashboardRealtime';
+import { useDashboardRealtime } from './useDashboardRealtime';
 import './viewer-styles.css';
 
+const dashboardRepository = createSupabaseRepository(supabase);
+const defaultRealtime = createSupabaseRealtime(supabase);
+
+// Current dashboard content as a version, for comparing against "now"
+function toCurrentVersion(dashboard: SavedDashboard): DashboardVersion {
+  return {
+    dashboardId: dashboard.id,
+    version: dashboard.version,
+    nodes: dashboard.nodes,
+    edges: dashboard.edges,
+    settings: dashboard.settings,
+    savedAt: dashboard.updatedAt,
+  };
+}
+
+// Parse ?from=3&to=5 (to defaults to the current version)
+function getComparedVersions(): { from: number; to: number | null } | null {
+  const params = new URLSearchParams(window.location.search);
+  const from = Number(params.get('from'));
+  if (!params.has('from') || !Number.isInteger(from)) return null;
+  const to = Number(params.get('to'));
+  return { from, to: params.has('to') && Number.isInteger(to) ? to : null };
+}
+
+interface ViewerErrorProps {
+  title: string;
+  message: string;
+  href: string;
+  linkLabel: string;
+}
+
+function ViewerError({ title, message, href, linkLabel }: ViewerErrorProps) {
+  return (
+    <div className="viewer-error">
+      <div className="error-icon">
+        <svg width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <circle cx="12" cy="12" r="10"/>
+          <line x1="12" y1="8" x2="12" y2="12"/>
+          <line x1="12" y1="16" x2="12.01" y2="16"/>
+        </svg>
+      </div>
+      <h1 className="error-title">{title}</h1>
+      <p className="error-message">{message}</p>
+      <a href={href} className="error-link">
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M19 12H5M12 19l-7-7 7-7"/>
+        </svg>
+        {linkLabel}
+      </a>
+    </div>
+  );
+}
+
 interface DashboardViewerWrapperProps {
   dashboardId?: string;
+  // Live update source; defaults to Supabase Realtime (pass createInMemoryRealtime() to test locally)
+  realtime?: DashboardRealtime;
 }
 
-function DashboardViewerContent({ dashboardId: propId }: DashboardViewerWrapperProps) {
+function DashboardViewerContent({ dashboardId: propId, realtime = defaultRealtime }: DashboardViewerWrapperProps) {
   const [dashboardId, setDashboardId] = useState<string | null>(propId || null);
-  const [dashboard, setDashboard] = useState<SavedDashboard | null>(null);
+  const [loadedDashboard, setLoadedDashboard] = useState<SavedDashboard | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
-  const { isAuthorized, getDashboardById } = useAuth();
+  const [comparison, setComparison] = useState<{ from: DashboardVersion; to: DashboardVersion } | null>(null);
+  const [comparisonError, setComparisonError] = useState<string | null>(null);
+  const { session, isAuthorized, getDashboardById } = useAuth();
+  const { dashboard, lastUpdate, viewers } = useDashboardRealtime(
+    loadedDashboard,
+    realtime,
+    session?.user.email ?? 'Guest'
+  );
 
   useEffect(() => {
     if (!propId) {
@@ -34,14 +103,53 @@ function DashboardViewerContent({ dashboardId: propId }: DashboardViewerWrapperP
 
     const loaded = getDashboardById(dashboardId);
 
-    if (loaded && isAuthorized(dashboardId)) {
-      setDashboard(loaded);
+    // Trashed dashboards are only reachable from the trash view until restored
+    if (loaded && loaded.status !== 'trashed' && isAuthorized(dashboardId)) {
+      setLoadedDashboard(loaded);
     } else {
       setError(true);
     }
     setLoading(false);
   }, [dashboardId, isAuthorized, getDashboardById]);
 
+  // Live updates replace `dashboard` often; the comparison only reloads when
+  // the dashboard or the requested versions change
+  const latestRef = useRef(dashboard);
+  latestRef.current = dashboard;
+  const [requested] = useState(getComparedVersions);
+  const comparedId = dashboard?.id ?? null;
+
+  useEffect(() => {
+    const current = latestRef.current;
+    if (!comparedId || !current || !requested) return;
+
+    let cancelled = false;
+    const loadVersion = (version: number | null) =>
+      version === null || version === current.version
+        ? Promise.resolve(toCurrentVersion(current))
+        : dashboardRepository.getVersion(comparedId, version);
+
+    Promise.all([loadVersion(requested.from), loadVersion(requested.to)])
+      .then(([from, to]) => {
+        if (cancelled) return;
+        if (from && to) {
+          setComparison({ from, to });
+        } else {
+          const missing = [from ? null : requested.from, to ? null : requested.to ?? current.version]
+            .filter(version => version !== null);
+          setComparisonError(`Version ${missing.map(version => `v${version}`).join(' and ')} of this dashboard could not be found.`);
+        }
+      })
+      .catch(err => {
+        console.error('Error loading dashboard versions:', err);
+        if (!cancelled) setComparisonError('The versions to compare could not be loaded. Please try again.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [comparedId, requested]);
+
   if (loading) {
     return (
       <div className="viewer-loading">
@@ -51,30 +159,38 @@ function DashboardViewerContent({ dashboardId: propId }: DashboardViewerWrapperP
     );
   }
 
-  if (error || !dashboard) {
+  // A live update can trash the dashboard while it is open: same as reloading it then
+  if (error || !dashboard || dashboard.status === 'trashed') {
     return (
-      <div className="viewer-error">
-        <div className="error-icon">
-          <svg width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <circle cx="12" cy="12" r="10"/>
-            <line x1="12" y1="8" x2="12" y2="12"/>
-            <line x1="12" y1="16" x2="12.01" y2="16"/>
-          </svg>
-        </div>
-        <h1 className="error-title">Access Denied / Not Found</h1>
-        <p className="error-message">You do not have permission to view this dashboard, or it does not exist.</p>
-        <a href="/dashboards" className="error-link">
-          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <path d="M19 12H5M12 19l-7-7 7-7"/>
-          </svg>
-          Back to All Dashboards
-        </a>
-      </div>
+      <ViewerError
+        title="Access Denied / Not Found"
+        message="You do not have permission to view this dashboard, or it does not exist."
+        href="/dashboards"
+        linkLabel="Back to All Dashboards"
+      />
     );
   }
 
+  if (comparisonError) {
+    return (
+      <ViewerError
+        title="Comparison Unavailable"
+        message={comparisonError}
+        href={`?id=${dashboard.id}`}
+        linkLabel="Back to Dashboard"
+      />
+    );
+  }
+
+  if (comparison) {
+    return <VersionDiffViewer dashboard={dashboard} from={comparison.from} to={comparison.to} />;
+  }
+
   return (
-    <DashboardViewer dashboard={dashboard} />
+    <DashboardViewer
+      dashboard={dashboard}
+      navExtras={<LivePresence viewers={viewers} lastUpdate={lastUpdate} />}
+    />
   );
 }
 
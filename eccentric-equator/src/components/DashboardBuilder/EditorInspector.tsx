@@ -0,0 +1,688 @@
+import React, { useEffect, useState } from 'react';
+import type { Edge, Node } from '@xyflow/react';
+import type {
+  StrategyNodeData,
+  NodeCategory,
+  Quarter,
+  Status,
+  Priority,
+  EdgeType,
+  MetricSeries,
+  MetricDirection,
+  NodeLink,
+  CustomFieldDefinition,
+  CustomFieldType,
+  PeriodModel,
+  PeriodUnit,
+  SwimlaneDefinition,
+} from './types';
+import type { QuarterMismatch, QuarterFix } from './quarters';
+import type { Period } from './periods';
+import { fieldKeyFromLabel } from './nodeDetails';
+import { DEFAULT_LANE_HEIGHT, MIN_LANE_HEIGHT, laneHeightFor } from './lanes';
+import {
+  DEFAULT_PERIOD_MODEL,
+  MAX_PERIODS,
+  MONTH_NAMES,
+  PERIOD_UNIT_CONFIG,
+  buildPeriods,
+  isDefaultPeriodModel,
+  periodLabel,
+  periodName,
+  timelineTitle,
+} from './periods';
+import {
+  CATEGORY_CONFIG,
+  STATUS_CONFIG,
+  PRIORITY_CONFIG,
+  EDGE_TYPE_CONFIG,
+  CATEGORY_EDGE_DEFAULTS,
+} from './types';
+
+const EMPTY_METRIC: MetricSeries = { direction: 'higher', measurements: [] };
+
+// Blank number inputs clear optional values
+function optionalNumber(input: string): number | undefined {
+  return input === '' || isNaN(Number(input)) ? undefined : Number(input);
+}
+
+const RemoveIcon = () => (
+  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M18 6L6 18M6 6l12 12"/>
+  </svg>
+);
+
+interface MetricFieldsProps {
+  data: StrategyNodeData;
+  onChange: (patch: Partial<StrategyNodeData>) => void;
+}
+
+function MetricFields({ data, onChange }: MetricFieldsProps) {
+  const metric = data.metric ?? EMPTY_METRIC;
+  const update = (patch: Partial<MetricSeries>) => onChange({ metric: { ...metric, ...patch } });
+  const updateMeasurement = (index: number, patch: Partial<MetricSeries['measurements'][number]>) =>
+    update({ measurements: metric.measurements.map((m, i) => (i === index ? { ...m, ...patch } : m)) });
+  const addMeasurement = () => {
+    const last = metric.measurements[metric.measurements.length - 1];
+    update({
+      measurements: [
+        ...metric.measurements,
+        { date: new Date().toISOString().slice(0, 10), value: last?.value ?? metric.baseline ?? 0 },
+      ],
+    });
+  };
+
+  return (
+    <>
+      <div className="inspector-row">
+        <label className="inspector-field">
+          <span>Unit</span>
+          <input
+            value={metric.unit ?? ''}
+            onChange={(e) => update({ unit: e.target.value || undefined })}
+            placeholder="e.g. %, h"
+          />
+        </label>
+        <label className="inspector-field">
+          <span>Better when</span>
+          <select
+            value={metric.direction}
+            onChange={(e) => update({ direction: e.target.value as MetricDirection })}
+          >
+            <option value="higher">Higher</option>
+            <option value="lower">Lower</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="inspector-row">
+        <label className="inspector-field">
+          <span>Baseline</span>
+          <input
+            type="number"
+            value={metric.baseline ?? ''}
+            onChange={(e) => update({ baseline: optionalNumber(e.target.value) })}
+          />
+        </label>
+        <label className="inspector-field">
+          <span>Target</span>
+          <input
+            type="number"
+            value={metric.target ?? ''}
+            onChange={(e) => update({ target: optionalNumber(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div className="inspector-field">
+        <span>Measurements</span>
+        {metric.measurements.map((m, i) => (
+          <div key={i} className="inspector-measurement">
+            <input
+              type="date"
+              value={m.date}
+              onChange={(e) => e.target.value && updateMeasurement(i, { date: e.target.value })}
+            />
+            <input
+              type="number"
+              value={m.value}
+              onChange={(e) => updateMeasurement(i, { value: optionalNumber(e.target.value) ?? 0 })}
+            />
+            <button
+              onClick={() => update({ measurements: metric.measurements.filter((_, j) => j !== i) })}
+              title="Remove measurement"
+              aria-label="Remove measurement"
+            >
+              <RemoveIcon />
+            </button>
+          </div>
+        ))}
+        <button className="inspector-add" onClick={addMeasurement}>Add measurement</button>
+      </div>
+
+      {metric.measurements.length === 0 && (
+        <label className="inspector-field">
+          <span>Value</span>
+          <input
+            value={data.value ?? ''}
+            onChange={(e) => onChange({ value: e.target.value || undefined })}
+            placeholder="e.g. 95%"
+          />
+        </label>
+      )}
+    </>
+  );
+}
+
+interface TagFieldProps {
+  tags: string[];
+  onChange: (tags: string[] | undefined) => void;
+}
+
+// Enter or comma adds the typed tag; Backspace on an empty input removes the last one
+function TagField({ tags, onChange }: TagFieldProps) {
+  const [text, setText] = React.useState('');
+  const commit = () => {
+    const tag = text.trim().replace(/,$/, '');
+    setText('');
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+  };
+  const remove = (tag: string) => {
+    const next = tags.filter(t => t !== tag);
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="inspector-field">
+      <span>Tags</span>
+      <div className="inspector-tags">
+        {tags.map(tag => (
+          <button key={tag} className="inspector-tag" onClick={() => remove(tag)} title={`Remove ${tag}`}>
+            {tag}
+            <RemoveIcon />
+          </button>
+        ))}
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              commit();
+            } else if (e.key === 'Backspace' && !text && tags.length > 0) {
+              remove(tags[tags.length - 1]);
+            }
+          }}
+          onBlur={commit}
+          placeholder={tags.length === 0 ? 'e.g. identity, soc2' : ''}
+          aria-label="Add tag"
+        />
+      </div>
+    </div>
+  );
+}
+
+interface LinkFieldsProps {
+  links: NodeLink[];
+  onChange: (links: NodeLink[] | undefined) => void;
+}
+
+function LinkFields({ links, onChange }: LinkFieldsProps) {
+  const update = (index: number, patch: Partial<NodeLink>) =>
+    onChange(links.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+  const remove = (index: number) => {
+    const next = links.filter((_, i) => i !== index);
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="inspector-field">
+      <span>Links</span>
+      {links.map((link, i) => (
+        <div key={i} className="inspector-link">
+          <input
+            value={link.label ?? ''}
+            onChange={(e) => update(i, { label: e.target.value || undefined })}
+            placeholder="Label"
+          />
+          <input
+            type="url"
+            value={link.url}
+            onChange={(e) => update(i, { url: e.target.value })}
+            placeholder="https://"
+          />
+          <button onClick={() => remove(i)} title="Remove link" aria-label="Remove link">
+            <RemoveIcon />
+          </button>
+        </div>
+      ))}
+      <button className="inspector-add" onClick={() => onChange([...links, { url: '' }])}>Add link</button>
+    </div>
+  );
+}
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: string | number | undefined;
+  onChange: (value: string | number | undefined) => void;
+}
+
+function CustomFieldInput({ field, value, onChange }: CustomFieldInputProps) {
+  return (
+    <label className="inspector-field">
+      <span>{field.label}</span>
+      {field.type === 'select' ? (
+        <select value={value ?? ''} onChange={(e) => onChange(e.target.value || undefined)}>
+          <option value="">—</option>
+          {(field.options ?? []).map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      ) : field.type === 'number' ? (
+        <input type="number" value={value ?? ''} onChange={(e) => onChange(optionalNumber(e.target.value))} />
+      ) : (
+        <input value={value ?? ''} onChange={(e) => onChange(e.target.value || undefined)} />
+      )}
+    </label>
+  );
+}
+
+interface NodeInspectorProps {
+  node: Node<StrategyNodeData>;
+  onChange: (patch: Partial<StrategyNodeData>) => void;
+  onDelete: () => void;
+  // Set when the stored quarter disagrees with the column the node sits in
+  quarterMismatch?: QuarterMismatch;
+  onFixQuarter?: (fix: QuarterFix) => void;
+  // The dashboard's custom field definitions
+  customFields?: CustomFieldDefinition[];
+  // Columns of the dashboard's timeline
+  periods: Period[];
+  // The dashboard's swimlanes, if any
+  lanes?: SwimlaneDefinition[];
+}
+
+export function NodeInspector({
+  node,
+  onChange,
+  onDelete,
+  quarterMismatch,
+  onFixQuarter,
+  customFields = [],
+  periods,
+  lanes = [],
+}: NodeInspectorProps) {
+  const { data } = node;
+  const color = CATEGORY_CONFIG[data.category].color;
+  const setField = (key: string, value: string | number | undefined) => {
+    const { [key]: _previous, ...rest } = data.fields ?? {};
+    const fields = value === undefined ? rest : { ...rest, [key]: value };
+    onChange({ fields: Object.keys(fields).length > 0 ? fields : undefined });
+  };
+
+  return (
+    <div className="editor-inspector" style={{ '--node-color': color } as React.CSSProperties}>
+      <div className="inspector-header">
+        <span className="inspector-kind">{CATEGORY_CONFIG[data.category].label}</span>
+        <button className="inspector-delete" onClick={onDelete} title="Delete node">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2"/>
+          </svg>
+        </button>
+      </div>
+
+      <label className="inspector-field">
+        <span>Title</span>
+        <input
+          value={data.title}
+          onChange={(e) => onChange({ title: e.target.value })}
+          placeholder="Untitled"
+        />
+      </label>
+
+      <label className="inspector-field">
+        <span>Description</span>
+        <textarea
+          value={data.description}
+          onChange={(e) => onChange({ description: e.target.value })}
+          rows={3}
+        />
+      </label>
+
+      <div className="inspector-row">
+        <label className="inspector-field">
+          <span>Category</span>
+          <select value={data.category} onChange={(e) => onChange({ category: e.target.value as NodeCategory })}>
+            {(Object.keys(CATEGORY_CONFIG) as NodeCategory[]).map(c => (
+              <option key={c} value={c}>{CATEGORY_CONFIG[c].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="inspector-field">
+          <span>Period</span>
+          <select value={data.quarter} onChange={(e) => onChange({ quarter: e.target.value as Quarter })}>
+            {!periods.some(p => p.key === data.quarter) && (
+              <option value={data.quarter}>{data.quarter.toUpperCase()} (outside timeline)</option>
+            )}
+            {periods.map(p => (
+              <option key={p.key} value={p.key}>{periodName(p)}{p.months ? ` · ${p.months}` : ''}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {lanes.length > 0 && (
+        <label className="inspector-field">
+          <span>Lane</span>
+          <select value={data.lane ?? ''} onChange={(e) => onChange({ lane: e.target.value || undefined })}>
+            {!lanes.some(l => l.key === data.lane) && <option value="">Unassigned</option>}
+            {lanes.map(l => <option key={l.key} value={l.key}>{l.label}</option>)}
+          </select>
+        </label>
+      )}
+
+      {quarterMismatch && onFixQuarter && (
+        <div className="inspector-warning">
+          <p>
+            Planned for {periodLabel(quarterMismatch.stored, periods)} but placed in
+            the {periodLabel(quarterMismatch.column, periods)} column.
+          </p>
+          <div className="inspector-warning-actions">
+            <button onClick={() => onFixQuarter('move')}>
+              Move to {periodLabel(quarterMismatch.stored, periods)}
+            </button>
+            <button onClick={() => onFixQuarter('requarter')}>
+              Set to {periodLabel(quarterMismatch.column, periods)}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="inspector-row">
+        <label className="inspector-field">
+          <span>Status</span>
+          <select value={data.status} onChange={(e) => onChange({ status: e.target.value as Status })}>
+            {(Object.keys(STATUS_CONFIG) as Status[]).map(s => (
+              <option key={s} value={s}>{STATUS_CONFIG[s].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="inspector-field">
+          <span>Priority</span>
+          <select value={data.priority} onChange={(e) => onChange({ priority: e.target.value as Priority })}>
+            {(Object.keys(PRIORITY_CONFIG) as Priority[]).map(p => (
+              <option key={p} value={p}>{PRIORITY_CONFIG[p].label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="inspector-field">
+        <span>Owner</span>
+        <input
+          value={data.owner ?? ''}
+          onChange={(e) => onChange({ owner: e.target.value || undefined })}
+          placeholder="Team or person"
+        />
+      </label>
+
+      <div className="inspector-row">
+        <label className="inspector-field">
+          <span>Start</span>
+          <input
+            type="date"
+            value={data.startDate ?? ''}
+            onChange={(e) => onChange({ startDate: e.target.value || undefined })}
+          />
+        </label>
+        <label className="inspector-field">
+          <span>Due</span>
+          <input
+            type="date"
+            value={data.dueDate ?? ''}
+            onChange={(e) => onChange({ dueDate: e.target.value || undefined })}
+          />
+        </label>
+      </div>
+
+      <TagField key={node.id} tags={data.tags ?? []} onChange={(tags) => onChange({ tags })} />
+
+      <LinkFields links={data.links ?? []} onChange={(links) => onChange({ links })} />
+
+      {customFields.map(field => (
+        <CustomFieldInput
+          key={field.key}
+          field={field}
+          value={data.fields?.[field.key]}
+          onChange={(value) => setField(field.key, value)}
+        />
+      ))}
+
+      {data.category === 'metric' && (
+        <MetricFields data={data} onChange={onChange} />
+      )}
+    </div>
+  );
+}
+
+interface CustomFieldsEditorProps {
+  fields: CustomFieldDefinition[];
+  onChange: (fields: CustomFieldDefinition[]) => void;
+}
+
+const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Choice',
+};
+
+// Dashboard-wide field definitions; keys stay fixed when a field is renamed
+export function CustomFieldsEditor({ fields, onChange }: CustomFieldsEditorProps) {
+  const update = (index: number, patch: Partial<CustomFieldDefinition>) =>
+    onChange(fields.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  const add = () => {
+    const label = `Field ${fields.length + 1}`;
+    onChange([...fields, { key: fieldKeyFromLabel(label, fields), label, type: 'text' }]);
+  };
+
+  return (
+    <div className="custom-fields-editor">
+      <h3>Custom fields</h3>
+      {fields.length === 0 && <p className="inspector-hint">Add fields to track extra details on every node.</p>}
+      {fields.map((field, i) => (
+        <div key={field.key} className="custom-field-row">
+          <div className="inspector-link">
+            <input
+              value={field.label}
+              onChange={(e) => update(i, { label: e.target.value })}
+              aria-label="Field name"
+            />
+            <select
+              value={field.type}
+              onChange={(e) => update(i, { type: e.target.value as CustomFieldType })}
+              aria-label="Field type"
+            >
+              {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(t => (
+                <option key={t} value={t}>{CUSTOM_FIELD_TYPE_LABELS[t]}</option>
+              ))}
+            </select>
+            <button onClick={() => onChange(fields.filter((_, j) => j !== i))} title="Remove field" aria-label="Remove field">
+              <RemoveIcon />
+            </button>
+          </div>
+          {field.type === 'select' && (
+            <input
+              className="custom-field-options"
+              defaultValue={(field.options ?? []).join(', ')}
+              onBlur={(e) => update(i, {
+                options: e.target.value.split(',').map(o => o.trim()).filter(Boolean),
+              })}
+              placeholder="Choices, comma separated"
+              aria-label="Field choices"
+            />
+          )}
+        </div>
+      ))}
+      <button className="inspector-add" onClick={add}>Add field</button>
+    </div>
+  );
+}
+
+interface TimelineEditorProps {
+  model: PeriodModel;
+  // Called once per applied change, since reshaping the timeline moves nodes
+  onApply: (model: PeriodModel) => void;
+}
+
+function isValidPeriodModel(model: PeriodModel): boolean {
+  return Number.isInteger(model.count) && model.count >= 1 && model.count <= MAX_PERIODS &&
+    (model.startYear === undefined || (Number.isInteger(model.startYear) && model.startYear >= 1900 && model.startYear <= 9999));
+}
+
+export function TimelineEditor({ model, onApply }: TimelineEditorProps) {
+  const [draft, setDraft] = useState(model);
+  useEffect(() => setDraft(model), [model]);
+
+  const valid = isValidPeriodModel(draft);
+  const changed = JSON.stringify(draft) !== JSON.stringify(model);
+
+  return (
+    <div className="timeline-editor">
+      <h3>Timeline</h3>
+      <div className="inspector-row">
+        <label className="inspector-field">
+          <span>Columns</span>
+          <select value={draft.unit} onChange={(e) => setDraft({ ...draft, unit: e.target.value as PeriodUnit })}>
+            {(Object.keys(PERIOD_UNIT_CONFIG) as PeriodUnit[]).map(u => (
+              <option key={u} value={u}>{PERIOD_UNIT_CONFIG[u].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="inspector-field">
+          <span>Count</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_PERIODS}
+            value={draft.count}
+            onChange={(e) => setDraft({ ...draft, count: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+      <div className="inspector-row">
+        <label className="inspector-field">
+          <span>Year starts</span>
+          <select value={draft.startMonth} onChange={(e) => setDraft({ ...draft, startMonth: Number(e.target.value) })}>
+            {MONTH_NAMES.map((month, i) => <option key={month} value={i + 1}>{month}</option>)}
+          </select>
+        </label>
+        <label className="inspector-field">
+          <span>First year</span>
+          <input
+            type="number"
+            value={draft.startYear ?? ''}
+            onChange={(e) => setDraft({ ...draft, startYear: optionalNumber(e.target.value) })}
+            placeholder="Any"
+          />
+        </label>
+      </div>
+      <p className="inspector-hint">
+        {valid ? timelineTitle(buildPeriods(draft)) : `Use 1 to ${MAX_PERIODS} columns and a four-digit year.`}
+      </p>
+      <div className="timeline-editor-actions">
+        {!isDefaultPeriodModel(model) && (
+          <button className="inspector-add" onClick={() => onApply(DEFAULT_PERIOD_MODEL)}>Calendar quarters</button>
+        )}
+        <button className="inspector-add" onClick={() => onApply(draft)} disabled={!valid || !changed}>
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Lane heights offered in the editor, in flow units
+const LANE_HEIGHTS = [MIN_LANE_HEIGHT, 240, 320, DEFAULT_LANE_HEIGHT, 480, 640, 800, 960, 1200, 1600];
+
+interface SwimlanesEditorProps {
+  lanes: SwimlaneDefinition[];
+  // Sizes the first lane so it takes in the existing nodes
+  nodes: Node<StrategyNodeData>[];
+  onChange: (lanes: SwimlaneDefinition[]) => void;
+}
+
+export function SwimlanesEditor({ lanes, nodes, onChange }: SwimlanesEditorProps) {
+  const update = (index: number, patch: Partial<SwimlaneDefinition>) =>
+    onChange(lanes.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+  const move = (index: number, by: number) => {
+    const next = [...lanes];
+    const [lane] = next.splice(index, 1);
+    next.splice(index + by, 0, lane);
+    onChange(next);
+  };
+  const add = () => {
+    const label = `Lane ${lanes.length + 1}`;
+    const height = lanes.length === 0 ? laneHeightFor(nodes) : DEFAULT_LANE_HEIGHT;
+    onChange([...lanes, { key: fieldKeyFromLabel(label, lanes, 'lane'), label, height }]);
+  };
+
+  return (
+    <div className="swimlanes-editor">
+      <h3>Swimlanes</h3>
+      {lanes.length === 0 && <p className="inspector-hint">Split the canvas into horizontal lanes by team or domain.</p>}
+      {lanes.map((lane, i) => (
+        <div key={lane.key} className="swimlane-row">
+          <input value={lane.label} onChange={(e) => update(i, { label: e.target.value })} aria-label="Lane name" />
+          <select
+            value={lane.height}
+            onChange={(e) => update(i, { height: Number(e.target.value) })}
+            aria-label="Lane height"
+            title="Lane height"
+          >
+            {[...new Set([...LANE_HEIGHTS, lane.height])].sort((a, b) => a - b).map(h => (
+              <option key={h} value={h}>{h}px</option>
+            ))}
+          </select>
+          <button onClick={() => move(i, -1)} disabled={i === 0} title="Move up" aria-label="Move lane up">
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 15l-6-6-6 6"/>
+            </svg>
+          </button>
+          <button onClick={() => move(i, 1)} disabled={i === lanes.length - 1} title="Move down" aria-label="Move lane down">
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M6 9l6 6 6-6"/>
+            </svg>
+          </button>
+          <button
+            onClick={() => onChange(lanes.filter((_, j) => j !== i))}
+            title="Remove lane; its nodes join the next lane"
+            aria-label="Remove lane"
+          >
+            <RemoveIcon />
+          </button>
+        </div>
+      ))}
+      <button className="inspector-add" onClick={add}>Add lane</button>
+    </div>
+  );
+}
+
+interface EdgeInspectorProps {
+  edge: Edge;
+  sourceCategory?: NodeCategory;
+  onChange: (type: EdgeType | undefined) => void;
+  onDelete: () => void;
+}
+
+export function EdgeInspector({ edge, sourceCategory, onChange, onDelete }: EdgeInspectorProps) {
+  const explicit = (edge.data as { type?: EdgeType } | undefined)?.type;
+  const inherited = sourceCategory ? CATEGORY_EDGE_DEFAULTS[sourceCategory] : undefined;
+  const effective = explicit ?? inherited ?? 'dependency';
+
+  return (
+    <div className="editor-inspector" style={{ '--node-color': EDGE_TYPE_CONFIG[effective].color } as React.CSSProperties}>
+      <div className="inspector-header">
+        <span className="inspector-kind">Connection</span>
+        <button className="inspector-delete" onClick={onDelete} title="Delete connection">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2"/>
+          </svg>
+        </button>
+      </div>
+
+      <label className="inspector-field">
+        <span>Type</span>
+        <select
+          value={explicit ?? ''}
+          onChange={(e) => onChange((e.target.value || undefined) as EdgeType | undefined)}
+        >
+          <option value="">
+            Auto{inherited ? ` (${EDGE_TYPE_CONFIG[inherited].label})` : ''}
+          </option>
+          {(Object.keys(EDGE_TYPE_CONFIG) as EdgeType[]).map(t => (
+            <option key={t} value={t}>{EDGE_TYPE_CONFIG[t].label}</option>
+          ))}
+        </select>
+      </label>
+      <p className="inspector-hint">{EDGE_TYPE_CONFIG[effective].description}</p>
+    </div>
+  );
+}
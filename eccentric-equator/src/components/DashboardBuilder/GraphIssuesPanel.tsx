@@ -0,0 +1,43 @@
+import React from 'react';
+import type { GraphIssue } from './graphRules';
+
+interface GraphIssuesPanelProps {
+  issues: GraphIssue[];
+  onSelect: (issue: GraphIssue) => void;
+}
+
+function GraphIssuesPanel({ issues, onSelect }: GraphIssuesPanelProps) {
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <section className="graph-issues">
+      <header className="graph-issues-header">
+        <span>Checks</span>
+        {issues.length === 0 ? (
+          <span className="graph-issues-ok">All clear</span>
+        ) : (
+          <span className="graph-issues-counts">
+            {errors > 0 && <span className="error">{errors} error{errors === 1 ? '' : 's'}</span>}
+            {warnings > 0 && <span className="warning">{warnings} warning{warnings === 1 ? '' : 's'}</span>}
+          </span>
+        )}
+      </header>
+
+      {issues.length > 0 && (
+        <ul className="graph-issues-list">
+          {issues.map((issue, index) => (
+            <li key={`${issue.ruleId}-${index}`}>
+              <button className={`graph-issue ${issue.severity}`} onClick={() => onSelect(issue)}>
+                <span className="graph-issue-dot" />
+                <span>{issue.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default GraphIssuesPanel;
@@ -0,0 +1,62 @@
+import React, { useState, useEffect } from 'react';
+import type { ViewerPresence } from './dashboardRealtime';
+import type { RemoteUpdate } from './useDashboardRealtime';
+
+interface LivePresenceProps {
+  viewers: ViewerPresence[];
+  lastUpdate: RemoteUpdate | null;
+}
+
+const MAX_AVATARS = 4;
+
+function initials(name: string): string {
+  const local = name.split('@')[0];
+  const parts = local.split(/[\s._-]+/).filter(Boolean);
+  return (parts.length > 1 ? parts[0][0] + parts[1][0] : local.slice(0, 2)).toUpperCase();
+}
+
+function formatRelative(iso: string, now: number): string {
+  const seconds = Math.max(0, Math.round((now - Date.parse(iso)) / 1000));
+  if (isNaN(seconds) || seconds < 45) return 'just now';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.round(minutes / 60)}h ago`;
+}
+
+function LivePresence({ viewers, lastUpdate }: LivePresenceProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep "just now" honest while the page stays open
+  useEffect(() => {
+    if (!lastUpdate) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [lastUpdate]);
+
+  if (viewers.length === 0 && !lastUpdate) return null;
+
+  const shown = viewers.slice(0, MAX_AVATARS);
+  const hidden = viewers.length - shown.length;
+
+  return (
+    <div className="live-presence">
+      {lastUpdate && (
+        <span className="live-update" key={lastUpdate.at}>
+          <span className="live-dot" />
+          Updated by {lastUpdate.by} {formatRelative(lastUpdate.at, now)}
+        </span>
+      )}
+      {viewers.length > 0 && (
+        <div className="live-avatars" title={viewers.map(v => v.name).join(', ')}>
+          {shown.map(viewer => (
+            <span key={viewer.viewerId} className="live-avatar">{initials(viewer.name)}</span>
+          ))}
+          {hidden > 0 && <span className="live-avatar more">+{hidden}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LivePresence;
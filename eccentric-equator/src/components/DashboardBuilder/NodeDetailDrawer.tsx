@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData, CustomFieldDefinition, SwimlaneDefinition } from './types';
+import { CATEGORY_CONFIG, STATUS_CONFIG, PRIORITY_CONFIG, EDGE_TYPE_CONFIG } from './types';
+import type { RelationGroup } from './graphAnalysis';
+import { computeRelations } from './graphAnalysis';
+import { evaluateMetric, metricDisplayValue, formatMetricValue, METRIC_TRACK_CONFIG } from './metrics';
+import { formatNodeDate, formatFieldValue, isOverdue } from './nodeDetails';
+import type { Period } from './periods';
+import { periodLabel } from './periods';
+
+interface NodeDetailDrawerProps {
+  // The node shown, with its display roll-ups
+  node: Node<StrategyNodeData>;
+  nodes: Node<StrategyNodeData>[];
+  edges: Edge[];
+  periods: Period[];
+  lanes: SwimlaneDefinition[];
+  customFields: CustomFieldDefinition[];
+  onNavigate: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+function RelationList({ title, arrow, groups, onNavigate }: {
+  title: string;
+  arrow: string;
+  groups: RelationGroup[];
+  onNavigate: (nodeId: string) => void;
+}) {
+  if (groups.length === 0) return null;
+  return (
+    <section className="node-drawer-section">
+      <h4>{title}</h4>
+      {groups.map(({ type, nodes }) => (
+        <div key={type} className="node-drawer-relation" style={{ '--edge-color': EDGE_TYPE_CONFIG[type].color } as React.CSSProperties}>
+          <span className="node-drawer-relation-type" title={EDGE_TYPE_CONFIG[type].description}>
+            {arrow} {EDGE_TYPE_CONFIG[type].label}
+          </span>
+          <ul>
+            {nodes.map(related => (
+              <li key={related.id}>
+                <button onClick={() => onNavigate(related.id)} title={`Go to ${related.data.title || 'Untitled'}`}>
+                  <span className="status-dot-mini" style={{ background: STATUS_CONFIG[related.data.status].color }} />
+                  <span className="node-drawer-relation-title">{related.data.title || 'Untitled'}</span>
+                  <span className="node-drawer-relation-category">{CATEGORY_CONFIG[related.data.category].label}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </section>
+  );
+}
+
+// Full details of a node in the read-only viewer; Escape closes it
+function NodeDetailDrawer({ node, nodes, edges, periods, lanes, customFields, onNavigate, onClose }: NodeDetailDrawerProps) {
+  const { data } = node;
+  const category = CATEGORY_CONFIG[data.category];
+  const status = STATUS_CONFIG[data.status];
+  const priority = PRIORITY_CONFIG[data.priority];
+  const relations = useMemo(() => computeRelations(nodes, edges, node.id), [nodes, edges, node.id]);
+  const metricValue = data.category === 'metric' ? metricDisplayValue(data) : undefined;
+  const evaluation = data.category === 'metric' && data.metric ? evaluateMetric(data.metric) : null;
+  const lane = lanes.find(l => l.key === data.lane);
+  const fieldValues = customFields.filter(f => data.fields?.[f.key] !== undefined && data.fields[f.key] !== '');
+  const overdue = isOverdue(data);
+
+  // Move focus into the drawer whenever it shows another node
+  const titleRef = useRef<HTMLHeadingElement>(null);
+  useEffect(() => {
+    titleRef.current?.focus();
+  }, [node.id]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <aside
+      className="node-drawer"
+      aria-labelledby="node-drawer-title"
+      style={{ '--node-color': category.color } as React.CSSProperties}
+    >
+      <header className="node-drawer-header">
+        <span className="node-drawer-category">{category.label}</span>
+        <button className="node-drawer-close" onClick={onClose} title="Close (Esc)" aria-label="Close details">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M18 6L6 18M6 6l12 12"/>
+          </svg>
+        </button>
+      </header>
+
+      <div className="node-drawer-body">
+        <h3 id="node-drawer-title" ref={titleRef} tabIndex={-1}>{data.title || 'Untitled'}</h3>
+
+        <div className="node-drawer-badges">
+          <span className="node-drawer-badge" style={{ color: status.color }}>
+            <span className="status-dot-mini" style={{ background: status.color }} />
+            {status.label}
+          </span>
+          <span className="node-drawer-badge" style={{ color: priority.color }}>{priority.label} priority</span>
+          <span className="node-drawer-badge">{periodLabel(data.quarter, periods)}</span>
+          {lane && <span className="node-drawer-badge">{lane.label}</span>}
+        </div>
+
+        {(data.owner || data.startDate || data.dueDate) && (
+          <dl className="node-drawer-facts">
+            {data.owner && (<><dt>Owner</dt><dd>{data.owner}</dd></>)}
+            {data.startDate && (<><dt>Start</dt><dd>{formatNodeDate(data.startDate)}</dd></>)}
+            {data.dueDate && (
+              <>
+                <dt>Due</dt>
+                <dd className={overdue ? 'overdue' : undefined}>{formatNodeDate(data.dueDate)}{overdue && ' (overdue)'}</dd>
+              </>
+            )}
+          </dl>
+        )}
+
+        {(metricValue || evaluation) && (
+          <section className="node-drawer-section">
+            <h4>Metric</h4>
+            {metricValue && (
+              <div
+                className="node-drawer-metric"
+                style={{ color: evaluation ? METRIC_TRACK_CONFIG[evaluation.track].color : category.color }}
+              >
+                {metricValue}
+              </div>
+            )}
+            {evaluation && data.metric && (
+              <dl className="node-drawer-facts">
+                <dt>Track</dt><dd>{METRIC_TRACK_CONFIG[evaluation.track].label}</dd>
+                {data.metric.baseline !== undefined && (
+                  <><dt>Baseline</dt><dd>{formatMetricValue(data.metric.baseline, data.metric.unit)}</dd></>
+                )}
+                {data.metric.target !== undefined && (
+                  <>
+                    <dt>Target</dt>
+                    <dd>{data.metric.direction === 'higher' ? '≥' : '≤'} {formatMetricValue(data.metric.target, data.metric.unit)}</dd>
+                  </>
+                )}
+                <dt>Measurements</dt><dd>{data.metric.measurements.length}</dd>
+              </dl>
+            )}
+          </section>
+        )}
+
+        {(data.progress || data.metricRollup) && (
+          <dl className="node-drawer-facts">
+            {data.progress && (
+              <>
+                <dt>Progress</dt>
+                <dd>
+                  {Math.round(data.progress.progress * 100)}% ({data.progress.done} of {data.progress.contributors} contributing done)
+                </dd>
+              </>
+            )}
+            {data.metricRollup && (
+              <>
+                <dt>Metrics</dt>
+                <dd>{data.metricRollup.achieved + data.metricRollup.onTrack} of {data.metricRollup.total} on track</dd>
+              </>
+            )}
+          </dl>
+        )}
+
+        {data.description && (
+          <section className="node-drawer-section">
+            <h4>Description</h4>
+            <p className="node-drawer-description">{data.description}</p>
+          </section>
+        )}
+
+        {fieldValues.length > 0 && (
+          <dl className="node-drawer-facts">
+            {fieldValues.map(f => (
+              <React.Fragment key={f.key}>
+                <dt>{f.label}</dt>
+                <dd>{formatFieldValue(data.fields![f.key])}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        )}
+
+        {(data.tags?.length ?? 0) > 0 && (
+          <div className="node-tags">
+            {data.tags!.map(tag => <span key={tag} className="node-tag">{tag}</span>)}
+          </div>
+        )}
+
+        {(data.links?.length ?? 0) > 0 && (
+          <section className="node-drawer-section">
+            <h4>Links</h4>
+            <ul className="node-drawer-links">
+              {data.links!.map((link, i) => (
+                <li key={i}>
+                  <a href={link.url} target="_blank" rel="noopener noreferrer">{link.label || link.url}</a>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <RelationList title="Incoming" arrow="←" groups={relations.incoming} onNavigate={onNavigate} />
+        <RelationList title="Outgoing" arrow="→" groups={relations.outgoing} onNavigate={onNavigate} />
+        {relations.incoming.length === 0 && relations.outgoing.length === 0 && (
+          <p className="node-drawer-empty">Not connected to anything yet.</p>
+        )}
+      </div>
+    </aside>
+  );
+}
+
+export default NodeDetailDrawer;
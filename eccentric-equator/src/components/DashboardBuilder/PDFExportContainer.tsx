@@ -1,9 +1,11 @@
 import React, { useMemo } from 'react';
 import {
   ReactFlow,
+  ReactFlowProvider,
   Background,
   BackgroundVariant,
-  useViewport,
+  getViewportForBounds,
+  type Edge,
   type Node,
   type NodeTypes,
   type EdgeTypes,
@@ -13,9 +15,20 @@ import './viewer-styles.css';
 
 import StrategyNode from './StrategyNode';
 import StrategyEdge from './StrategyEdge';
-import type { StrategyNodeData, Quarter } from './types';
-import { QUARTER_CONFIG } from './types';
+import StrategicBackground from './StrategicBackground';
+import RiskCoverageMatrix from './RiskCoverageMatrix';
+import { withMetricRollups } from './metrics';
+import { withProgressRollups } from './progress';
+import { CustomFieldsContext, NO_CUSTOM_FIELDS } from './nodeDetails';
+import { buildPeriods, resolvePeriodModel } from './periods';
+import { timelineWidth } from './quarters';
+import { laneBands, lanesBottom } from './lanes';
+import { fitConfigToTimeline } from './useDeviceDetection';
+import type { StrategyNodeData, PresentationStep } from './types';
 import type { SavedDashboard } from './dashboardStorage';
+import type { Period } from './periods';
+import type { LaneBand } from './lanes';
+import { PRESENTATION_MAX_ZOOM, PRESENTATION_MIN_ZOOM, STEP_PADDING, stepClasses } from './presentation';
 
 // Desktop configuration for PDF export - always uses desktop settings
 const DESKTOP_CONFIG = {
@@ -39,36 +52,89 @@ const edgeTypes: EdgeTypes = {
   strategy: StrategyEdge as EdgeTypes['strategy'],
 };
 
-interface PDFExportContainerProps {
-  dashboard: SavedDashboard;
-  isExporting: boolean;
-  onExportComplete: () => void;
+// Canvas size of a presentation step page
+const STEP_PAGE_WIDTH = 1600;
+const STEP_PAGE_HEIGHT = 900;
+
+interface PresentationStepPageProps {
+  step: PresentationStep;
+  index: number;
+  total: number;
+  nodes: Node<StrategyNodeData>[];
+  edges: Edge[];
+  periods: Period[];
+  bands: LaneBand[];
 }
 
-// Background guides that move and scale with the flow
-function StrategicBackground() {
-  const { x, y, zoom } = useViewport();
-  
-  const style: React.CSSProperties = {
-    transform: `translate(${x}px, ${y}px) scale(${zoom})`,
-    transformOrigin: '0 0',
-  };
+// One step framed and highlighted as in the viewer, captured as its own page
+function PresentationStepPage({ step, index, total, nodes, edges, periods, bands }: PresentationStepPageProps) {
+  const shown = useMemo(() => {
+    const { nodeClasses, edgeClasses } = stepClasses(step, nodes, edges);
+    return {
+      nodes: nodes.map(n => ({ ...n, className: nodeClasses.get(n.id) })),
+      edges: edges.map(e => ({ ...e, className: edgeClasses.get(e.id) })),
+    };
+  }, [step, nodes, edges]);
+  const viewport = getViewportForBounds(
+    step.viewport, STEP_PAGE_WIDTH, STEP_PAGE_HEIGHT, PRESENTATION_MIN_ZOOM, PRESENTATION_MAX_ZOOM, STEP_PADDING
+  );
 
   return (
-    <div className="strategic-bg-guide" style={style}>
-      {(['q1', 'q2', 'q3', 'q4'] as Quarter[]).map((q) => (
-        <div key={q} className="strategic-bg-column">
-          <div className="strategic-bg-label">
-            <span className="strategic-bg-badge">{QUARTER_CONFIG[q].label}</span>
-            <span className="strategic-bg-months">{QUARTER_CONFIG[q].months}</span>
-          </div>
+    <div data-pdf-appendix={`Step ${index + 1} of ${total}`} className="pdf-appendix pdf-presentation-step">
+      {/* A provider per page, so each canvas keeps its own viewport */}
+      <ReactFlowProvider>
+        <div className="react-flow-wrapper" style={{ position: 'relative', width: STEP_PAGE_WIDTH, height: STEP_PAGE_HEIGHT }}>
+          <ReactFlow
+            nodes={shown.nodes}
+            edges={shown.edges}
+            nodeTypes={nodeTypes}
+            edgeTypes={edgeTypes}
+            nodeOrigin={[0.5, 0]}
+            defaultViewport={viewport}
+            minZoom={PRESENTATION_MIN_ZOOM}
+            maxZoom={PRESENTATION_MAX_ZOOM}
+            nodesDraggable={false}
+            nodesConnectable={false}
+            nodesFocusable={false}
+            edgesFocusable={false}
+            elementsSelectable={false}
+            panOnDrag={false}
+            zoomOnScroll={false}
+            zoomOnPinch={false}
+            zoomOnDoubleClick={false}
+          >
+            <StrategicBackground periods={periods} lanes={bands} />
+            <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="color-mix(in srgb, var(--hf-text) 3%, transparent)" />
+          </ReactFlow>
         </div>
-      ))}
+      </ReactFlowProvider>
+      {step.caption && <p className="pdf-presentation-caption">{step.caption}</p>}
     </div>
   );
 }
 
-export function PDFExportContainer({ dashboard, isExporting, onExportComplete }: PDFExportContainerProps) {
+interface PDFExportContainerProps {
+  dashboard: SavedDashboard;
+  isExporting: boolean;
+  onExportComplete: () => void;
+  // Print these presentation steps, one page each, instead of the appendices
+  presentationSteps?: PresentationStep[];
+}
+
+export function PDFExportContainer({ dashboard, isExporting, onExportComplete, presentationSteps }: PDFExportContainerProps) {
+  const nodes = useMemo(
+    () => withProgressRollups(withMetricRollups(dashboard.nodes, dashboard.edges || []), dashboard.edges || []),
+    [dashboard.nodes, dashboard.edges]
+  );
+  const periods = useMemo(() => buildPeriods(resolvePeriodModel(dashboard.settings)), [dashboard.settings]);
+  // Lanes are always printed expanded
+  const bands = useMemo(() => laneBands(dashboard.settings?.lanes ?? []), [dashboard.settings]);
+  // The capture always shows the whole timeline, however many columns and lanes it has
+  const config = useMemo(
+    () => fitConfigToTimeline(DESKTOP_CONFIG, { width: timelineWidth(periods.length), height: lanesBottom(bands) }, 0),
+    [periods, bands]
+  );
+
   // Only render when actually exporting
   if (!isExporting) {
     return null;
@@ -99,38 +165,63 @@ export function PDFExportContainer({ dashboard, isExporting, onExportComplete }:
           height: '100%',
         }}
       >
-        <ReactFlow
-          nodes={dashboard.nodes}
-          edges={dashboard.edges || []}
-          nodeTypes={nodeTypes}
-          nodeOrigin={[0.5, 0]}
-          defaultViewport={DESKTOP_CONFIG.defaultViewport}
-          fitView={DESKTOP_CONFIG.fitView}
-          fitViewOptions={DESKTOP_CONFIG.fitViewOptions}
-          nodesDraggable={false}
-          nodesConnectable={false}
-          nodesFocusable={false}
-          edgesFocusable={false}
-          elementsSelectable={false}
-          panOnDrag={DESKTOP_CONFIG.panOnDrag}
-          translateExtent={DESKTOP_CONFIG.translateExtent}
-          zoomOnScroll={DESKTOP_CONFIG.zoomOnScroll}
-          zoomOnPinch={DESKTOP_CONFIG.zoomOnPinch}
-          zoomOnDoubleClick={DESKTOP_CONFIG.zoomOnDoubleClick}
-          minZoom={DESKTOP_CONFIG.minZoom}
-          maxZoom={DESKTOP_CONFIG.maxZoom}
-          edgeTypes={edgeTypes}
-          onInit={(instance) => {
-            // After initial render, trigger fitView to ensure everything is visible
-            setTimeout(() => {
-              instance.fitView(DESKTOP_CONFIG.fitViewOptions);
-            }, 100);
-          }}
-        >
-          <StrategicBackground />
-          <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="color-mix(in srgb, var(--hf-text) 3%, transparent)" />
-        </ReactFlow>
+        <CustomFieldsContext.Provider value={dashboard.settings?.customFields ?? NO_CUSTOM_FIELDS}>
+          <ReactFlow
+            nodes={nodes}
+            edges={dashboard.edges || []}
+            nodeTypes={nodeTypes}
+            nodeOrigin={[0.5, 0]}
+            defaultViewport={config.defaultViewport}
+            fitView={config.fitView}
+            fitViewOptions={config.fitViewOptions}
+            nodesDraggable={false}
+            nodesConnectable={false}
+            nodesFocusable={false}
+            edgesFocusable={false}
+            elementsSelectable={false}
+            panOnDrag={config.panOnDrag}
+            translateExtent={config.translateExtent}
+            zoomOnScroll={config.zoomOnScroll}
+            zoomOnPinch={config.zoomOnPinch}
+            zoomOnDoubleClick={config.zoomOnDoubleClick}
+            minZoom={config.minZoom}
+            maxZoom={config.maxZoom}
+            edgeTypes={edgeTypes}
+            onInit={(instance) => {
+              // After initial render, trigger fitView to ensure everything is visible
+              setTimeout(() => {
+                instance.fitView(config.fitViewOptions);
+              }, 100);
+            }}
+          >
+            <StrategicBackground periods={periods} lanes={bands} />
+            <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="color-mix(in srgb, var(--hf-text) 3%, transparent)" />
+          </ReactFlow>
+        </CustomFieldsContext.Provider>
       </div>
+
+      {/* Appendix pages, captured after the roadmap */}
+      {presentationSteps && (
+        <CustomFieldsContext.Provider value={dashboard.settings?.customFields ?? NO_CUSTOM_FIELDS}>
+          {presentationSteps.map((step, i) => (
+            <PresentationStepPage
+              key={step.id}
+              step={step}
+              index={i}
+              total={presentationSteps.length}
+              nodes={nodes}
+              edges={dashboard.edges || []}
+              periods={periods}
+              bands={bands}
+            />
+          ))}
+        </CustomFieldsContext.Provider>
+      )}
+      {!presentationSteps && dashboard.nodes.some(n => n.data.category === 'risk') && (
+        <div data-pdf-appendix="Risk Coverage" className="pdf-appendix">
+          <RiskCoverageMatrix nodes={dashboard.nodes} edges={dashboard.edges || []} />
+        </div>
+      )}
     </div>
   );
 }
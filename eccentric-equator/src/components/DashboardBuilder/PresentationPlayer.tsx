@@ -0,0 +1,97 @@
+import React, { useEffect } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import type { PresentationStep } from './types';
+import { STEP_PADDING, STEP_TRANSITION_MS } from './presentation';
+
+interface PresentationPlayerProps {
+  steps: PresentationStep[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onExit: () => void;
+  onExportPDF?: () => void;
+  isExporting?: boolean;
+}
+
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter'];
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'];
+
+// Caption and controls of a running presentation; frames each step as it comes up
+function PresentationPlayer({ steps, index, onIndexChange, onExit, onExportPDF, isExporting }: PresentationPlayerProps) {
+  const { fitBounds } = useReactFlow();
+  const step = steps[index];
+  const last = steps.length - 1;
+
+  useEffect(() => {
+    if (step) fitBounds(step.viewport, { padding: STEP_PADDING, duration: STEP_TRANSITION_MS });
+  }, [step, fitBounds]);
+
+  // Entering or leaving full screen resizes the canvas; keep the step framed
+  useEffect(() => {
+    if (!step) return;
+    const onResize = () => requestAnimationFrame(() => fitBounds(step.viewport, { padding: STEP_PADDING }));
+    window.addEventListener('resize', onResize);
+    return () => window.removeEventListener('resize', onResize);
+  }, [step, fitBounds]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Leave buttons to handle their own Enter / Space
+      if ((e.key === 'Enter' || e.key === ' ') && e.target instanceof HTMLButtonElement) return;
+      let next: number | null = null;
+      if (NEXT_KEYS.includes(e.key)) next = Math.min(last, index + 1);
+      else if (PREVIOUS_KEYS.includes(e.key)) next = Math.max(0, index - 1);
+      else if (e.key === 'Home') next = 0;
+      else if (e.key === 'End') next = last;
+      else if (e.key === 'Escape') {
+        onExit();
+        return;
+      }
+      if (next === null) return;
+      e.preventDefault();
+      if (next !== index) onIndexChange(next);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [index, last, onIndexChange, onExit]);
+
+  if (!step) return null;
+
+  return (
+    <div className="presentation-player" role="region" aria-label="Presentation" aria-roledescription="slideshow">
+      <div className="presentation-caption" aria-live="polite">
+        <span className="presentation-progress">Step {index + 1} of {steps.length}</span>
+        {step.caption && <p>{step.caption}</p>}
+      </div>
+      <div className="presentation-controls">
+        <button onClick={() => onIndexChange(index - 1)} disabled={index === 0} title="Previous (←)" aria-label="Previous step">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M15 18l-6-6 6-6"/>
+          </svg>
+        </button>
+        <div className="presentation-dots" aria-hidden="true">
+          {steps.map((s, i) => <span key={s.id} className={i === index ? 'active' : undefined} />)}
+        </div>
+        <button onClick={() => onIndexChange(index + 1)} disabled={index === last} title="Next (→)" aria-label="Next step">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M9 18l6-6-6-6"/>
+          </svg>
+        </button>
+        {onExportPDF && (
+          <button onClick={onExportPDF} disabled={isExporting} title="Export steps as PDF" aria-label="Export presentation as PDF">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8z"/>
+              <polyline points="14 2 14 8 20 8"/><line x1="12" y1="18" x2="12" y2="12"/><line x1="9" y1="15" x2="15" y2="15"/>
+            </svg>
+          </button>
+        )}
+        <button onClick={onExit} title="End presentation (Esc)" aria-label="End presentation">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M18 6L6 18M6 6l12 12"/>
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default PresentationPlayer;
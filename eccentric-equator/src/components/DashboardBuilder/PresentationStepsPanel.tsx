@@ -0,0 +1,92 @@
+import React from 'react';
+import type { PresentationStep } from './types';
+import { moveStep } from './presentation';
+
+interface PresentationStepsPanelProps {
+  steps: PresentationStep[];
+  // Nodes selected on the canvas, highlighted by a captured step
+  selectedCount: number;
+  onAdd: () => void;
+  // Re-record a step from the current view and selection
+  onRecapture: (index: number) => void;
+  onShow: (step: PresentationStep) => void;
+  onChange: (steps: PresentationStep[]) => void;
+}
+
+function PresentationStepsPanel({ steps, selectedCount, onAdd, onRecapture, onShow, onChange }: PresentationStepsPanelProps) {
+  const update = (index: number, patch: Partial<PresentationStep>) =>
+    onChange(steps.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+  return (
+    <section className="presentation-steps">
+      <header className="presentation-steps-header">
+        <span>Presentation</span>
+        <span className="presentation-steps-count">{steps.length} step{steps.length === 1 ? '' : 's'}</span>
+      </header>
+
+      {steps.length === 0 && (
+        <p className="inspector-hint">
+          Frame part of the roadmap, select the nodes to highlight, then add a step. Viewers can play the steps full-screen.
+        </p>
+      )}
+
+      <ol className="presentation-steps-list">
+        {steps.map((step, i) => (
+          <li key={step.id} className="presentation-step">
+            <div className="presentation-step-header">
+              <button className="presentation-step-number" onClick={() => onShow(step)} title="Show this step on the canvas">
+                {i + 1}
+              </button>
+              <span className="presentation-step-meta">
+                {step.nodeIds.length > 0 ? `${step.nodeIds.length} highlighted` : 'No highlights'}
+              </span>
+              <button onClick={() => onRecapture(i)} title="Use the current view and selection" aria-label="Update step from view">
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M23 4v6h-6M1 20v-6h6"/><path d="M3.5 9a9 9 0 0114.9-3.4L23 10M1 14l4.6 4.4A9 9 0 0020.5 15"/>
+                </svg>
+              </button>
+              <button onClick={() => onChange(moveStep(steps, i, -1))} disabled={i === 0} title="Move up" aria-label="Move step up">
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M18 15l-6-6-6 6"/>
+                </svg>
+              </button>
+              <button
+                onClick={() => onChange(moveStep(steps, i, 1))}
+                disabled={i === steps.length - 1}
+                title="Move down"
+                aria-label="Move step down"
+              >
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M6 9l6 6 6-6"/>
+                </svg>
+              </button>
+              <button
+                className="presentation-step-remove"
+                onClick={() => onChange(steps.filter((_, j) => j !== i))}
+                title="Remove step"
+                aria-label="Remove step"
+              >
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M18 6L6 18M6 6l12 12"/>
+                </svg>
+              </button>
+            </div>
+            <textarea
+              value={step.caption}
+              onChange={(e) => update(i, { caption: e.target.value })}
+              placeholder="Caption shown with this step"
+              rows={2}
+              aria-label={`Caption of step ${i + 1}`}
+            />
+          </li>
+        ))}
+      </ol>
+
+      <button className="inspector-add" onClick={onAdd} title="Record what is on screen as the next step">
+        Add step from view{selectedCount > 0 ? ` (${selectedCount} highlighted)` : ''}
+      </button>
+    </section>
+  );
+}
+
+export default PresentationStepsPanel;
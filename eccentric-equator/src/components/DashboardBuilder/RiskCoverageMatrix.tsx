@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData, Priority } from './types';
+import { PRIORITY_CONFIG, STATUS_CONFIG } from './types';
+import {
+  computeRiskCoverage,
+  coverageHeatmap,
+  heatmapRating,
+  COVERAGE_CONFIG,
+  COVERAGE_LEVELS,
+  RESIDUAL_CONFIG,
+} from './riskCoverage';
+
+interface RiskCoverageMatrixProps {
+  nodes: Node<StrategyNodeData>[];
+  edges: Edge[];
+  onClose?: () => void;
+}
+
+const PRIORITY_ROWS: Priority[] = ['critical', 'high', 'medium', 'low'];
+
+function RiskCoverageMatrix({ nodes, edges, onClose }: RiskCoverageMatrixProps) {
+  const coverage = useMemo(() => computeRiskCoverage(nodes, edges), [nodes, edges]);
+  const heatmap = useMemo(() => coverageHeatmap(coverage.rows), [coverage]);
+
+  return (
+    <div className="risk-coverage">
+      <header className="risk-coverage-header">
+        <h3>Risk coverage</h3>
+        <span className="risk-coverage-count">{coverage.rows.length} risk{coverage.rows.length === 1 ? '' : 's'}</span>
+        {onClose && (
+          <button className="risk-coverage-close" onClick={onClose} title="Close" aria-label="Close risk coverage">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12"/>
+            </svg>
+          </button>
+        )}
+      </header>
+
+      {coverage.rows.length === 0 ? (
+        <p className="risk-coverage-empty">This roadmap has no risks yet.</p>
+      ) : (
+        <>
+          {coverage.uncoveredCritical.length > 0 && (
+            <div className="risk-coverage-alert">
+              <strong>{coverage.uncoveredCritical.length} critical risk{coverage.uncoveredCritical.length === 1 ? '' : 's'} uncovered</strong>
+              <ul>
+                {coverage.uncoveredCritical.map(row => (
+                  <li key={row.riskId}>
+                    {row.title}
+                    <span>{row.controls.length === 0 ? 'no controls' : 'controls not started'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <table className="risk-heatmap">
+            <thead>
+              <tr>
+                <th />
+                {COVERAGE_LEVELS.map(level => <th key={level}>{COVERAGE_CONFIG[level].label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {PRIORITY_ROWS.map(priority => (
+                <tr key={priority}>
+                  <th style={{ color: PRIORITY_CONFIG[priority].color }}>{PRIORITY_CONFIG[priority].label}</th>
+                  {COVERAGE_LEVELS.map(level => {
+                    const count = heatmap[priority][level];
+                    const color = RESIDUAL_CONFIG[heatmapRating(priority, level)].color;
+                    return (
+                      <td
+                        key={level}
+                        style={{
+                          background: `color-mix(in srgb, ${color} ${count > 0 ? 35 : 8}%, transparent)`,
+                          color: count > 0 ? 'var(--hf-text)' : 'var(--hf-text-dim)',
+                        }}
+                      >
+                        {count}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <table className="risk-table">
+            <thead>
+              <tr>
+                <th>Risk</th>
+                <th>Priority</th>
+                <th>Controls</th>
+                <th>Residual</th>
+              </tr>
+            </thead>
+            <tbody>
+              {coverage.rows.map(row => (
+                <tr key={row.riskId}>
+                  <td className="risk-title">{row.title || 'Untitled'}</td>
+                  <td style={{ color: PRIORITY_CONFIG[row.priority].color }}>{PRIORITY_CONFIG[row.priority].label}</td>
+                  <td>
+                    {row.controls.length === 0 ? (
+                      <span className="risk-no-controls">None</span>
+                    ) : (
+                      <div className="risk-controls">
+                        {row.controls.map(control => (
+                          <span key={control.id} className="risk-control" title={STATUS_CONFIG[control.status].label}>
+                            <span className="status-dot" style={{ backgroundColor: STATUS_CONFIG[control.status].color }} />
+                            {control.title}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td>
+                    <span
+                      className="risk-residual"
+                      style={{ '--residual-color': RESIDUAL_CONFIG[row.residual].color } as React.CSSProperties}
+                    >
+                      {RESIDUAL_CONFIG[row.residual].label}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RiskCoverageMatrix;
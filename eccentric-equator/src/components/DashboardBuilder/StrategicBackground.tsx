@@ -0,0 +1,110 @@
+import React from 'react';
+import { useViewport } from '@xyflow/react';
+import type { Period } from './periods';
+import { DEFAULT_PERIOD_MODEL, buildPeriods, groupPeriodsByYear } from './periods';
+import type { LaneBand, LaneStats } from './lanes';
+import { lanesBottom } from './lanes';
+import { QUARTER_WIDTH, timelineWidth } from './quarters';
+
+const DEFAULT_PERIODS = buildPeriods(DEFAULT_PERIOD_MODEL);
+
+interface StrategicBackgroundProps {
+  // Columns of the dashboard's timeline
+  periods?: Period[];
+  // Swimlanes, as laid out in the view
+  lanes?: LaneBand[];
+  // Done / total shown in each lane header
+  laneStats?: LaneStats[];
+  // Makes lane headers buttons that collapse or expand their lane
+  onToggleLane?: (key: string) => void;
+}
+
+// Background guides that move and scale with the flow
+function StrategicBackground({ periods = DEFAULT_PERIODS, lanes = [], laneStats, onToggleLane }: StrategicBackgroundProps) {
+  const { x, y, zoom } = useViewport();
+  const years = groupPeriodsByYear(periods);
+  const width = timelineWidth(periods.length);
+
+  const style: React.CSSProperties = {
+    transform: `translate(${x}px, ${y}px) scale(${zoom})`,
+    transformOrigin: '0 0',
+    width,
+    minHeight: lanesBottom(lanes) || undefined,
+  };
+
+  return (
+    <>
+      <div className={`strategic-bg-guide ${years.length > 0 ? 'strategic-bg-guide--years' : ''}`} style={style}>
+        {periods.map((period) => (
+          <div
+            key={period.key}
+            className="strategic-bg-column"
+            style={{ '--period-color': period.color } as React.CSSProperties}
+          >
+            <div className="strategic-bg-label">
+              <span className="strategic-bg-badge">{period.label}</span>
+              {period.months && <span className="strategic-bg-months">{period.months}</span>}
+            </div>
+          </div>
+        ))}
+        {years.map(({ year, periods: lane }) => (
+          <div
+            key={year}
+            className="strategic-bg-year"
+            style={{ left: lane[0].index * QUARTER_WIDTH, width: lane.length * QUARTER_WIDTH }}
+          >
+            {year}
+          </div>
+        ))}
+        {lanes.map(band => (
+          <div
+            key={band.lane.key}
+            className={`strategic-bg-lane ${band.index % 2 ? 'strategic-bg-lane--alt' : ''} ${band.collapsed ? 'strategic-bg-lane--collapsed' : ''}`}
+            style={{ top: band.top, height: band.height }}
+          />
+        ))}
+      </div>
+
+      {/* Lane headers sit above the nodes so they stay readable and clickable */}
+      {lanes.length > 0 && (
+        <div className="strategic-bg-lanes" style={{ ...style, minHeight: undefined }}>
+          {lanes.map(band => {
+            const stats = laneStats?.find(s => s.lane.key === band.lane.key);
+            const content = (
+              <>
+                {onToggleLane && (
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5">
+                    <path d={band.collapsed ? 'M9 6l6 6-6 6' : 'M6 9l6 6 6-6'}/>
+                  </svg>
+                )}
+                <span className="strategic-bg-lane-label">{band.lane.label}</span>
+                {stats && stats.total > 0 && (
+                  <span className="strategic-bg-lane-count">{stats.done}/{stats.total}</span>
+                )}
+              </>
+            );
+            const position = { top: band.top + 8 };
+            return onToggleLane ? (
+              <button
+                key={band.lane.key}
+                className="strategic-bg-lane-header strategic-bg-lane-header--toggle"
+                style={position}
+                onClick={() => onToggleLane(band.lane.key)}
+                aria-expanded={!band.collapsed}
+                title={band.collapsed ? `Expand ${band.lane.label}` : `Collapse ${band.lane.label}`}
+              >
+                {content}
+              </button>
+            ) : (
+              <div key={band.lane.key} className="strategic-bg-lane-header" style={position}>
+                {content}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default StrategicBackground;
@@ -1,8 +1,18 @@
-import React, { memo } from 'react';
+import React, { memo, useContext } from 'react';
 import { Handle, Position, NodeResizer } from '@xyflow/react';
 import type { NodeProps } from '@xyflow/react';
-import type { StrategyNodeData, NodeCategory } from './types';
+import type { StrategyNodeData, NodeCategory, MetricSeries } from './types';
 import { CATEGORY_CONFIG, STATUS_CONFIG, PRIORITY_CONFIG } from './types';
+import { evaluateMetric, metricDisplayValue, sortedMeasurements, formatMetricValue, METRIC_TRACK_CONFIG } from './metrics';
+import {
+  CustomFieldsContext,
+  SearchTermsContext,
+  formatNodeDate,
+  formatFieldValue,
+  isOverdue,
+  ownerInitials,
+  splitMatches,
+} from './nodeDetails';
 
 interface IconProps {
   size?: number;
@@ -34,6 +44,11 @@ const Icons: Record<string, (props: IconProps) => React.ReactElement> = {
       <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/>
     </svg>
   ),
+  link: ({ size = 16 }) => (
+    <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M10 13a5 5 0 007.54.54l3-3a5 5 0 00-7.07-7.07l-1.72 1.71"/><path d="M14 11a5 5 0 00-7.54-.54l-3 3a5 5 0 007.07 7.07l1.71-1.71"/>
+    </svg>
+  ),
   chart: ({ size = 16 }) => (
     <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
       <path d="M18 20V10M12 20V4M6 20v-6"/>
@@ -41,16 +56,76 @@ const Icons: Record<string, (props: IconProps) => React.ReactElement> = {
   ),
 };
 
+const SPARK_WIDTH = 120;
+const SPARK_HEIGHT = 32;
+
+// Readings over time, with the target as a dashed line
+function MetricSparkline({ metric, color }: { metric: MetricSeries; color: string }) {
+  const series = sortedMeasurements(metric);
+  if (series.length < 2) return null;
+
+  const values = series.map(m => m.value);
+  if (metric.target !== undefined) values.push(metric.target);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const times = series.map(m => Date.parse(m.date));
+  const span = times[times.length - 1] - times[0];
+  const x = (i: number) => (span > 0 ? (times[i] - times[0]) / span : i / (series.length - 1)) * SPARK_WIDTH;
+  const y = (value: number) => SPARK_HEIGHT - 2 - ((value - min) / range) * (SPARK_HEIGHT - 4);
+  const last = series.length - 1;
+
+  return (
+    <svg
+      className="node-sparkline"
+      viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label={`${series.length} readings from ${series[0].date} to ${series[last].date}`}
+    >
+      {metric.target !== undefined && (
+        <line x1="0" x2={SPARK_WIDTH} y1={y(metric.target)} y2={y(metric.target)} className="node-sparkline-target" />
+      )}
+      <polyline
+        points={series.map((m, i) => `${x(i)},${y(m.value)}`).join(' ')}
+        fill="none"
+        stroke={color}
+        strokeWidth="1.5"
+        vectorEffect="non-scaling-stroke"
+      />
+      <circle cx={x(last)} cy={y(series[last].value)} r="2" fill={color} />
+    </svg>
+  );
+}
+
 interface StrategyNodeProps {
   data: StrategyNodeData;
   selected?: boolean;
 }
 
+// Text with the viewer's search terms marked
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  if (terms.length === 0) return <>{text}</>;
+  return (
+    <>
+      {splitMatches(text, terms).map((run, i) => (run.match ? <mark key={i} className="node-search-match">{run.text}</mark> : run.text))}
+    </>
+  );
+}
+
 function StrategyNode({ data, selected }: StrategyNodeProps) {
   const config = CATEGORY_CONFIG[data.category];
   const statusConfig = STATUS_CONFIG[data.status];
   const priorityConfig = PRIORITY_CONFIG[data.priority];
   const IconComponent = Icons[config.icon];
+  const metricValue = data.category === 'metric' ? metricDisplayValue(data) : undefined;
+  const evaluation = data.category === 'metric' && data.metric ? evaluateMetric(data.metric) : null;
+  const trackColor = evaluation ? METRIC_TRACK_CONFIG[evaluation.track].color : config.color;
+  const customFields = useContext(CustomFieldsContext);
+  const searchTerms = useContext(SearchTermsContext);
+  const fieldValues = customFields.filter(f => data.fields?.[f.key] !== undefined && data.fields[f.key] !== '');
+  const tags = data.tags ?? [];
+  const links = data.links ?? [];
+  const overdue = isOverdue(data);
 
   return (
     <div
@@ -80,19 +155,122 @@ function StrategyNode({ data, selected }: StrategyNodeProps) {
           {IconComponent && <IconComponent size={14} />}
         </div>
         <span className="node-category" style={{ color: config.color }}>{config.label}</span>
+        {data.issues && data.issues.errors + data.issues.warnings > 0 && (
+          <span
+            className={`node-issues ${data.issues.errors > 0 ? 'error' : 'warning'}`}
+            title={data.issues.messages.join('\n')}
+          >
+            <Icons.alert size={10} />
+            {data.issues.errors + data.issues.warnings}
+          </span>
+        )}
+        {data.metricRollup && (
+          <span
+            className="node-metric-rollup"
+            style={{ '--track-color': METRIC_TRACK_CONFIG[data.metricRollup.track].color } as React.CSSProperties}
+            title={data.metricRollup.messages.join('\n')}
+          >
+            <Icons.chart size={10} />
+            {data.metricRollup.achieved + data.metricRollup.onTrack}/{data.metricRollup.total}
+          </span>
+        )}
       </div>
 
       {/* Title */}
-      <div className="node-title">{data.title}</div>
+      <div className="node-title"><Highlighted text={data.title} terms={searchTerms} /></div>
+
+      {/* Owner & Schedule */}
+      {(data.owner || data.startDate || data.dueDate) && (
+        <div className="node-meta">
+          {data.owner && (
+            <span className="node-owner" title={`Owner: ${data.owner}`}>
+              <span className="node-owner-avatar">{ownerInitials(data.owner)}</span>
+              {data.owner}
+            </span>
+          )}
+          {(data.startDate || data.dueDate) && (
+            <span className={`node-dates ${overdue ? 'overdue' : ''}`} title={overdue ? 'Overdue' : undefined}>
+              {data.startDate && data.dueDate
+                ? `${formatNodeDate(data.startDate)} – ${formatNodeDate(data.dueDate)}`
+                : data.dueDate ? `Due ${formatNodeDate(data.dueDate)}` : `From ${formatNodeDate(data.startDate!)}`}
+            </span>
+          )}
+        </div>
+      )}
+
+      {tags.length > 0 && (
+        <div className="node-tags">
+          {tags.slice(0, 3).map(tag => <span key={tag} className="node-tag">{tag}</span>)}
+          {tags.length > 3 && <span className="node-tag more" title={tags.slice(3).join(', ')}>+{tags.length - 3}</span>}
+        </div>
+      )}
 
       {/* Metric Value */}
-      {data.category === 'metric' && data.value && (
-        <div className="node-value" style={{ color: config.color }}>{data.value}</div>
+      {metricValue && (
+        <div className="node-value" style={{ color: trackColor }}>{metricValue}</div>
+      )}
+      {evaluation && data.metric && (
+        <div className="node-metric">
+          <MetricSparkline metric={data.metric} color={trackColor} />
+          <div className="node-metric-meta">
+            <span style={{ color: trackColor }}>{METRIC_TRACK_CONFIG[evaluation.track].label}</span>
+            {data.metric.target !== undefined && (
+              <span>
+                Target {data.metric.direction === 'higher' ? '≥' : '≤'} {formatMetricValue(data.metric.target, data.metric.unit)}
+              </span>
+            )}
+          </div>
+        </div>
       )}
 
       {/* Description */}
       {data.description && (
-        <div className="node-description">{data.description}</div>
+        <div className="node-description"><Highlighted text={data.description} terms={searchTerms} /></div>
+      )}
+
+      {/* Custom Fields */}
+      {fieldValues.length > 0 && (
+        <dl className="node-fields">
+          {fieldValues.map(f => (
+            <React.Fragment key={f.key}>
+              <dt>{f.label}</dt>
+              <dd>{formatFieldValue(data.fields![f.key])}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+
+      {/* Links */}
+      {links.length > 0 && (
+        <div className="node-links">
+          {links.map((link, i) => (
+            <a
+              key={i}
+              className="node-link nodrag nopan"
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={link.url}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <Icons.link size={10} />
+              {link.label || link.url.replace(/^https?:\/\//, '')}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {/* Progress of supporting work */}
+      {data.progress && (
+        <div
+          className="node-progress"
+          title={`${data.progress.done} of ${data.progress.contributors} contributing item${data.progress.contributors === 1 ? '' : 's'} done`}
+        >
+          <div className="node-progress-bar">
+            <div className="node-progress-fill" style={{ width: `${Math.round(data.progress.progress * 100)}%` }} />
+          </div>
+          <span>{Math.round(data.progress.progress * 100)}%</span>
+        </div>
       )}
 
       {/* Footer - Status & Priority */}
@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import DashboardViewer from './DashboardViewer';
+import type { SavedDashboard, DashboardVersion } from './dashboardStorage';
+import { compareVersions, buildComparisonGraph, describeChanges, type ChangeSummary } from './versionDiff';
+import { buildPeriods, resolvePeriodModel } from './periods';
+import './viewer-styles.css';
+
+interface VersionDiffViewerProps {
+  dashboard: SavedDashboard;
+  from: DashboardVersion;
+  to: DashboardVersion;
+}
+
+const CHANGE_COLORS: Record<ChangeSummary['kind'], string> = {
+  added: '#00D26A',
+  removed: '#ef4444',
+  changed: '#f59e0b',
+};
+
+function VersionChangesPanel({ changes, from, to }: { changes: ChangeSummary[]; from: number; to: number }) {
+  return (
+    <aside className="version-diff-panel" aria-label="Changes between versions">
+      <header className="version-diff-header">
+        <span className="version-diff-title">Changes v{from} → v{to}</span>
+        <span className="version-diff-count">{changes.length}</span>
+      </header>
+      <div className="version-diff-legend">
+        <span className="legend-added">Added</span>
+        <span className="legend-removed">Removed</span>
+        <span className="legend-moved">Moved</span>
+        <span className="legend-status">Status</span>
+        <span className="legend-edited">Edited</span>
+      </div>
+      {changes.length === 0 ? (
+        <p className="version-diff-empty">No differences between these versions.</p>
+      ) : (
+        <ul className="version-diff-list">
+          {changes.map((change, i) => (
+            <li key={`${change.nodeId ?? change.edgeId}-${i}`} style={{ '--change-color': CHANGE_COLORS[change.kind] } as React.CSSProperties}>
+              {change.text}
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
+
+function VersionDiffViewer({ dashboard, from, to }: VersionDiffViewerProps) {
+  const comparison = useMemo(() => compareVersions(from, to), [from, to]);
+  const graph = useMemo(() => buildComparisonGraph(from, to, comparison), [from, to, comparison]);
+  const periods = useMemo(() => buildPeriods(resolvePeriodModel(dashboard.settings)), [dashboard.settings]);
+  const changes = useMemo(
+    () => describeChanges(comparison, from, to, periods, dashboard.settings?.lanes),
+    [comparison, from, to, periods, dashboard.settings]
+  );
+
+  const comparedDashboard = useMemo<SavedDashboard>(
+    () => ({ ...dashboard, nodes: graph.nodes, edges: graph.edges }),
+    [dashboard, graph]
+  );
+
+  return (
+    <DashboardViewer
+      dashboard={comparedDashboard}
+      subtitle={`v${from.version} → v${to.version}`}
+      sidePanel={<VersionChangesPanel changes={changes} from={from.version} to={to.version} />}
+    />
+  );
+}
+
+export default VersionDiffViewer;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import type { SavedDashboard, DashboardVersion } from './dashboardStorage';
+import { DashboardConflictError } from './dashboardStorage';
+import type { DashboardRepository } from './dashboardRepository';
+
+interface VersionTimelineProps {
+  dashboard: SavedDashboard;
+  repository: DashboardRepository;
+  onRestored: (dashboard: SavedDashboard) => void;
+  onForked: (dashboard: SavedDashboard) => void;
+  onError: (message: string) => void;
+}
+
+function formatSavedAt(dateStr: string) {
+  const date = new Date(dateStr);
+  if (isNaN(date.getTime())) return 'Unknown date';
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function VersionTimeline({ dashboard, repository, onRestored, onForked, onError }: VersionTimelineProps) {
+  const [versions, setVersions] = useState<DashboardVersion[] | null>(null);
+  const [busyVersion, setBusyVersion] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    repository.listVersions(dashboard.id)
+      .then(result => {
+        if (!cancelled) setVersions(result);
+      })
+      .catch(err => {
+        console.error('Error loading versions:', err);
+        if (!cancelled) {
+          setVersions([]);
+          onError('Failed to load version history.');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dashboard.id, dashboard.version, repository]);
+
+  const handleRestore = async (version: number) => {
+    setBusyVersion(version);
+    try {
+      const restored = await repository.restoreVersion(dashboard.id, version, { expectedVersion: dashboard.version });
+      if (restored) onRestored(restored);
+      else onError(`Version ${version} is no longer available.`);
+    } catch (err) {
+      if (err instanceof DashboardConflictError) {
+        onRestored(err.current);
+        onError(`This dashboard was changed by someone else (now v${err.current.version}). Review the history and try again.`);
+        return;
+      }
+      console.error('Restore version failed:', err);
+      onError('Failed to restore version. Please try again.');
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleFork = async (version: number) => {
+    setBusyVersion(version);
+    try {
+      const forked = await repository.forkVersion(dashboard.id, version);
+      if (forked) onForked(forked);
+      else onError(`Version ${version} is no longer available.`);
+    } catch (err) {
+      console.error('Fork version failed:', err);
+      onError('Failed to create draft from version. Please try again.');
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  if (versions === null) {
+    return <div className="version-timeline version-timeline--loading">Loading history...</div>;
+  }
+
+  if (versions.length === 0) {
+    return <div className="version-timeline version-timeline--empty">No saved versions yet.</div>;
+  }
+
+  return (
+    <ol className="version-timeline">
+      {versions.map((v) => {
+        const isCurrent = v.version === dashboard.version;
+        return (
+          <li key={v.version} className={`timeline-entry ${isCurrent ? 'current' : ''}`}>
+            <div className="timeline-info">
+              <span className="timeline-version">v{v.version}</span>
+              <span className="timeline-date">{formatSavedAt(v.savedAt)}</span>
+              <span className="timeline-size">{v.nodes.length} items · {v.edges.length} links</span>
+            </div>
+            <div className="timeline-actions">
+              {isCurrent ? (
+                <span className="timeline-current">Current</span>
+              ) : (
+                <>
+                  <a
+                    href={`/dashboards/view?id=${dashboard.id}&from=${v.version}`}
+                    className="timeline-btn"
+                    title="Compare with current version"
+                  >
+                    Compare
+                  </a>
+                  <button
+                    className="timeline-btn"
+                    onClick={() => handleRestore(v.version)}
+                    disabled={busyVersion !== null}
+                    title="Restore as a new version"
+                  >
+                    Restore
+                  </button>
+                </>
+              )}
+              <button
+                className="timeline-btn"
+                onClick={() => handleFork(v.version)}
+                disabled={busyVersion !== null}
+                title="Start a new draft from this version"
+              >
+                Fork
+              </button>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export default VersionTimeline;
@@ -0,0 +1,153 @@
+import React, { useMemo } from 'react';
+import type { Node } from '@xyflow/react';
+import type { StrategyNodeData, CustomFieldDefinition } from './types';
+import { CATEGORY_CONFIG, STATUS_CONFIG, PRIORITY_CONFIG } from './types';
+import type { NodeFilter } from './nodeDetails';
+import {
+  collectOwners,
+  collectTags,
+  collectFieldValues,
+  isNodeFilterActive,
+  matchesNodeFilter,
+  EMPTY_NODE_FILTER,
+} from './nodeDetails';
+import type { Period } from './periods';
+import { periodName } from './periods';
+
+interface FilterSelectProps {
+  label: string;
+  value: string | null;
+  options: { value: string; label: string }[];
+  onChange: (value: string | null) => void;
+}
+
+function FilterSelect({ label, value, options, onChange }: FilterSelectProps) {
+  return (
+    <label className="filter-select">
+      <span>{label}</span>
+      <select value={value ?? ''} onChange={(e) => onChange(e.target.value || null)}>
+        <option value="">All</option>
+        {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+    </label>
+  );
+}
+
+// Options for the values of a config that some node actually uses
+function usedOptions<T extends string>(config: Record<T, { label: string }>, used: Set<string | null>) {
+  return (Object.keys(config) as T[]).filter(key => used.has(key)).map(key => ({ value: key, label: config[key].label }));
+}
+
+const asOptions = (values: string[]) => values.map(value => ({ value, label: value }));
+
+interface ViewerFilterBarProps {
+  nodes: Node<StrategyNodeData>[];
+  customFields: CustomFieldDefinition[];
+  // Columns of the dashboard's timeline
+  periods: Period[];
+  filter: NodeFilter;
+  onChange: (filter: NodeFilter) => void;
+}
+
+function ViewerFilterBar({ nodes, customFields, periods, filter, onChange }: ViewerFilterBarProps) {
+  const owners = useMemo(() => collectOwners(nodes), [nodes]);
+  const tags = useMemo(() => collectTags(nodes), [nodes]);
+  const fields = useMemo(
+    () => customFields
+      .map(field => ({ field, values: collectFieldValues(field, nodes) }))
+      .filter(f => f.values.length > 0),
+    [customFields, nodes]
+  );
+  const options = useMemo(() => {
+    // Values some node uses, plus the selected one (it may come from a shared link)
+    const used = (key: 'category' | 'status' | 'priority' | 'quarter') =>
+      new Set<string | null>([...nodes.map(n => n.data[key]), filter[key]]);
+    const quarters = used('quarter');
+    return {
+      categories: usedOptions(CATEGORY_CONFIG, used('category')),
+      statuses: usedOptions(STATUS_CONFIG, used('status')),
+      priorities: usedOptions(PRIORITY_CONFIG, used('priority')),
+      periods: periods.filter(p => quarters.has(p.key)).map(p => ({ value: p.key, label: periodName(p) })),
+    };
+  }, [nodes, periods, filter]);
+  const matching = useMemo(() => nodes.filter(n => matchesNodeFilter(n.data, filter)).length, [nodes, filter]);
+
+  const setField = (key: string, value: string | null) => {
+    const { [key]: _previous, ...rest } = filter.fields;
+    onChange({ ...filter, fields: value ? { ...rest, [key]: value } : rest });
+  };
+
+  return (
+    <div className="viewer-filter-bar" role="toolbar" aria-label="Filter nodes">
+      <label className="filter-search">
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <circle cx="11" cy="11" r="7"/><path d="M21 21l-4.35-4.35"/>
+        </svg>
+        <input
+          type="search"
+          value={filter.search}
+          onChange={(e) => onChange({ ...filter, search: e.target.value })}
+          placeholder="Search titles and descriptions"
+          aria-label="Search nodes"
+        />
+      </label>
+      <FilterSelect
+        label="Category"
+        value={filter.category}
+        options={options.categories}
+        onChange={(category) => onChange({ ...filter, category: category as NodeFilter['category'] })}
+      />
+      <FilterSelect
+        label="Status"
+        value={filter.status}
+        options={options.statuses}
+        onChange={(status) => onChange({ ...filter, status: status as NodeFilter['status'] })}
+      />
+      <FilterSelect
+        label="Priority"
+        value={filter.priority}
+        options={options.priorities}
+        onChange={(priority) => onChange({ ...filter, priority: priority as NodeFilter['priority'] })}
+      />
+      <FilterSelect
+        label="Period"
+        value={filter.quarter}
+        options={options.periods}
+        onChange={(quarter) => onChange({ ...filter, quarter })}
+      />
+      {owners.length > 0 && (
+        <FilterSelect
+          label="Owner"
+          value={filter.owner}
+          options={asOptions(owners)}
+          onChange={(owner) => onChange({ ...filter, owner })}
+        />
+      )}
+      {tags.length > 0 && (
+        <FilterSelect
+          label="Tag"
+          value={filter.tag}
+          options={asOptions(tags)}
+          onChange={(tag) => onChange({ ...filter, tag })}
+        />
+      )}
+      {fields.map(({ field, values }) => (
+        <FilterSelect
+          key={field.key}
+          label={field.label}
+          value={filter.fields[field.key] ?? null}
+          options={asOptions(values)}
+          onChange={(value) => setField(field.key, value)}
+        />
+      ))}
+      {isNodeFilterActive(filter) && (
+        <>
+          <span className="filter-count">{matching} of {nodes.length} match</span>
+          <button className="filter-clear" onClick={() => onChange(EMPTY_NODE_FILTER)}>Clear</button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ViewerFilterBar;
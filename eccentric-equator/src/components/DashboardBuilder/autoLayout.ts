@@ -0,0 +1,239 @@
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+import type { StrategyNodeData, NodeCategory, EdgeType } from './types';
+import { resolveEdgeType } from './types';
+import { quarterCenterX } from './quarters';
+import { periodIndex } from './periods';
+import { ORDERING_EDGE_TYPES, MITIGATION_EDGE_TYPES } from './graphRules';
+
+/**
+ * Layered layout for strategy roadmaps. Periods are the layers: every node
+ * goes to the center of its period column, and the order within a column is
+ * chosen to follow dependency edges with as few crossings as possible.
+ * Risks are stacked directly under the control that mitigates them.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+export interface AutoLayoutOptions {
+  // y of the first row in every column
+  top?: number;
+  // Vertical gap between stacked nodes
+  rowGap?: number;
+  // Tighter gap between a control and the risks grouped under it
+  groupGap?: number;
+  // Barycenter passes over the columns (alternating direction)
+  sweeps?: number;
+}
+
+const DEFAULT_OPTIONS: Required<AutoLayoutOptions> = {
+  top: 80,
+  rowGap: 32,
+  groupGap: 12,
+  sweeps: 8,
+};
+
+// Used until React Flow has measured a node
+const DEFAULT_NODE_HEIGHT = 128;
+
+
+// Initial stacking within a column, before edges are taken into account
+const CATEGORY_ORDER: NodeCategory[] = ['objective', 'initiative', 'milestone', 'control', 'risk', 'metric'];
+
+interface LayoutLink {
+  source: string;
+  target: string;
+  ordering: boolean;
+  // Pull on the barycenter; mitigations pull hardest so risks sit near their controls
+  weight: number;
+}
+
+function layoutLinks(nodes: StrategyNode[], edges: Edge[]): LayoutLink[] {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  return edges.flatMap(edge => {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!source || !target || source === target) return [];
+    const type = resolveEdgeType((edge.data as { type?: EdgeType } | undefined)?.type, source.data.category);
+    const ordering = ORDERING_EDGE_TYPES.includes(type);
+    const weight = MITIGATION_EDGE_TYPES.includes(type) ? 3 : ordering ? 1 : 0.5;
+    return [{ source: source.id, target: target.id, ordering, weight }];
+  });
+}
+
+// Risk id -> the control it is grouped under (first mitigation link wins)
+function mitigatingControls(nodes: StrategyNode[], edges: Edge[]): Map<string, string> {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const controls = new Map<string, string>();
+  edges.forEach(edge => {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!source || !target) return;
+    const type = resolveEdgeType((edge.data as { type?: EdgeType } | undefined)?.type, source.data.category);
+    if (!MITIGATION_EDGE_TYPES.includes(type)) return;
+    const risk = [source, target].find(n => n.data.category === 'risk');
+    const control = [source, target].find(n => n.data.category === 'control');
+    if (risk && control && !controls.has(risk.id)) controls.set(risk.id, control.id);
+  });
+  return controls;
+}
+
+// Longest chain of ordering edges leading to each node within its own column
+function columnDepths(nodes: StrategyNode[], links: LayoutLink[]): Map<string, number> {
+  const quarterOf = new Map(nodes.map(n => [n.id, n.data.quarter]));
+  const predecessors = new Map<string, string[]>();
+  links.forEach(link => {
+    if (!link.ordering || quarterOf.get(link.source) !== quarterOf.get(link.target)) return;
+    predecessors.set(link.target, [...(predecessors.get(link.target) ?? []), link.source]);
+  });
+
+  const depths = new Map<string, number>();
+  const visiting = new Set<string>();
+  const depthOf = (id: string): number => {
+    const known = depths.get(id);
+    if (known !== undefined) return known;
+    // Cycles are broken where they are found
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const depth = Math.max(0, ...(predecessors.get(id) ?? []).map(p => depthOf(p) + 1));
+    visiting.delete(id);
+    depths.set(id, depth);
+    return depth;
+  };
+  nodes.forEach(n => depthOf(n.id));
+  return depths;
+}
+
+function indexMap(columns: string[][]): Map<string, { column: number; index: number }> {
+  const positions = new Map<string, { column: number; index: number }>();
+  columns.forEach((ids, column) => ids.forEach((id, index) => positions.set(id, { column, index })));
+  return positions;
+}
+
+// Links spanning the same pair of columns cross when their endpoints are in opposite order
+function countCrossings(columns: string[][], links: LayoutLink[]): number {
+  const positions = indexMap(columns);
+  const spans = links.flatMap(link => {
+    const a = positions.get(link.source);
+    const b = positions.get(link.target);
+    if (!a || !b || a.column === b.column) return [];
+    return [a.column < b.column ? [a.column, a.index, b.column, b.index] : [b.column, b.index, a.column, a.index]];
+  });
+
+  let crossings = 0;
+  for (let i = 0; i < spans.length; i++) {
+    for (let j = i + 1; j < spans.length; j++) {
+      const [c1, i1, c2, i2] = spans[i];
+      const [d1, j1, d2, j2] = spans[j];
+      if (c1 === d1 && c2 === d2 && (i1 - j1) * (i2 - j2) < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+// Period keys in use, in timeline order
+function columnKeys(nodes: StrategyNode[]): string[] {
+  return [...new Set(nodes.map(n => n.data.quarter))].sort((a, b) => periodIndex(a) - periodIndex(b));
+}
+
+function orderColumns(nodes: StrategyNode[], keys: string[], links: LayoutLink[], sweeps: number): string[][] {
+  const depths = columnDepths(nodes, links);
+  const columns = keys.map(quarter => nodes
+    .filter(n => n.data.quarter === quarter)
+    .sort((a, b) =>
+      (depths.get(a.id) ?? 0) - (depths.get(b.id) ?? 0) ||
+      CATEGORY_ORDER.indexOf(a.data.category) - CATEGORY_ORDER.indexOf(b.data.category) ||
+      a.position.y - b.position.y)
+    .map(n => n.id));
+
+  const neighbours = new Map<string, { id: string; weight: number }[]>();
+  links.forEach(({ source, target, weight }) => {
+    neighbours.set(source, [...(neighbours.get(source) ?? []), { id: target, weight }]);
+    neighbours.set(target, [...(neighbours.get(target) ?? []), { id: source, weight }]);
+  });
+
+  // Reorder one column by the weighted mean position of its neighbours in other columns
+  const reorder = (column: number) => {
+    const positions = indexMap(columns);
+    const barycenter = (id: string, fallback: number) => {
+      let total = 0;
+      let weights = 0;
+      (neighbours.get(id) ?? []).forEach(({ id: other, weight }) => {
+        const position = positions.get(other);
+        if (!position || position.column === column) return;
+        total += position.index * weight;
+        weights += weight;
+      });
+      return weights > 0 ? total / weights : fallback;
+    };
+    const keyed = columns[column].map((id, index) => ({ id, depth: depths.get(id) ?? 0, key: barycenter(id, index) }));
+    // Within-column dependencies still come first; the barycenter breaks ties
+    keyed.sort((a, b) => a.depth - b.depth || a.key - b.key);
+    columns[column] = keyed.map(k => k.id);
+  };
+
+  let best = columns.map(c => [...c]);
+  let bestCrossings = countCrossings(best, links);
+  for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+    // Left to right then right to left, each ending on the column it skipped
+    const forward = columns.map((_, i) => i);
+    const order = sweep % 2 === 0 ? [...forward.slice(1), 0] : [...forward.slice(0, -1).reverse(), columns.length - 1];
+    order.forEach(reorder);
+    const crossings = countCrossings(columns, links);
+    if (crossings < bestCrossings) {
+      best = columns.map(c => [...c]);
+      bestCrossings = crossings;
+    }
+  }
+  return best;
+}
+
+// Move each risk directly below its mitigating control when both share a column
+function groupRisks(column: string[], controlOf: Map<string, string>): string[] {
+  const grouped = column.filter(id => !(controlOf.has(id) && column.includes(controlOf.get(id)!)));
+  column.forEach(id => {
+    const control = controlOf.get(id);
+    if (!control || !column.includes(control)) return;
+    // After the control and any risks already grouped under it
+    let at = grouped.indexOf(control) + 1;
+    while (at < grouped.length && controlOf.get(grouped[at]) === control) at++;
+    grouped.splice(at, 0, id);
+  });
+  return grouped;
+}
+
+export function computeAutoLayout(
+  nodes: StrategyNode[],
+  edges: Edge[],
+  options: AutoLayoutOptions = {}
+): Map<string, XYPosition> {
+  const { top, rowGap, groupGap, sweeps } = { ...DEFAULT_OPTIONS, ...options };
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const links = layoutLinks(nodes, edges);
+  const controlOf = mitigatingControls(nodes, edges);
+  const positions = new Map<string, XYPosition>();
+
+  const keys = columnKeys(nodes);
+  orderColumns(nodes, keys, links, sweeps).forEach((column, index) => {
+    const x = quarterCenterX(keys[index]);
+    let y = top;
+    groupRisks(column, controlOf).forEach((id, row, ids) => {
+      const node = byId.get(id)!;
+      positions.set(id, { x, y });
+      const next = ids[row + 1];
+      const nextControl = next !== undefined ? controlOf.get(next) : undefined;
+      const grouped = nextControl !== undefined && ids.includes(nextControl) &&
+        (nextControl === id || nextControl === controlOf.get(id));
+      y += (node.height ?? node.measured?.height ?? DEFAULT_NODE_HEIGHT) + (grouped ? groupGap : rowGap);
+    });
+  });
+
+  return positions;
+}
+
+export function autoLayout(nodes: StrategyNode[], edges: Edge[], options?: AutoLayoutOptions): StrategyNode[] {
+  const positions = computeAutoLayout(nodes, edges, options);
+  return nodes.map(n => {
+    const position = positions.get(n.id);
+    return position ? { ...n, position } : n;
+  });
+}
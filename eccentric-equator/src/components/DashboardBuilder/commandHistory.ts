@@ -0,0 +1,331 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData, Quarter, EdgeType } from './types';
+import type { DashboardSettings } from './dashboardStorage';
+
+/**
+ * Reversible editing commands for the dashboard editor. Every edit is a plain,
+ * serialisable command so the undo stack can be persisted with the draft it
+ * belongs to and replayed after a reload.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+export interface EditorGraph {
+  nodes: StrategyNode[];
+  edges: Edge[];
+  // Dashboard-wide settings edited alongside the graph (custom fields, timeline)
+  settings?: DashboardSettings;
+}
+
+export interface NodePlacement {
+  x: number;
+  y: number;
+  quarter: Quarter;
+  lane?: string;
+}
+
+export interface NodeMove {
+  id: string;
+  from: NodePlacement;
+  to: NodePlacement;
+}
+
+export interface NodeBox {
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+}
+
+export type EditorCommand =
+  | { type: 'addNodes'; nodes: StrategyNode[]; edges: Edge[] }
+  // Removing nodes also removes (and on undo restores) their connections
+  | { type: 'removeNodes'; nodes: StrategyNode[]; edges: Edge[] }
+  | { type: 'moveNodes'; moves: NodeMove[] }
+  | { type: 'resizeNode'; id: string; from: NodeBox; to: NodeBox }
+  | { type: 'updateNode'; id: string; before: Partial<StrategyNodeData>; after: Partial<StrategyNodeData> }
+  | { type: 'connect'; edges: Edge[] }
+  | { type: 'disconnect'; edges: Edge[] }
+  | { type: 'changeEdgeType'; id: string; from?: EdgeType; to?: EdgeType }
+  | { type: 'updateSettings'; before: DashboardSettings; after: DashboardSettings }
+  | { type: 'batch'; label: string; commands: EditorCommand[] };
+
+export interface HistoryEntry {
+  command: EditorCommand;
+  // Epoch ms of the last edit folded into this entry; 0 once undone/redone
+  at: number;
+}
+
+export interface CommandHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: CommandHistory = { past: [], future: [] };
+
+export const HISTORY_LIMIT = 100;
+
+// Consecutive edits of the same thing within this window undo as one step
+export const COALESCE_WINDOW_MS = 1000;
+
+// Selection and drag flags are view state, not content
+function snapshotNode({ selected, dragging, resizing, ...node }: StrategyNode): StrategyNode {
+  return node;
+}
+
+function snapshotEdge({ selected, ...edge }: Edge): Edge {
+  return edge;
+}
+
+export function addNodesCommand(nodes: StrategyNode[], edges: Edge[] = []): EditorCommand {
+  return { type: 'addNodes', nodes: nodes.map(snapshotNode), edges: edges.map(snapshotEdge) };
+}
+
+export function removeNodesCommand(nodes: StrategyNode[], edges: Edge[] = []): EditorCommand {
+  return { type: 'removeNodes', nodes: nodes.map(snapshotNode), edges: edges.map(snapshotEdge) };
+}
+
+export function connectCommand(edges: Edge[]): EditorCommand {
+  return { type: 'connect', edges: edges.map(snapshotEdge) };
+}
+
+export function disconnectCommand(edges: Edge[]): EditorCommand {
+  return { type: 'disconnect', edges: edges.map(snapshotEdge) };
+}
+
+export function placementOf(node: StrategyNode): NodePlacement {
+  return { x: node.position.x, y: node.position.y, quarter: node.data.quarter, lane: node.data.lane };
+}
+
+export function boxOf(node: StrategyNode): NodeBox {
+  return {
+    x: node.position.x,
+    y: node.position.y,
+    width: node.width ?? node.measured?.width,
+    height: node.height ?? node.measured?.height,
+  };
+}
+
+export function invertCommand(command: EditorCommand): EditorCommand {
+  switch (command.type) {
+    case 'addNodes':
+      return { ...command, type: 'removeNodes' };
+    case 'removeNodes':
+      return { ...command, type: 'addNodes' };
+    case 'connect':
+      return { ...command, type: 'disconnect' };
+    case 'disconnect':
+      return { ...command, type: 'connect' };
+    case 'moveNodes':
+      return { type: 'moveNodes', moves: command.moves.map(m => ({ id: m.id, from: m.to, to: m.from })) };
+    case 'resizeNode':
+      return { ...command, from: command.to, to: command.from };
+    case 'updateNode':
+      return { ...command, before: command.after, after: command.before };
+    case 'changeEdgeType':
+      return { ...command, from: command.to, to: command.from };
+    case 'updateSettings':
+      return { ...command, before: command.after, after: command.before };
+    case 'batch':
+      return { ...command, commands: [...command.commands].reverse().map(invertCommand) };
+  }
+}
+
+// Commands referencing elements that no longer exist are skipped, not errors
+export function applyCommand(graph: EditorGraph, command: EditorCommand): EditorGraph {
+  switch (command.type) {
+    case 'addNodes': {
+      const nodeIds = new Set(graph.nodes.map(n => n.id));
+      const edgeIds = new Set(graph.edges.map(e => e.id));
+      return {
+        ...graph,
+        nodes: [...graph.nodes, ...command.nodes.filter(n => !nodeIds.has(n.id))],
+        edges: [...graph.edges, ...command.edges.filter(e => !edgeIds.has(e.id))],
+      };
+    }
+    case 'removeNodes': {
+      const nodeIds = new Set(command.nodes.map(n => n.id));
+      const edgeIds = new Set(command.edges.map(e => e.id));
+      return {
+        ...graph,
+        nodes: graph.nodes.filter(n => !nodeIds.has(n.id)),
+        edges: graph.edges.filter(e => !edgeIds.has(e.id) && !nodeIds.has(e.source) && !nodeIds.has(e.target)),
+      };
+    }
+    case 'connect': {
+      const nodeIds = new Set(graph.nodes.map(n => n.id));
+      const edgeIds = new Set(graph.edges.map(e => e.id));
+      const added = command.edges.filter(e => !edgeIds.has(e.id) && nodeIds.has(e.source) && nodeIds.has(e.target));
+      return { ...graph, edges: [...graph.edges, ...added] };
+    }
+    case 'disconnect': {
+      const edgeIds = new Set(command.edges.map(e => e.id));
+      return { ...graph, edges: graph.edges.filter(e => !edgeIds.has(e.id)) };
+    }
+    case 'moveNodes': {
+      const moves = new Map(command.moves.map(m => [m.id, m.to]));
+      return {
+        ...graph,
+        nodes: graph.nodes.map(n => {
+          const to = moves.get(n.id);
+          return to ? { ...n, position: { x: to.x, y: to.y }, data: { ...n.data, quarter: to.quarter, lane: to.lane } } : n;
+        }),
+      };
+    }
+    case 'resizeNode': {
+      const { x, y, width, height } = command.to;
+      return {
+        ...graph,
+        nodes: graph.nodes.map(n => (n.id === command.id ? { ...n, position: { x, y }, width, height } : n)),
+      };
+    }
+    case 'updateNode':
+      return {
+        ...graph,
+        nodes: graph.nodes.map(n => (n.id === command.id ? { ...n, data: { ...n.data, ...command.after } } : n)),
+      };
+    case 'changeEdgeType':
+      return {
+        ...graph,
+        edges: graph.edges.map(e => (e.id === command.id ? { ...e, data: { ...e.data, type: command.to } } : e)),
+      };
+    case 'updateSettings':
+      return { ...graph, settings: command.after };
+    case 'batch':
+      return command.commands.reduce(applyCommand, graph);
+  }
+}
+
+export function describeCommand(command: EditorCommand): string {
+  const plural = (count: number, noun: string) => (count === 1 ? noun : `${count} ${noun}s`);
+  switch (command.type) {
+    case 'addNodes':
+      return `add ${plural(command.nodes.length, 'node')}`;
+    case 'removeNodes':
+      return `delete ${plural(command.nodes.length, 'node')}`;
+    case 'moveNodes':
+      return `move ${plural(command.moves.length, 'node')}`;
+    case 'resizeNode':
+      return 'resize node';
+    case 'updateNode':
+      return `edit ${Object.keys(command.after).join(', ') || 'node'}`;
+    case 'connect':
+      return `add ${plural(command.edges.length, 'connection')}`;
+    case 'disconnect':
+      return `delete ${plural(command.edges.length, 'connection')}`;
+    case 'changeEdgeType':
+      return 'change connection type';
+    case 'updateSettings':
+      return 'edit dashboard settings';
+    case 'batch':
+      return command.label;
+  }
+}
+
+function sameKeys(a: object, b: object): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => key in b);
+}
+
+// Folds `next` into `previous` when both touch the same element(s), e.g. typing a title
+function coalesce(previous: EditorCommand, next: EditorCommand): EditorCommand | null {
+  if (previous.type === 'updateNode' && next.type === 'updateNode') {
+    if (previous.id !== next.id || !sameKeys(previous.after, next.after)) return null;
+    return { ...next, before: previous.before };
+  }
+  if (previous.type === 'moveNodes' && next.type === 'moveNodes') {
+    const from = new Map(previous.moves.map(m => [m.id, m.from]));
+    if (from.size !== next.moves.length || next.moves.some(m => !from.has(m.id))) return null;
+    return { type: 'moveNodes', moves: next.moves.map(m => ({ ...m, from: from.get(m.id)! })) };
+  }
+  if (previous.type === 'updateSettings' && next.type === 'updateSettings') {
+    return { ...next, before: previous.before };
+  }
+  return null;
+}
+
+export function recordCommand(history: CommandHistory, command: EditorCommand, now = Date.now()): CommandHistory {
+  const last = history.past[history.past.length - 1];
+  if (last && last.at > 0 && now - last.at <= COALESCE_WINDOW_MS) {
+    const merged = coalesce(last.command, command);
+    if (merged) {
+      return { past: [...history.past.slice(0, -1), { command: merged, at: now }], future: [] };
+    }
+  }
+  return {
+    past: [...history.past, { command, at: now }].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+// Returns the command to apply to the graph (already inverted for undo)
+export function undoCommand(history: CommandHistory): { history: CommandHistory; command: EditorCommand } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [{ ...entry, at: 0 }, ...history.future] },
+    command: invertCommand(entry.command),
+  };
+}
+
+export function redoCommand(history: CommandHistory): { history: CommandHistory; command: EditorCommand } | null {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future },
+    command: entry.command,
+  };
+}
+
+// --- Draft persistence ---
+
+export interface EditorDraft {
+  // Saved version the draft was edited from; null for a dashboard never saved
+  baseVersion: number | null;
+  name: string;
+  description: string;
+  settings?: DashboardSettings;
+  nodes: StrategyNode[];
+  edges: Edge[];
+  dirty: boolean;
+  history: CommandHistory;
+}
+
+const DRAFT_KEY_PREFIX = 'hackfluency_editor_draft:';
+
+// Unsaved dashboards share one draft slot
+export const NEW_DRAFT_KEY = 'new';
+
+export function loadEditorDraft(draftKey: string): EditorDraft | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const data = localStorage.getItem(DRAFT_KEY_PREFIX + draftKey);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Error reading editor draft:', error);
+    return null;
+  }
+}
+
+export function saveEditorDraft(draftKey: string, draft: EditorDraft): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(DRAFT_KEY_PREFIX + draftKey, JSON.stringify({
+      ...draft,
+      nodes: draft.nodes.map(snapshotNode),
+      edges: draft.edges.map(snapshotEdge),
+    }));
+  } catch (error) {
+    // Quota errors only cost the ability to undo after a reload
+    console.error('Error writing editor draft:', error);
+  }
+}
+
+export function clearEditorDraft(draftKey: string): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.removeItem(DRAFT_KEY_PREFIX + draftKey);
+  } catch (error) {
+    console.error('Error clearing editor draft:', error);
+  }
+}
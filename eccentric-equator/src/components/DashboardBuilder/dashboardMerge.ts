@@ -0,0 +1,190 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData } from './types';
+import type { DashboardSettings } from './dashboardStorage';
+
+type StrategyNode = Node<StrategyNodeData>;
+
+interface GraphContent {
+  nodes: StrategyNode[];
+  edges: Edge[];
+}
+
+interface DashboardMetadata {
+  name: string;
+  description: string;
+  settings?: DashboardSettings;
+}
+
+export interface MergeConflict {
+  kind: 'node' | 'edge' | 'dashboard';
+  id: string;
+  // Conflicting field (e.g. "data.status", "position"); undefined for add/delete conflicts
+  field?: string;
+  resolution: 'local' | 'remote';
+  message: string;
+}
+
+export interface MergeResult extends GraphContent {
+  conflicts: MergeConflict[];
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Field-level merge of two records that both changed since base. Local wins ties.
+function mergeFields(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>,
+  prefix: string,
+  onConflict: (field: string) => void
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+
+  keys.forEach(key => {
+    const b = base[key];
+    const l = local[key];
+    const r = remote[key];
+    let value: unknown;
+    if (isEqual(l, r) || isEqual(r, b)) {
+      value = l;
+    } else if (isEqual(l, b)) {
+      value = r;
+    } else {
+      value = l;
+      onConflict(`${prefix}${key}`);
+    }
+    if (value !== undefined) merged[key] = value;
+  });
+
+  return merged;
+}
+
+function mergeCollection<T extends { id: string }>(
+  kind: MergeConflict['kind'],
+  base: T[],
+  local: T[],
+  remote: T[],
+  conflicts: MergeConflict[],
+  mergeItem: (b: T, l: T, r: T, onConflict: (field: string) => void) => T
+): T[] {
+  const baseById = new Map(base.map(item => [item.id, item]));
+  const localById = new Map(local.map(item => [item.id, item]));
+  const remoteById = new Map(remote.map(item => [item.id, item]));
+  const label = kind === 'node' ? 'Node' : 'Edge';
+
+  // Keep local ordering, then append items only the remote side has
+  const ids = [...local.map(i => i.id), ...remote.map(i => i.id).filter(id => !localById.has(id))];
+  const merged: T[] = [];
+
+  ids.forEach(id => {
+    const b = baseById.get(id);
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+
+    if (!b) {
+      // Added on one or both sides
+      if (l && r && !isEqual(l, r)) {
+        conflicts.push({ kind, id, resolution: 'local', message: `${label} "${id}" was added on both sides with different content` });
+      }
+      merged.push((l ?? r)!);
+      return;
+    }
+
+    if (!l || !r) {
+      // Deleted on at least one side
+      const survivor = l ?? r;
+      if (!survivor) return;
+      if (isEqual(survivor, b)) return; // unchanged on the other side: honour the delete
+      conflicts.push({
+        kind,
+        id,
+        resolution: l ? 'local' : 'remote',
+        message: `${label} "${id}" was deleted on one side and edited on the other; kept the edited copy`,
+      });
+      merged.push(survivor);
+      return;
+    }
+
+    if (isEqual(l, r) || isEqual(r, b)) {
+      merged.push(l);
+    } else if (isEqual(l, b)) {
+      merged.push(r);
+    } else {
+      merged.push(mergeItem(b, l, r, (field) => conflicts.push({
+        kind,
+        id,
+        field,
+        resolution: 'local',
+        message: `${label} "${id}" ${field} changed on both sides; kept your change`,
+      })));
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Three-way merge of dashboard content. `base` is the version both sides
+ * started from, `local` the pending edit and `remote` what is stored now.
+ * Non-overlapping changes are combined; overlapping field changes keep the
+ * local value and are reported as conflicts.
+ */
+export function mergeDashboardContent(base: GraphContent, local: GraphContent, remote: GraphContent): MergeResult {
+  const conflicts: MergeConflict[] = [];
+
+  const nodes = mergeCollection('node', base.nodes, local.nodes, remote.nodes, conflicts, (b, l, r, onConflict) => {
+    const { data: bData, ...bRest } = b;
+    const { data: lData, ...lRest } = l;
+    const { data: rData, ...rRest } = r;
+    const rest = mergeFields(bRest, lRest, rRest, '', onConflict);
+    const data = mergeFields(bData, lData, rData, 'data.', onConflict);
+    return { ...rest, data } as StrategyNode;
+  });
+
+  const mergedIds = new Set(nodes.map(n => n.id));
+  const edges = mergeCollection('edge', base.edges, local.edges, remote.edges, conflicts, (b, l, r, onConflict) =>
+    mergeFields(b, l, r, '', onConflict) as unknown as Edge
+  ).filter(edge => mergedIds.has(edge.source) && mergedIds.has(edge.target));
+
+  return { nodes, edges, conflicts };
+}
+
+/**
+ * Three-way merge of name, description and settings, each settings section
+ * (periods, lanes, …) on its own. Overlapping changes keep the local value.
+ */
+export function mergeDashboardMetadata(
+  base: DashboardMetadata,
+  local: DashboardMetadata,
+  remote: DashboardMetadata
+): { metadata: DashboardMetadata; conflicts: MergeConflict[] } {
+  const conflicts: MergeConflict[] = [];
+  const onConflict = (field: string) => conflicts.push({
+    kind: 'dashboard',
+    id: field,
+    field,
+    resolution: 'local',
+    message: `Dashboard ${field} changed on both sides; kept your change`,
+  });
+  const { name, description } = mergeFields(
+    { name: base.name, description: base.description },
+    { name: local.name, description: local.description },
+    { name: remote.name, description: remote.description },
+    '',
+    onConflict
+  ) as Pick<DashboardMetadata, 'name' | 'description'>;
+  const settings = mergeFields(
+    { ...base.settings },
+    { ...local.settings },
+    { ...remote.settings },
+    'settings.',
+    onConflict
+  ) as DashboardSettings;
+  return {
+    metadata: { name, description, settings: Object.keys(settings).length > 0 ? settings : undefined },
+    conflicts,
+  };
+}
@@ -0,0 +1,93 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SavedDashboard } from './dashboardStorage';
+import type { DashboardRow } from './dashboardSchema';
+import { dashboardFromRow } from './dashboardSchema';
+
+export interface ViewerPresence {
+  // Stable per browser tab; signed-in users and guests alike
+  viewerId: string;
+  name: string;
+  joinedAt: string;
+}
+
+export interface DashboardSubscriptionHandlers {
+  onChange: (dashboard: SavedDashboard) => void;
+  onPresence: (viewers: ViewerPresence[]) => void;
+}
+
+/**
+ * Live updates for a single open dashboard: row changes plus the list of
+ * everyone currently viewing it. Returns an unsubscribe function.
+ */
+export interface DashboardRealtime {
+  subscribe(dashboardId: string, self: ViewerPresence, handlers: DashboardSubscriptionHandlers): () => void;
+}
+
+// Supabase Realtime: postgres_changes on `dashboards` plus a presence channel per dashboard
+export function createSupabaseRealtime(client: SupabaseClient): DashboardRealtime {
+  return {
+    subscribe(dashboardId, self, { onChange, onPresence }) {
+      const channel = client.channel(`dashboard:${dashboardId}`, {
+        config: { presence: { key: self.viewerId } },
+      });
+
+      channel
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'dashboards', filter: `id=eq.${dashboardId}` },
+          (payload) => onChange(dashboardFromRow(payload.new as DashboardRow))
+        )
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState<ViewerPresence>();
+          // One entry per viewer, even with several connections under the same key
+          onPresence(Object.values(state).map(entries => entries[0]).filter(Boolean));
+        })
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            channel.track(self).catch(error => console.error('Error tracking presence:', error));
+          } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            console.warn(`Realtime channel for dashboard ${dashboardId}: ${status}`);
+          }
+        });
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+export interface InMemoryRealtime extends DashboardRealtime {
+  // Simulate a saved row change, as the database would broadcast it
+  publish(dashboard: SavedDashboard): void;
+}
+
+// In-process stand-in for Supabase Realtime, for local development and tests
+export function createInMemoryRealtime(): InMemoryRealtime {
+  const subscribers = new Map<string, Set<{ self: ViewerPresence; handlers: DashboardSubscriptionHandlers }>>();
+
+  const syncPresence = (dashboardId: string) => {
+    const entries = [...(subscribers.get(dashboardId) ?? [])];
+    const viewers = [...new Map(entries.map(e => [e.self.viewerId, e.self])).values()];
+    entries.forEach(e => e.handlers.onPresence(viewers));
+  };
+
+  return {
+    subscribe(dashboardId, self, handlers) {
+      const entry = { self, handlers };
+      const entries = subscribers.get(dashboardId) ?? new Set();
+      entries.add(entry);
+      subscribers.set(dashboardId, entries);
+      syncPresence(dashboardId);
+
+      return () => {
+        entries.delete(entry);
+        syncPresence(dashboardId);
+      };
+    },
+
+    publish(dashboard) {
+      subscribers.get(dashboard.id)?.forEach(e => e.handlers.onChange(structuredClone(dashboard)));
+    },
+  };
+}
@@ -0,0 +1,334 @@
+import type {
+  SavedDashboard,
+  DashboardVersion,
+  DashboardDraft,
+  DashboardUpdates,
+} from './dashboardStorage';
+import {
+  createDashboardRecord,
+  applyDashboardUpdate,
+  assertExpectedVersion,
+  assertDeletable,
+  DashboardConflictError,
+  markPublished,
+  markArchived,
+  markRestored,
+  markTrashed,
+  markUntrashed,
+  isTrashExpired,
+  TRASH_RETENTION_DAYS,
+  createVersionEntry,
+  createLocalStorageStore,
+  versionContent,
+} from './dashboardStorage';
+import type { StoredVersion, VersionRetention } from './versionHistory';
+import {
+  appendVersion,
+  resolveVersion,
+  resolveVersions,
+  DEFAULT_VERSION_RETENTION,
+} from './versionHistory';
+import type { MergeConflict } from './dashboardMerge';
+import { mergeDashboardContent, mergeDashboardMetadata } from './dashboardMerge';
+
+export class DashboardRepositoryError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'DashboardRepositoryError';
+  }
+}
+
+export interface WriteOptions {
+  // Version the caller last saw; stale writes reject with DashboardConflictError
+  expectedVersion?: number;
+}
+
+/**
+ * Single async API for dashboard persistence. Every backend (localStorage,
+ * IndexedDB, Supabase, in-memory) implements it so callers never talk to a
+ * storage technology directly.
+ */
+export interface DashboardRepository {
+  list(): Promise<SavedDashboard[]>;
+  get(id: string): Promise<SavedDashboard | null>;
+  create(draft: DashboardDraft): Promise<SavedDashboard>;
+  update(id: string, updates: DashboardUpdates, options?: WriteOptions): Promise<SavedDashboard | null>;
+  publish(id: string, options?: WriteOptions): Promise<SavedDashboard | null>;
+  archive(id: string, options?: WriteOptions): Promise<SavedDashboard | null>;
+  restore(id: string, options?: WriteOptions): Promise<SavedDashboard | null>;
+  // Soft delete: recoverable with restoreFromTrash until purged
+  trash(id: string, options?: WriteOptions): Promise<SavedDashboard | null>;
+  restoreFromTrash(id: string, options?: WriteOptions): Promise<SavedDashboard | null>;
+  // Permanent: removes a trashed dashboard and its whole version history.
+  // Rejects with DashboardConflictError once it has left the trash.
+  delete(id: string, options?: WriteOptions): Promise<boolean>;
+  listVersions(dashboardId: string): Promise<DashboardVersion[]>;
+  getVersion(dashboardId: string, version: number): Promise<DashboardVersion | null>;
+  // Roll back to a version; recorded as a new version, never a destructive overwrite
+  restoreVersion(dashboardId: string, version: number, options?: WriteOptions): Promise<SavedDashboard | null>;
+  // Create a new draft dashboard from a version
+  forkVersion(dashboardId: string, version: number, newName?: string): Promise<SavedDashboard | null>;
+}
+
+type VersionOperations = Pick<DashboardRepository, 'restoreVersion' | 'forkVersion'>;
+
+// restoreVersion/forkVersion expressed through the core repository methods
+export function createVersionOperations(
+  repository: Omit<DashboardRepository, keyof VersionOperations>
+): VersionOperations {
+  return {
+    async restoreVersion(dashboardId, version, options) {
+      const snapshot = await repository.getVersion(dashboardId, version);
+      if (!snapshot) return null;
+      return repository.update(dashboardId, versionContent(snapshot), options);
+    },
+
+    async forkVersion(dashboardId, version, newName) {
+      const [original, snapshot] = await Promise.all([
+        repository.get(dashboardId),
+        repository.getVersion(dashboardId, version),
+      ]);
+      if (!original || !snapshot) return null;
+
+      return repository.create({
+        name: newName || `${original.name} (v${version})`,
+        description: original.description,
+        settings: snapshot.settings ?? original.settings,
+        nodes: snapshot.nodes,
+        edges: snapshot.edges,
+      });
+    },
+  };
+}
+
+/**
+ * Raw collection storage used by the local backends. Implementations only
+ * read and write whole collections; all dashboard rules live in
+ * createStoreRepository so local backends cannot drift apart.
+ */
+export interface DashboardStore {
+  readDashboards(): Promise<SavedDashboard[]>;
+  writeDashboards(dashboards: SavedDashboard[]): Promise<void>;
+  readVersions(): Promise<StoredVersion[]>;
+  writeVersions(versions: StoredVersion[]): Promise<void>;
+}
+
+export interface StoreRepositoryOptions {
+  retention?: VersionRetention;
+}
+
+// Build a repository on top of any collection store
+export function createStoreRepository(
+  store: DashboardStore,
+  { retention = DEFAULT_VERSION_RETENTION }: StoreRepositoryOptions = {}
+): DashboardRepository {
+  const transition = async (
+    id: string,
+    apply: (dashboard: SavedDashboard) => SavedDashboard,
+    { expectedVersion }: WriteOptions = {}
+  ): Promise<SavedDashboard | null> => {
+    const dashboards = await store.readDashboards();
+    const index = dashboards.findIndex(d => d.id === id);
+    if (index === -1) return null;
+
+    assertExpectedVersion(dashboards[index], expectedVersion);
+    dashboards[index] = apply(dashboards[index]);
+    await store.writeDashboards(dashboards);
+    return dashboards[index];
+  };
+
+  const addVersion = async (dashboard: SavedDashboard): Promise<void> => {
+    const versions = await store.readVersions();
+    await store.writeVersions(appendVersion(
+      versions,
+      createVersionEntry(dashboard.id, dashboard.version, dashboard.nodes, dashboard.edges, dashboard.settings),
+      retention
+    ));
+  };
+
+  const repository: Omit<DashboardRepository, keyof VersionOperations> = {
+    list: () => store.readDashboards(),
+
+    async get(id) {
+      const dashboards = await store.readDashboards();
+      return dashboards.find(d => d.id === id) || null;
+    },
+
+    async create(draft) {
+      const dashboard = createDashboardRecord(draft);
+      const dashboards = await store.readDashboards();
+      await store.writeDashboards([...dashboards, dashboard]);
+      await addVersion(dashboard);
+      return dashboard;
+    },
+
+    async update(id, updates, { expectedVersion } = {}) {
+      const dashboards = await store.readDashboards();
+      const index = dashboards.findIndex(d => d.id === id);
+      if (index === -1) return null;
+
+      assertExpectedVersion(dashboards[index], expectedVersion);
+      const { dashboard, contentChanged } = applyDashboardUpdate(dashboards[index], updates);
+      dashboards[index] = dashboard;
+      await store.writeDashboards(dashboards);
+      if (contentChanged) await addVersion(dashboard);
+      return dashboard;
+    },
+
+    publish: (id, options) => transition(id, d => markPublished(d), options),
+    archive: (id, options) => transition(id, d => markArchived(d), options),
+    restore: (id, options) => transition(id, d => markRestored(d), options),
+    trash: (id, options) => transition(id, d => markTrashed(d), options),
+    restoreFromTrash: (id, options) => transition(id, d => markUntrashed(d), options),
+
+    async delete(id, { expectedVersion } = {}) {
+      const dashboards = await store.readDashboards();
+      const existing = dashboards.find(d => d.id === id);
+      if (!existing) return false;
+
+      assertDeletable(existing, expectedVersion);
+      await store.writeDashboards(dashboards.filter(d => d.id !== id));
+      const versions = await store.readVersions();
+      await store.writeVersions(versions.filter(v => v.dashboardId !== id));
+      return true;
+    },
+
+    async listVersions(dashboardId) {
+      return resolveVersions(await store.readVersions(), dashboardId);
+    },
+
+    async getVersion(dashboardId, version) {
+      return resolveVersion(await store.readVersions(), dashboardId, version);
+    },
+  };
+
+  return { ...repository, ...createVersionOperations(repository) };
+}
+
+// In-memory store; values are cloned so callers cannot mutate stored state
+export function createMemoryStore(
+  initialDashboards: SavedDashboard[] = [],
+  initialVersions: StoredVersion[] = []
+): DashboardStore {
+  let dashboards = structuredClone(initialDashboards);
+  let versions = structuredClone(initialVersions);
+  return {
+    readDashboards: async () => structuredClone(dashboards),
+    writeDashboards: async (next) => {
+      dashboards = structuredClone(next);
+    },
+    readVersions: async () => structuredClone(versions),
+    writeVersions: async (next) => {
+      versions = structuredClone(next);
+    },
+  };
+}
+
+export function createInMemoryRepository(
+  initialDashboards: SavedDashboard[] = [],
+  initialVersions: StoredVersion[] = [],
+  options?: StoreRepositoryOptions
+): DashboardRepository {
+  return createStoreRepository(createMemoryStore(initialDashboards, initialVersions), options);
+}
+
+export function createLocalStorageRepository(): DashboardRepository {
+  return createStoreRepository(createLocalStorageStore());
+}
+
+// Keep in sync with DashboardRepository so deferred repositories forward every method
+const REPOSITORY_METHODS: Record<keyof DashboardRepository, true> = {
+  list: true,
+  get: true,
+  create: true,
+  update: true,
+  publish: true,
+  archive: true,
+  restore: true,
+  trash: true,
+  restoreFromTrash: true,
+  delete: true,
+  listVersions: true,
+  getVersion: true,
+  restoreVersion: true,
+  forkVersion: true,
+};
+
+/**
+ * Repository whose backend is chosen asynchronously (e.g. after probing
+ * IndexedDB). The backend is resolved once, on first use.
+ */
+export function createDeferredRepository(
+  resolve: () => Promise<DashboardRepository>
+): DashboardRepository {
+  let backend: Promise<DashboardRepository> | null = null;
+  const getBackend = () => (backend ??= resolve());
+
+  const repository = {} as Record<keyof DashboardRepository, unknown>;
+  for (const method of Object.keys(REPOSITORY_METHODS) as (keyof DashboardRepository)[]) {
+    repository[method] = async (...args: unknown[]) => {
+      const target = await getBackend();
+      return (target[method] as (...params: unknown[]) => Promise<unknown>)(...args);
+    };
+  }
+  return repository as DashboardRepository;
+}
+
+export interface MergedSaveResult {
+  dashboard: SavedDashboard | null;
+  // True when someone else had saved first and the result combines both sides
+  merged: boolean;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Save edits made on top of `base`, the dashboard as it was loaded. If
+ * someone else saved in the meantime, content, name, description and
+ * settings are three-way merged with what is stored and saved against the
+ * new version.
+ */
+export async function saveWithMerge(
+  repository: DashboardRepository,
+  base: SavedDashboard,
+  changes: Required<Pick<DashboardDraft, 'name' | 'description' | 'nodes' | 'edges'>> & Pick<DashboardDraft, 'settings'>
+): Promise<MergedSaveResult> {
+  try {
+    const dashboard = await repository.update(base.id, changes, { expectedVersion: base.version });
+    return { dashboard, merged: false, conflicts: [] };
+  } catch (error) {
+    if (!(error instanceof DashboardConflictError)) throw error;
+
+    const current = error.current;
+    const content = mergeDashboardContent(base, changes, current);
+    const { metadata, conflicts } = mergeDashboardMetadata(base, changes, current);
+    const dashboard = await repository.update(
+      base.id,
+      { ...metadata, nodes: content.nodes, edges: content.edges },
+      { expectedVersion: current.version }
+    );
+    return { dashboard, merged: true, conflicts: [...content.conflicts, ...conflicts] };
+  }
+}
+
+export interface PurgeTrashOptions {
+  retentionDays?: number;
+  now?: Date;
+}
+
+// Permanently delete trashed dashboards whose retention window has passed; returns purged ids
+export async function purgeExpiredTrash(
+  repository: DashboardRepository,
+  { retentionDays = TRASH_RETENTION_DAYS, now = new Date() }: PurgeTrashOptions = {}
+): Promise<string[]> {
+  const expired = (await repository.list()).filter(d => isTrashExpired(d, now, retentionDays));
+  const purged: string[] = [];
+  for (const dashboard of expired) {
+    try {
+      // Skipped if it was restored or changed since it was listed
+      if (await repository.delete(dashboard.id, { expectedVersion: dashboard.version })) purged.push(dashboard.id);
+    } catch (error) {
+      if (!(error instanceof DashboardConflictError)) throw error;
+    }
+  }
+  return purged;
+}
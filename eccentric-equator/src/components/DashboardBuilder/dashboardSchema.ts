@@ -0,0 +1,748 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { SavedDashboard, DashboardSettings } from './dashboardStorage';
+import type { StrategyNodeData, MetricDirection, CustomFieldType, Quarter } from './types';
+import {
+  CATEGORY_CONFIG,
+  EDGE_TYPE_CONFIG,
+  PRIORITY_CONFIG,
+  STATUS_CONFIG,
+} from './types';
+import { DEFAULT_PERIOD_MODEL, MAX_PERIODS, PERIOD_UNIT_CONFIG, periodKeys, resolvePeriodModel } from './periods';
+
+/**
+ * Versioned JSON interchange format for strategy dashboards.
+ *
+ * Schema history:
+ * - v1: bare SavedDashboard object (localStorage entries, sample-dashboard.json)
+ * - v2: envelope with format marker, schema version and export timestamp
+ * - v3: explicit timeline model in settings.periods (older files get calendar quarters)
+ */
+export const DASHBOARD_FILE_FORMAT = 'hackfluency-dashboard';
+export const DASHBOARD_SCHEMA_VERSION = 3;
+
+export interface DashboardFile {
+  format: typeof DASHBOARD_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  dashboard: SavedDashboard;
+}
+
+export interface DashboardValidationIssue {
+  path: string;
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+}
+
+export interface DashboardValidationResult {
+  valid: boolean;
+  errors: DashboardValidationIssue[];
+  file: DashboardFile | null;
+}
+
+export class DashboardImportError extends Error {
+  readonly errors: DashboardValidationIssue[];
+
+  constructor(errors: DashboardValidationIssue[]) {
+    const summary = errors.slice(0, 3).map(e => `${e.path}: ${e.message}`).join('; ');
+    const more = errors.length > 3 ? ` (+${errors.length - 3} more)` : '';
+    super(`Invalid dashboard file: ${summary}${more}`);
+    this.name = 'DashboardImportError';
+    this.errors = errors;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function oneOf(allowed: Record<string, unknown>): string {
+  return Object.keys(allowed).join(', ');
+}
+
+// --- Migrations ---
+
+// Each migration upgrades a file from `version` to `version + 1`
+const MIGRATIONS: Record<number, (input: JsonObject) => JsonObject> = {
+  1: (legacy) => ({
+    format: DASHBOARD_FILE_FORMAT,
+    schemaVersion: 2,
+    exportedAt: new Date().toISOString(),
+    dashboard: legacy,
+  }),
+  2: (file) => {
+    const dashboard = file.dashboard;
+    const settings = isObject(dashboard) ? dashboard.settings ?? {} : null;
+    // Leave malformed bodies for validation to report
+    if (!isObject(dashboard) || !isObject(settings)) return { ...file, schemaVersion: 3 };
+    return {
+      ...file,
+      schemaVersion: 3,
+      dashboard: { ...dashboard, settings: { periods: DEFAULT_PERIOD_MODEL, ...settings } },
+    };
+  },
+};
+
+// Detect the schema version of a parsed file (bare dashboards are v1)
+export function detectSchemaVersion(input: unknown): number | null {
+  if (!isObject(input)) return null;
+  if (isFiniteNumber(input.schemaVersion)) return input.schemaVersion;
+  if (Array.isArray(input.nodes)) return 1;
+  return null;
+}
+
+// Upgrade a parsed file to the current schema version
+export function migrateDashboardFile(input: unknown): unknown {
+  let version = detectSchemaVersion(input);
+  if (version === null || !isObject(input)) return input;
+
+  let current: JsonObject = input;
+  while (version < DASHBOARD_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) break;
+    current = migrate(current);
+    version += 1;
+  }
+  return current;
+}
+
+// --- Validation ---
+
+const METRIC_DIRECTIONS: Record<MetricDirection, true> = { higher: true, lower: true };
+
+function validateMetric(metric: unknown, push: (path: string, message: string) => void): void {
+  if (!isObject(metric)) {
+    push('.data.metric', 'must be an object');
+    return;
+  }
+  if (metric.unit !== undefined && !isString(metric.unit)) push('.data.metric.unit', 'must be a string');
+  for (const key of ['baseline', 'target'] as const) {
+    if (metric[key] !== undefined && !isFiniteNumber(metric[key])) push(`.data.metric.${key}`, 'must be a number');
+  }
+  if (!isString(metric.direction) || !(metric.direction in METRIC_DIRECTIONS)) {
+    push('.data.metric.direction', `must be one of ${oneOf(METRIC_DIRECTIONS)}`);
+  }
+  if (!Array.isArray(metric.measurements)) {
+    push('.data.metric.measurements', 'must be an array');
+    return;
+  }
+  metric.measurements.forEach((m, i) => {
+    const path = `.data.metric.measurements[${i}]`;
+    if (!isObject(m)) {
+      push(path, 'must be an object');
+      return;
+    }
+    if (!isString(m.date) || isNaN(Date.parse(m.date))) push(`${path}.date`, 'must be an ISO date string');
+    if (!isFiniteNumber(m.value)) push(`${path}.value`, 'must be a number');
+  });
+}
+
+function validateNode(
+  node: unknown,
+  index: number,
+  errors: DashboardValidationIssue[],
+  quarters: Quarter[]
+): string | null {
+  const base = `dashboard.nodes[${index}]`;
+  if (!isObject(node)) {
+    errors.push({ path: base, message: 'must be an object' });
+    return null;
+  }
+
+  const nodeId = isString(node.id) && node.id ? node.id : undefined;
+  const push = (path: string, message: string) =>
+    errors.push({ path: `${base}${path}`, message, nodeId });
+
+  if (!nodeId) push('.id', 'must be a non-empty string');
+
+  if (!isObject(node.position) || !isFiniteNumber(node.position.x) || !isFiniteNumber(node.position.y)) {
+    push('.position', 'must be an object with numeric x and y');
+  }
+
+  const data = node.data;
+  if (!isObject(data)) {
+    push('.data', 'must be an object');
+    return nodeId ?? null;
+  }
+
+  if (!isString(data.category) || !(data.category in CATEGORY_CONFIG)) {
+    push('.data.category', `must be one of ${oneOf(CATEGORY_CONFIG)}`);
+  }
+  if (!isString(data.quarter) || !quarters.includes(data.quarter)) {
+    push('.data.quarter', `must be one of the dashboard's periods (${quarters.join(', ')})`);
+  }
+  if (!isString(data.status) || !(data.status in STATUS_CONFIG)) {
+    push('.data.status', `must be one of ${oneOf(STATUS_CONFIG)}`);
+  }
+  if (!isString(data.priority) || !(data.priority in PRIORITY_CONFIG)) {
+    push('.data.priority', `must be one of ${oneOf(PRIORITY_CONFIG)}`);
+  }
+  if (!isString(data.title)) push('.data.title', 'must be a string');
+  if (data.description !== undefined && !isString(data.description)) {
+    push('.data.description', 'must be a string');
+  }
+  if (data.value !== undefined && !isString(data.value)) {
+    push('.data.value', 'must be a string');
+  }
+  if (data.metric !== undefined) validateMetric(data.metric, push);
+  if (data.owner !== undefined && !isString(data.owner)) push('.data.owner', 'must be a string');
+  if (data.lane !== undefined && !isString(data.lane)) push('.data.lane', 'must be a string');
+  for (const key of ['startDate', 'dueDate'] as const) {
+    if (data[key] !== undefined && (!isString(data[key]) || isNaN(Date.parse(data[key])))) {
+      push(`.data.${key}`, 'must be an ISO date string');
+    }
+  }
+  if (data.tags !== undefined && (!Array.isArray(data.tags) || !data.tags.every(isString))) {
+    push('.data.tags', 'must be an array of strings');
+  }
+  if (data.links !== undefined) {
+    if (!Array.isArray(data.links)) {
+      push('.data.links', 'must be an array');
+    } else {
+      data.links.forEach((link, i) => {
+        if (!isObject(link) || !isString(link.url) || (link.label !== undefined && !isString(link.label))) {
+          push(`.data.links[${i}]`, 'must be an object with a url and optional label');
+        }
+      });
+    }
+  }
+  if (data.fields !== undefined && (!isObject(data.fields) ||
+    !Object.values(data.fields).every(v => isString(v) || isFiniteNumber(v)))) {
+    push('.data.fields', 'must be an object of string or number values');
+  }
+
+  return nodeId ?? null;
+}
+
+function validateEdge(
+  edge: unknown,
+  index: number,
+  nodeIds: Set<string>,
+  errors: DashboardValidationIssue[]
+): string | null {
+  const base = `dashboard.edges[${index}]`;
+  if (!isObject(edge)) {
+    errors.push({ path: base, message: 'must be an object' });
+    return null;
+  }
+
+  const edgeId = isString(edge.id) && edge.id ? edge.id : undefined;
+  const push = (path: string, message: string) =>
+    errors.push({ path: `${base}${path}`, message, edgeId });
+
+  if (!edgeId) push('.id', 'must be a non-empty string');
+
+  for (const end of ['source', 'target'] as const) {
+    const ref = edge[end];
+    if (!isString(ref) || !ref) {
+      push(`.${end}`, 'must be a non-empty string');
+    } else if (!nodeIds.has(ref)) {
+      push(`.${end}`, `references unknown node "${ref}"`);
+    }
+  }
+
+  if (edge.data !== undefined) {
+    if (!isObject(edge.data)) {
+      push('.data', 'must be an object');
+    } else if (edge.data.type !== undefined &&
+      (!isString(edge.data.type) || !(edge.data.type in EDGE_TYPE_CONFIG))) {
+      push('.data.type', `must be one of ${oneOf(EDGE_TYPE_CONFIG)}`);
+    }
+  }
+
+  return edgeId ?? null;
+}
+
+const CUSTOM_FIELD_TYPES: Record<CustomFieldType, true> = { text: true, number: true, select: true };
+
+function isIntegerIn(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function validatePeriodModel(periods: unknown, errors: DashboardValidationIssue[]): void {
+  const base = 'dashboard.settings.periods';
+  if (!isObject(periods)) {
+    errors.push({ path: base, message: 'must be an object' });
+    return;
+  }
+  if (!isString(periods.unit) || !(periods.unit in PERIOD_UNIT_CONFIG)) {
+    errors.push({ path: `${base}.unit`, message: `must be one of ${oneOf(PERIOD_UNIT_CONFIG)}` });
+  }
+  if (!isIntegerIn(periods.count, 1, MAX_PERIODS)) {
+    errors.push({ path: `${base}.count`, message: `must be a whole number from 1 to ${MAX_PERIODS}` });
+  }
+  if (!isIntegerIn(periods.startMonth, 1, 12)) {
+    errors.push({ path: `${base}.startMonth`, message: 'must be a month number from 1 to 12' });
+  }
+  if (periods.startYear !== undefined && !isIntegerIn(periods.startYear, 1900, 9999)) {
+    errors.push({ path: `${base}.startYear`, message: 'must be a four-digit year' });
+  }
+}
+
+function validateLanes(lanes: unknown, errors: DashboardValidationIssue[]): void {
+  const base = 'dashboard.settings.lanes';
+  if (!Array.isArray(lanes)) {
+    errors.push({ path: base, message: 'must be an array' });
+    return;
+  }
+  const keys = new Set<string>();
+  lanes.forEach((lane, i) => {
+    const path = `${base}[${i}]`;
+    if (!isObject(lane)) {
+      errors.push({ path, message: 'must be an object' });
+      return;
+    }
+    if (!isString(lane.key) || !lane.key) {
+      errors.push({ path: `${path}.key`, message: 'must be a non-empty string' });
+    } else if (keys.has(lane.key)) {
+      errors.push({ path: `${path}.key`, message: `duplicate lane key "${lane.key}"` });
+    } else {
+      keys.add(lane.key);
+    }
+    if (!isString(lane.label)) errors.push({ path: `${path}.label`, message: 'must be a string' });
+    if (typeof lane.height !== 'number' || !Number.isFinite(lane.height) || lane.height < 1) {
+      errors.push({ path: `${path}.height`, message: 'must be a positive number' });
+    }
+  });
+}
+
+function validatePresentation(steps: unknown, errors: DashboardValidationIssue[]): void {
+  const base = 'dashboard.settings.presentation';
+  if (!Array.isArray(steps)) {
+    errors.push({ path: base, message: 'must be an array' });
+    return;
+  }
+  const ids = new Set<string>();
+  steps.forEach((step, i) => {
+    const path = `${base}[${i}]`;
+    if (!isObject(step)) {
+      errors.push({ path, message: 'must be an object' });
+      return;
+    }
+    if (!isString(step.id) || !step.id) {
+      errors.push({ path: `${path}.id`, message: 'must be a non-empty string' });
+    } else if (ids.has(step.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicate step id "${step.id}"` });
+    } else {
+      ids.add(step.id);
+    }
+    if (!isString(step.caption)) errors.push({ path: `${path}.caption`, message: 'must be a string' });
+    if (!Array.isArray(step.nodeIds) || !step.nodeIds.every(isString)) {
+      errors.push({ path: `${path}.nodeIds`, message: 'must be an array of node ids' });
+    }
+    const { viewport } = step;
+    if (
+      !isObject(viewport)
+      || !isFiniteNumber(viewport.x) || !isFiniteNumber(viewport.y)
+      || !isFiniteNumber(viewport.width) || !isFiniteNumber(viewport.height)
+      || viewport.width <= 0 || viewport.height <= 0
+    ) {
+      errors.push({ path: `${path}.viewport`, message: 'must be an area with x, y and a positive width and height' });
+    }
+  });
+}
+
+// Period keys nodes may use; the default quarters when settings are invalid
+function quartersOf(settings: unknown, settingsErrors: DashboardValidationIssue[]): Quarter[] {
+  const valid = settingsErrors.length === 0 && isObject(settings);
+  return periodKeys(valid ? resolvePeriodModel(settings as DashboardSettings) : DEFAULT_PERIOD_MODEL);
+}
+
+function validateCustomFields(fields: unknown, errors: DashboardValidationIssue[]): void {
+  const base = 'dashboard.settings.customFields';
+  if (!Array.isArray(fields)) {
+    errors.push({ path: base, message: 'must be an array' });
+    return;
+  }
+  const keys = new Set<string>();
+  fields.forEach((field, i) => {
+    const path = `${base}[${i}]`;
+    if (!isObject(field)) {
+      errors.push({ path, message: 'must be an object' });
+      return;
+    }
+    if (!isString(field.key) || !field.key) {
+      errors.push({ path: `${path}.key`, message: 'must be a non-empty string' });
+    } else if (keys.has(field.key)) {
+      errors.push({ path: `${path}.key`, message: `duplicate field key "${field.key}"` });
+    } else {
+      keys.add(field.key);
+    }
+    if (!isString(field.label)) errors.push({ path: `${path}.label`, message: 'must be a string' });
+    if (!isString(field.type) || !(field.type in CUSTOM_FIELD_TYPES)) {
+      errors.push({ path: `${path}.type`, message: `must be one of ${oneOf(CUSTOM_FIELD_TYPES)}` });
+    }
+    if (field.options !== undefined && (!Array.isArray(field.options) || !field.options.every(isString))) {
+      errors.push({ path: `${path}.options`, message: 'must be an array of strings' });
+    }
+  });
+}
+
+// Each section of settings is checked on its own; other keys are left alone
+const SETTINGS_SECTIONS: Record<string, (value: unknown, errors: DashboardValidationIssue[]) => void> = {
+  periods: validatePeriodModel,
+  lanes: validateLanes,
+  presentation: validatePresentation,
+  customFields: validateCustomFields,
+};
+
+function validateSettings(settings: unknown, errors: DashboardValidationIssue[]): void {
+  if (!isObject(settings)) {
+    errors.push({ path: 'dashboard.settings', message: 'must be an object' });
+    return;
+  }
+  for (const [key, validate] of Object.entries(SETTINGS_SECTIONS)) {
+    if (settings[key] !== undefined) validate(settings[key], errors);
+  }
+}
+
+const DASHBOARD_STATUSES: Record<SavedDashboard['status'], true> = {
+  draft: true,
+  published: true,
+  archived: true,
+  trashed: true,
+};
+
+function validateDashboardBody(dashboard: unknown, errors: DashboardValidationIssue[]): void {
+  if (!isObject(dashboard)) {
+    errors.push({ path: 'dashboard', message: 'must be an object' });
+    return;
+  }
+
+  if (!isString(dashboard.id) || !dashboard.id) {
+    errors.push({ path: 'dashboard.id', message: 'must be a non-empty string' });
+  }
+  if (!isString(dashboard.name)) {
+    errors.push({ path: 'dashboard.name', message: 'must be a string' });
+  }
+  if (dashboard.description !== undefined && !isString(dashboard.description)) {
+    errors.push({ path: 'dashboard.description', message: 'must be a string' });
+  }
+  if (dashboard.version !== undefined && (!isFiniteNumber(dashboard.version) || dashboard.version < 1)) {
+    errors.push({ path: 'dashboard.version', message: 'must be a positive number' });
+  }
+  if (dashboard.status !== undefined &&
+    (!isString(dashboard.status) || !(dashboard.status in DASHBOARD_STATUSES))) {
+    errors.push({ path: 'dashboard.status', message: `must be one of ${oneOf(DASHBOARD_STATUSES)}` });
+  }
+  if (dashboard.trashedFrom !== undefined && (!isString(dashboard.trashedFrom) ||
+    dashboard.trashedFrom === 'trashed' || !(dashboard.trashedFrom in DASHBOARD_STATUSES))) {
+    errors.push({ path: 'dashboard.trashedFrom', message: 'must be draft, published or archived' });
+  }
+  if (dashboard.archivedFrom !== undefined && dashboard.archivedFrom !== 'draft' && dashboard.archivedFrom !== 'published') {
+    errors.push({ path: 'dashboard.archivedFrom', message: 'must be draft or published' });
+  }
+  for (const key of ['createdAt', 'updatedAt', 'publishedAt', 'archivedAt', 'trashedAt'] as const) {
+    const value = dashboard[key];
+    if (value !== undefined && (!isString(value) || isNaN(Date.parse(value)))) {
+      errors.push({ path: `dashboard.${key}`, message: 'must be an ISO date string' });
+    }
+  }
+
+  const settingsErrors: DashboardValidationIssue[] = [];
+  if (dashboard.settings !== undefined) validateSettings(dashboard.settings, settingsErrors);
+  errors.push(...settingsErrors);
+  const quarters = quartersOf(dashboard.settings, settingsErrors);
+
+  const nodeIds = new Set<string>();
+  if (!Array.isArray(dashboard.nodes)) {
+    errors.push({ path: 'dashboard.nodes', message: 'must be an array' });
+  } else {
+    dashboard.nodes.forEach((node, i) => {
+      const id = validateNode(node, i, errors, quarters);
+      if (!id) return;
+      if (nodeIds.has(id)) {
+        errors.push({ path: `dashboard.nodes[${i}].id`, message: `duplicate node id "${id}"`, nodeId: id });
+      }
+      nodeIds.add(id);
+    });
+  }
+
+  if (!Array.isArray(dashboard.edges)) {
+    errors.push({ path: 'dashboard.edges', message: 'must be an array' });
+  } else {
+    const edgeIds = new Set<string>();
+    dashboard.edges.forEach((edge, i) => {
+      const id = validateEdge(edge, i, nodeIds, errors);
+      if (!id) return;
+      if (edgeIds.has(id)) {
+        errors.push({ path: `dashboard.edges[${i}].id`, message: `duplicate edge id "${id}"`, edgeId: id });
+      }
+      edgeIds.add(id);
+    });
+  }
+}
+
+// Fill optional metadata so the result is a complete SavedDashboard
+function normalizeDashboard(dashboard: JsonObject): SavedDashboard {
+  const now = new Date().toISOString();
+  const createdAt = isString(dashboard.createdAt) ? dashboard.createdAt : now;
+  return {
+    id: dashboard.id as string,
+    name: dashboard.name as string,
+    description: isString(dashboard.description) ? dashboard.description : '',
+    nodes: (dashboard.nodes as Node<StrategyNodeData>[]).map(node => ({
+      ...node,
+      type: node.type || 'strategy',
+      data: { ...node.data, description: node.data.description ?? '' },
+    })),
+    edges: (dashboard.edges as Edge[]).map(edge => ({
+      ...edge,
+      type: edge.type || 'strategy',
+      data: edge.data ?? {},
+    })),
+    createdAt,
+    updatedAt: isString(dashboard.updatedAt) ? dashboard.updatedAt : createdAt,
+    publishedAt: isString(dashboard.publishedAt) ? dashboard.publishedAt : undefined,
+    archivedAt: isString(dashboard.archivedAt) ? dashboard.archivedAt : undefined,
+    archivedFrom: dashboard.archivedFrom === 'draft' || dashboard.archivedFrom === 'published'
+      ? dashboard.archivedFrom : undefined,
+    trashedAt: isString(dashboard.trashedAt) ? dashboard.trashedAt : undefined,
+    trashedFrom: isString(dashboard.trashedFrom) && dashboard.trashedFrom !== 'trashed' &&
+      dashboard.trashedFrom in DASHBOARD_STATUSES ? dashboard.trashedFrom as SavedDashboard['trashedFrom'] : undefined,
+    updatedBy: isString(dashboard.updatedBy) ? dashboard.updatedBy : undefined,
+    version: isFiniteNumber(dashboard.version) ? dashboard.version : 1,
+    status: (dashboard.status as SavedDashboard['status'] | undefined) ?? 'draft',
+    settings: isObject(dashboard.settings) ? dashboard.settings as DashboardSettings : undefined,
+  };
+}
+
+// Validate a parsed file of any known schema version
+export function validateDashboardFile(input: unknown): DashboardValidationResult {
+  const errors: DashboardValidationIssue[] = [];
+  const version = detectSchemaVersion(input);
+
+  if (version === null) {
+    errors.push({ path: '', message: 'not a dashboard file (missing schemaVersion or nodes)' });
+    return { valid: false, errors, file: null };
+  }
+  if (version > DASHBOARD_SCHEMA_VERSION) {
+    errors.push({
+      path: 'schemaVersion',
+      message: `unsupported schema version ${version} (latest supported is ${DASHBOARD_SCHEMA_VERSION})`,
+    });
+    return { valid: false, errors, file: null };
+  }
+
+  const migrated = migrateDashboardFile(input);
+  if (!isObject(migrated) || migrated.format !== DASHBOARD_FILE_FORMAT) {
+    errors.push({ path: 'format', message: `must be "${DASHBOARD_FILE_FORMAT}"` });
+    return { valid: false, errors, file: null };
+  }
+
+  validateDashboardBody(migrated.dashboard, errors);
+  if (errors.length > 0) return { valid: false, errors, file: null };
+
+  return {
+    valid: true,
+    errors,
+    file: {
+      format: DASHBOARD_FILE_FORMAT,
+      schemaVersion: DASHBOARD_SCHEMA_VERSION,
+      exportedAt: isString(migrated.exportedAt) ? migrated.exportedAt : new Date().toISOString(),
+      dashboard: normalizeDashboard(migrated.dashboard as JsonObject),
+    },
+  };
+}
+
+// --- Import / Export ---
+
+export function exportDashboard(dashboard: SavedDashboard): DashboardFile {
+  return {
+    format: DASHBOARD_FILE_FORMAT,
+    schemaVersion: DASHBOARD_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    dashboard,
+  };
+}
+
+export function serializeDashboard(dashboard: SavedDashboard): string {
+  return JSON.stringify(exportDashboard(dashboard), null, 2);
+}
+
+// Parse and validate a dashboard file, throwing DashboardImportError on failure
+export function importDashboard(source: string | unknown): SavedDashboard {
+  let parsed: unknown = source;
+  if (isString(source)) {
+    try {
+      parsed = JSON.parse(source);
+    } catch {
+      throw new DashboardImportError([{ path: '', message: 'file is not valid JSON' }]);
+    }
+  }
+
+  const result = validateDashboardFile(parsed);
+  if (!result.valid || !result.file) {
+    throw new DashboardImportError(result.errors);
+  }
+  return result.file.dashboard;
+}
+
+// Trigger a browser download of the dashboard as a versioned JSON file
+export function downloadDashboardFile(dashboard: SavedDashboard): void {
+  if (typeof window === 'undefined') return;
+  const blob = new Blob([serializeDashboard(dashboard)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${dashboard.name.replace(/[^a-z0-9]/gi, '-').toLowerCase() || 'dashboard'}.dashboard.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// --- Remote rows ---
+
+// Supabase stores status as integer: 0=draft, 1=published, 2=archived, 3=trashed
+// (allowed by the check constraint in supabase/migrations)
+export const STATUS_TO_INT: Record<SavedDashboard['status'], number> = {
+  draft: 0,
+  published: 1,
+  archived: 2,
+  trashed: 3,
+};
+
+const STATUS_FROM_INT: Record<number, SavedDashboard['status']> = Object.fromEntries(
+  Object.entries(STATUS_TO_INT).map(([status, value]) => [value, status as SavedDashboard['status']])
+);
+
+export interface DashboardRow {
+  id: string;
+  title?: string | null;
+  status?: number | null;
+  version?: number | null;
+  payload?: unknown;
+}
+
+// Settings of a stored row without the sections that fail validation
+function lenientSettings(settings: unknown, issues: DashboardValidationIssue[]): DashboardSettings | undefined {
+  if (settings === undefined) return undefined;
+  if (!isObject(settings)) {
+    issues.push({ path: 'dashboard.settings', message: 'must be an object' });
+    return undefined;
+  }
+  const kept: JsonObject = { ...settings };
+  for (const [key, validate] of Object.entries(SETTINGS_SECTIONS)) {
+    if (settings[key] === undefined) continue;
+    const sectionErrors: DashboardValidationIssue[] = [];
+    validate(settings[key], sectionErrors);
+    if (sectionErrors.length === 0) continue;
+    issues.push(...sectionErrors);
+    delete kept[key];
+  }
+  return kept as DashboardSettings;
+}
+
+// Without these a node cannot be drawn at all
+const REQUIRED_NODE_PATHS = ['', '.id', '.position', '.data', '.data.category', '.data.status', '.data.priority'];
+
+// A stored node, or null when it cannot be drawn. A period the timeline
+// does not have is kept as is; other optional fields that fail are left out.
+function lenientNode(
+  node: unknown,
+  index: number,
+  quarters: Quarter[],
+  issues: DashboardValidationIssue[]
+): Node<StrategyNodeData> | null {
+  const base = `dashboard.nodes[${index}]`;
+  const nodeErrors: DashboardValidationIssue[] = [];
+  validateNode(node, index, nodeErrors, quarters);
+  issues.push(...nodeErrors);
+  if (nodeErrors.length === 0) return node as Node<StrategyNodeData>;
+
+  const data = isObject(node) ? node.data : undefined;
+  const fatal = nodeErrors.some(e => REQUIRED_NODE_PATHS.some(path => e.path === `${base}${path}`))
+    || !isObject(data) || !isString(data.quarter);
+  if (fatal) return null;
+
+  const dropped = new Set(nodeErrors
+    .map(e => /^\.data\.(\w+)/.exec(e.path.slice(base.length))?.[1])
+    .filter((key): key is string => !!key && key !== 'quarter'));
+  if (dropped.size === 0) return node as Node<StrategyNodeData>;
+  const keptData = Object.fromEntries(Object.entries(data).filter(([key]) => !dropped.has(key)));
+  return { ...(node as Node<StrategyNodeData>), data: keptData as StrategyNodeData };
+}
+
+/**
+ * Build a SavedDashboard from a `dashboards` table row.
+ * Row columns win over payload fields. Stored data is loaded leniently:
+ * strict validation is for imported files. Unknown keys are kept, invalid
+ * settings sections and node fields are left out, and only nodes and edges
+ * that cannot be drawn are dropped. Everything left out is logged.
+ */
+export function dashboardFromRow(row: DashboardRow): SavedDashboard {
+  const payload: JsonObject = isObject(row.payload) ? row.payload : {};
+  const pick = (...keys: string[]): string | undefined => {
+    for (const key of keys) {
+      const value = payload[key];
+      if (isString(value) && value) return value;
+    }
+    return undefined;
+  };
+
+  const issues: DashboardValidationIssue[] = [];
+  const settings = lenientSettings(payload.settings, issues);
+  const quarters = periodKeys(resolvePeriodModel(settings));
+
+  const nodeIds = new Set<string>();
+  const nodes = (Array.isArray(payload.nodes) ? payload.nodes : []).flatMap((node, i) => {
+    const kept = lenientNode(node, i, quarters, issues);
+    if (!kept || nodeIds.has(kept.id)) return [];
+    nodeIds.add(kept.id);
+    return [kept];
+  });
+  const edges = (Array.isArray(payload.edges) ? payload.edges : []).filter((edge, i) => {
+    const edgeErrors: DashboardValidationIssue[] = [];
+    validateEdge(edge, i, nodeIds, edgeErrors);
+    issues.push(...edgeErrors);
+    // An unknown link type falls back to the one implied by the source
+    return edgeErrors.every(e => e.path === `dashboard.edges[${i}].data.type`);
+  }) as Edge[];
+
+  if (issues.length > 0) {
+    console.warn(`Dashboard ${row.id}: stored data has problems; invalid parts were left out`, issues);
+  }
+
+  return normalizeDashboard({
+    id: row.id,
+    name: row.title || pick('name', 'title') || 'Untitled Dashboard',
+    description: pick('description') ?? '',
+    nodes,
+    edges,
+    createdAt: pick('createdAt', 'created_at'),
+    updatedAt: pick('updatedAt', 'updated_at'),
+    publishedAt: pick('publishedAt', 'published_at'),
+    archivedAt: pick('archivedAt', 'archived_at'),
+    archivedFrom: pick('archivedFrom', 'archived_from'),
+    trashedAt: pick('trashedAt', 'trashed_at'),
+    trashedFrom: pick('trashedFrom', 'trashed_from'),
+    updatedBy: pick('updatedBy', 'updated_by'),
+    version: row.version || (isFiniteNumber(payload.version) ? payload.version : 1),
+    status: (isFiniteNumber(row.status) && STATUS_FROM_INT[row.status]) ||
+      (isString(payload.status) && payload.status in DASHBOARD_STATUSES ? payload.status : 'draft'),
+    settings,
+  });
+}
+
+// Inverse of dashboardFromRow: columns plus the full dashboard as payload
+export function dashboardToRow(dashboard: SavedDashboard): Required<DashboardRow> {
+  const { id, name, status, version, ...rest } = dashboard;
+  return {
+    id,
+    title: name,
+    status: STATUS_TO_INT[status],
+    version,
+    payload: { ...rest, name },
+  };
+}
@@ -1,5 +1,19 @@
 import type { Edge, Node } from '@xyflow/react';
-import type { StrategyNodeData } from './types';
+import type {
+  StrategyNodeData,
+  CustomFieldDefinition,
+  PeriodModel,
+  SwimlaneDefinition,
+  PresentationStep,
+} from './types';
+import type { DashboardStore } from './dashboardRepository';
+import type { StoredVersion, VersionRetention } from './versionHistory';
+import {
+  appendVersion,
+  resolveVersion,
+  resolveVersions,
+  DEFAULT_VERSION_RETENTION,
+} from './versionHistory';
 
 export interface SavedDashboard {
   id: string;
@@ -11,18 +25,45 @@ export interface SavedDashboard {
   updatedAt: string;
   publishedAt?: string;
   archivedAt?: string;
+  // Status to return to when restored from the archive
+  archivedFrom?: 'draft' | 'published';
+  // Set while in the trash; the dashboard is purged once the retention window passes
+  trashedAt?: string;
+  // Status to return to when restored from the trash
+  trashedFrom?: Exclude<DashboardStatus, 'trashed'>;
+  // Display name of whoever saved last (set by shared backends)
+  updatedBy?: string;
   version: number;
-  status: 'draft' | 'published' | 'archived';
+  status: DashboardStatus;
+  settings?: DashboardSettings;
 }
 
+// Per-dashboard configuration shared by every node
+export interface DashboardSettings {
+  customFields?: CustomFieldDefinition[];
+  // Timeline columns; calendar quarters Q1-Q4 when absent
+  periods?: PeriodModel;
+  // Horizontal swimlanes, top to bottom
+  lanes?: SwimlaneDefinition[];
+  // Guided tour played in the viewer, in order
+  presentation?: PresentationStep[];
+}
+
+export type DashboardStatus = 'draft' | 'published' | 'archived' | 'trashed';
+
 export interface DashboardVersion {
   dashboardId: string;
   version: number;
   nodes: Node<StrategyNodeData>[];
   edges: Edge[];
+  // Timeline, lanes and fields the nodes were saved under; missing on
+  // versions recorded before settings were part of the history
+  settings?: DashboardSettings;
   savedAt: string;
 }
 
+// Synchronous localStorage API. New code should go through a DashboardRepository
+// (see createBrowserRepository), which moves this data into IndexedDB.
 const STORAGE_KEY = 'hackfluency_dashboards';
 const VERSIONS_KEY = 'hackfluency_dashboard_versions';
 
@@ -64,9 +105,9 @@ export function getAllDashboards(): SavedDashboard[] {
 }
 
 
-// Get active (non-archived) dashboards
+// Get active dashboards (neither archived nor trashed)
 export function getActiveDashboards(): SavedDashboard[] {
-  return getAllDashboards().filter(d => d.status !== 'archived');
+  return getAllDashboards().filter(d => d.status !== 'archived' && d.status !== 'trashed');
 }
 
 // Get archived dashboards
@@ -100,136 +141,241 @@ export function generateSlug(name: string): string {
     .substring(0, 50);
 }
 
+export type DashboardDraft = Pick<SavedDashboard, 'name' | 'description' | 'nodes' | 'edges' | 'settings'>;
+
+export type DashboardUpdates = Partial<DashboardDraft>;
+
+// Thrown when a write expected a different stored version (someone else saved first)
+export class DashboardConflictError extends Error {
+  readonly current: SavedDashboard;
+  readonly expectedVersion: number;
+
+  constructor(
+    current: SavedDashboard,
+    expectedVersion: number,
+    message = `Dashboard "${current.name}" is at version ${current.version}, expected ${expectedVersion}`
+  ) {
+    super(message);
+    this.name = 'DashboardConflictError';
+    this.current = current;
+    this.expectedVersion = expectedVersion;
+  }
+}
+
+// --- Pure record operations (shared by every storage backend) ---
+
+// Reject writes based on a stale version (no check when expectedVersion is omitted)
+export function assertExpectedVersion(dashboard: SavedDashboard, expectedVersion?: number): void {
+  if (expectedVersion !== undefined && dashboard.version !== expectedVersion) {
+    throw new DashboardConflictError(dashboard, expectedVersion);
+  }
+}
+
+// Permanent deletion only applies to a dashboard that is still in the trash
+// at the version the caller saw (e.g. not restored by someone else since)
+export function assertDeletable(dashboard: SavedDashboard, expectedVersion?: number): void {
+  assertExpectedVersion(dashboard, expectedVersion);
+  if (dashboard.status !== 'trashed') {
+    throw new DashboardConflictError(
+      dashboard,
+      expectedVersion ?? dashboard.version,
+      `Dashboard "${dashboard.name}" is not in the trash`
+    );
+  }
+}
+
+// Build a new draft record
+export function createDashboardRecord(draft: DashboardDraft, now = new Date().toISOString()): SavedDashboard {
+  return {
+    id: generateId(),
+    ...draft,
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+    status: 'draft',
+  };
+}
+
+// Apply content/metadata updates. Every write bumps the version so that
+// expectedVersion catches any concurrent write; `contentChanged` tells
+// whether nodes, edges or settings changed and a history entry is due.
+export function applyDashboardUpdate(
+  dashboard: SavedDashboard,
+  updates: DashboardUpdates,
+  now = new Date().toISOString()
+): { dashboard: SavedDashboard; contentChanged: boolean } {
+  const contentChanged = !!(updates.nodes || updates.edges || updates.settings);
+  return {
+    dashboard: {
+      ...dashboard,
+      ...updates,
+      updatedAt: now,
+      version: dashboard.version + 1,
+    },
+    contentChanged,
+  };
+}
+
+// Status changes are writes too, so they also bump the version
+export function markPublished(dashboard: SavedDashboard, now = new Date().toISOString()): SavedDashboard {
+  return { ...dashboard, status: 'published', publishedAt: now, updatedAt: now, version: dashboard.version + 1 };
+}
+
+export function markArchived(dashboard: SavedDashboard, now = new Date().toISOString()): SavedDashboard {
+  const archivedFrom = dashboard.status === 'draft' ? 'draft' : 'published';
+  return { ...dashboard, status: 'archived', archivedAt: now, archivedFrom, updatedAt: now, version: dashboard.version + 1 };
+}
+
+// Restored dashboards go back to the status they were archived from;
+// dashboards archived before that was recorded come back published
+export function markRestored(dashboard: SavedDashboard, now = new Date().toISOString()): SavedDashboard {
+  return {
+    ...dashboard,
+    status: dashboard.archivedFrom ?? 'published',
+    archivedAt: undefined,
+    archivedFrom: undefined,
+    updatedAt: now,
+    version: dashboard.version + 1,
+  };
+}
+
+export function markTrashed(dashboard: SavedDashboard, now = new Date().toISOString()): SavedDashboard {
+  if (dashboard.status === 'trashed') return dashboard;
+  return {
+    ...dashboard,
+    status: 'trashed',
+    trashedAt: now,
+    trashedFrom: dashboard.status,
+    updatedAt: now,
+    version: dashboard.version + 1,
+  };
+}
+
+// Trashed dashboards go back to whatever status they had before
+export function markUntrashed(dashboard: SavedDashboard, now = new Date().toISOString()): SavedDashboard {
+  if (dashboard.status !== 'trashed') return dashboard;
+  return {
+    ...dashboard,
+    status: dashboard.trashedFrom ?? (dashboard.publishedAt ? 'published' : 'draft'),
+    trashedAt: undefined,
+    trashedFrom: undefined,
+    updatedAt: now,
+    version: dashboard.version + 1,
+  };
+}
+
+// Days a dashboard stays recoverable in the trash
+export const TRASH_RETENTION_DAYS = 30;
+
+// When a trashed dashboard becomes eligible for purge (null if not trashed)
+export function trashExpiresAt(dashboard: SavedDashboard, retentionDays = TRASH_RETENTION_DAYS): Date | null {
+  if (dashboard.status !== 'trashed' || !dashboard.trashedAt) return null;
+  const trashedAt = Date.parse(dashboard.trashedAt);
+  return isNaN(trashedAt) ? null : new Date(trashedAt + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+export function isTrashExpired(dashboard: SavedDashboard, now = new Date(), retentionDays = TRASH_RETENTION_DAYS): boolean {
+  const expiresAt = trashExpiresAt(dashboard, retentionDays);
+  return expiresAt !== null && expiresAt <= now;
+}
+
+export function createVersionEntry(
+  dashboardId: string,
+  version: number,
+  nodes: Node<StrategyNodeData>[],
+  edges: Edge[],
+  settings: DashboardSettings = {}
+): DashboardVersion {
+  return { dashboardId, version, nodes, edges, settings, savedAt: new Date().toISOString() };
+}
+
 // Save a new dashboard (draft)
 export function saveDashboard(
   name: string,
   description: string,
   nodes: Node<StrategyNodeData>[],
-  edges: Edge[]
+  edges: Edge[],
+  settings?: DashboardSettings
 ): SavedDashboard {
   const dashboards = getAllDashboards();
-  const now = new Date().toISOString();
-  
-  const newDashboard: SavedDashboard = {
-    id: generateId(),
-    name,
-    description,
-    nodes,
-    edges,
-    createdAt: now,
-    updatedAt: now,
-    version: 1,
-    status: 'draft',
-  };
+  const newDashboard = createDashboardRecord({ name, description, nodes, edges, settings });
   
   dashboards.push(newDashboard);
   safeStorageSet(STORAGE_KEY, JSON.stringify(dashboards));
   
   // Save version history
-  saveVersion(newDashboard.id, 1, nodes, edges);
+  saveVersion(newDashboard.id, 1, nodes, edges, settings);
   
   return newDashboard;
 }
 
-// Update an existing dashboard
+// Update an existing dashboard; pass expectedVersion to reject stale writes
 export function updateDashboard(
   id: string,
-  updates: Partial<Pick<SavedDashboard, 'name' | 'description' | 'nodes' | 'edges'>>
+  updates: DashboardUpdates,
+  expectedVersion?: number
 ): SavedDashboard | null {
   const dashboards = getAllDashboards();
   const index = dashboards.findIndex(d => d.id === id);
   
   if (index === -1) return null;
+  assertExpectedVersion(dashboards[index], expectedVersion);
   
-  const dashboard = dashboards[index];
-  const now = new Date().toISOString();
-  
-  // Increment version if content changed
-  const contentChanged = updates.nodes || updates.edges;
-  const newVersion = contentChanged ? dashboard.version + 1 : dashboard.version;
-  
-  const updatedDashboard: SavedDashboard = {
-    ...dashboard,
-    ...updates,
-    updatedAt: now,
-    version: newVersion,
-  };
+  const { dashboard: updatedDashboard, contentChanged } = applyDashboardUpdate(dashboards[index], updates);
   
   dashboards[index] = updatedDashboard;
   safeStorageSet(STORAGE_KEY, JSON.stringify(dashboards));
   
   // Save version if content changed
   if (contentChanged) {
-    saveVersion(
-      id,
-      newVersion,
-      updates.nodes || dashboard.nodes,
-      updates.edges || dashboard.edges
-    );
+    saveVersion(id, updatedDashboard.version, updatedDashboard.nodes, updatedDashboard.edges, updatedDashboard.settings);
   }
   
   return updatedDashboard;
 }
 
-// Publish a dashboard (make it viewable)
-export function publishDashboard(id: string): SavedDashboard | null {
+// Apply a status transition to a stored dashboard
+function transitionDashboard(
+  id: string,
+  transition: (dashboard: SavedDashboard) => SavedDashboard
+): SavedDashboard | null {
   const dashboards = getAllDashboards();
   const index = dashboards.findIndex(d => d.id === id);
   
   if (index === -1) return null;
   
-  const now = new Date().toISOString();
-  dashboards[index] = {
-    ...dashboards[index],
-    status: 'published',
-    publishedAt: now,
-    updatedAt: now,
-  };
-  
+  dashboards[index] = transition(dashboards[index]);
   safeStorageSet(STORAGE_KEY, JSON.stringify(dashboards));
   return dashboards[index];
 }
 
+// Publish a dashboard (make it viewable)
+export function publishDashboard(id: string): SavedDashboard | null {
+  return transitionDashboard(id, d => markPublished(d));
+}
+
 // Archive a dashboard
 export function archiveDashboard(id: string): SavedDashboard | null {
-  const dashboards = getAllDashboards();
-  const index = dashboards.findIndex(d => d.id === id);
-  
-  if (index === -1) return null;
-  
-  const now = new Date().toISOString();
-  dashboards[index] = {
-    ...dashboards[index],
-    status: 'archived',
-    archivedAt: now,
-    updatedAt: now,
-  };
-  
-  safeStorageSet(STORAGE_KEY, JSON.stringify(dashboards));
-  return dashboards[index];
+  return transitionDashboard(id, d => markArchived(d));
 }
 
 // Restore an archived dashboard
 export function restoreDashboard(id: string): SavedDashboard | null {
-  const dashboards = getAllDashboards();
-  const index = dashboards.findIndex(d => d.id === id);
-  
-  if (index === -1) return null;
-  
-  const now = new Date().toISOString();
-  dashboards[index] = {
-    ...dashboards[index],
-    status: 'draft',
-    archivedAt: undefined,
-    updatedAt: now,
-  };
-  
-  safeStorageSet(STORAGE_KEY, JSON.stringify(dashboards));
-  return dashboards[index];
+  return transitionDashboard(id, d => markRestored(d));
 }
 
-// Permanently delete a dashboard
-export function deleteDashboard(id: string): boolean {
+// Move a dashboard to the trash (recoverable until purged)
+export function deleteDashboard(id: string): SavedDashboard | null {
+  return transitionDashboard(id, d => markTrashed(d));
+}
+
+// Bring a dashboard back from the trash
+export function restoreDashboardFromTrash(id: string): SavedDashboard | null {
+  return transitionDashboard(id, d => markUntrashed(d));
+}
+
+// Permanently delete a dashboard and its versions
+export function purgeDashboard(id: string): boolean {
   const dashboards = getAllDashboards();
   const filtered = dashboards.filter(d => d.id !== id);
   
@@ -245,37 +391,32 @@ export function deleteDashboard(id: string): boolean {
 
 
 // Version management
+let versionRetention: VersionRetention = DEFAULT_VERSION_RETENTION;
+
+// Configure how much history the localStorage API keeps
+export function setVersionRetention(retention: Partial<VersionRetention>): void {
+  versionRetention = { ...versionRetention, ...retention };
+}
+
 function saveVersion(
   dashboardId: string,
   version: number,
   nodes: Node<StrategyNodeData>[],
-  edges: Edge[]
+  edges: Edge[],
+  settings?: DashboardSettings
 ): void {
   if (typeof window === 'undefined') return;
   
-  const versions = getAllVersions();
-  versions.push({
-    dashboardId,
-    version,
-    nodes,
-    edges,
-    savedAt: new Date().toISOString(),
-  });
-  
-  // Keep only last 10 versions per dashboard
-  const filtered = versions.filter(v => v.dashboardId === dashboardId);
-  if (filtered.length > 10) {
-    const toRemove = filtered.slice(0, filtered.length - 10);
-    const remaining = versions.filter(v => 
-      v.dashboardId !== dashboardId || !toRemove.includes(v)
-    );
-    safeStorageSet(VERSIONS_KEY, JSON.stringify(remaining));
-  } else {
-    safeStorageSet(VERSIONS_KEY, JSON.stringify(versions));
-  }
+  const versions = appendVersion(
+    getStoredVersions(),
+    createVersionEntry(dashboardId, version, nodes, edges, settings),
+    versionRetention
+  );
+  safeStorageSet(VERSIONS_KEY, JSON.stringify(versions));
 }
 
-function getAllVersions(): DashboardVersion[] {
+// Raw stored history (snapshots and deltas)
+export function getStoredVersions(): StoredVersion[] {
   const data = safeStorageGet(VERSIONS_KEY);
   if (!data) return [];
   try {
@@ -287,23 +428,49 @@ function getAllVersions(): DashboardVersion[] {
 }
 
 export function getVersionsForDashboard(dashboardId: string): DashboardVersion[] {
-  return getAllVersions()
-    .filter(v => v.dashboardId === dashboardId)
-    .sort((a, b) => b.version - a.version);
+  return resolveVersions(getStoredVersions(), dashboardId);
 }
 
 export function getVersion(dashboardId: string, version: number): DashboardVersion | null {
-  return getAllVersions().find(
-    v => v.dashboardId === dashboardId && v.version === version
-  ) || null;
+  return resolveVersion(getStoredVersions(), dashboardId, version);
 }
 
 function deleteVersions(dashboardId: string): void {
-  const versions = getAllVersions().filter(v => v.dashboardId !== dashboardId);
+  const versions = getStoredVersions().filter(v => v.dashboardId !== dashboardId);
   safeStorageSet(VERSIONS_KEY, JSON.stringify(versions));
 }
 
 
+// What restoring a version writes back: its settings too when they were
+// recorded, so its nodes' period and lane keys stay valid
+export function versionContent(snapshot: DashboardVersion): DashboardUpdates {
+  const { nodes, edges, settings } = snapshot;
+  return settings ? { nodes, edges, settings } : { nodes, edges };
+}
+
+// Roll a dashboard back to a previous version. Recorded as a new version,
+// so the versions in between stay in the history.
+export function restoreVersion(dashboardId: string, version: number): SavedDashboard | null {
+  const snapshot = getVersion(dashboardId, version);
+  if (!snapshot) return null;
+  return updateDashboard(dashboardId, versionContent(snapshot));
+}
+
+// Start a new draft dashboard from a previous version
+export function forkVersion(dashboardId: string, version: number, newName?: string): SavedDashboard | null {
+  const original = getDashboardById(dashboardId);
+  const snapshot = getVersion(dashboardId, version);
+  if (!original || !snapshot) return null;
+
+  return saveDashboard(
+    newName || `${original.name} (v${version})`,
+    original.description,
+    snapshot.nodes,
+    snapshot.edges,
+    snapshot.settings ?? original.settings
+  );
+}
+
 // Duplicate a dashboard
 export function duplicateDashboard(id: string, newName?: string): SavedDashboard | null {
   const original = getDashboardById(id);
@@ -313,6 +480,33 @@ export function duplicateDashboard(id: string, newName?: string): SavedDashboard
     newName || `${original.name} (Copy)`,
     original.description,
     original.nodes,
-    original.edges
+    original.edges,
+    original.settings
   );
 }
+
+
+// localStorage-backed store for the async repository API
+export function createLocalStorageStore(): DashboardStore {
+  return {
+    readDashboards: async () => getAllDashboards(),
+    writeDashboards: async (dashboards) => {
+      safeStorageSet(STORAGE_KEY, JSON.stringify(dashboards));
+    },
+    readVersions: async () => getStoredVersions(),
+    writeVersions: async (versions) => {
+      safeStorageSet(VERSIONS_KEY, JSON.stringify(versions));
+    },
+  };
+}
+
+// Remove the localStorage collections (after they were migrated elsewhere)
+export function clearLocalStorageData(): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(VERSIONS_KEY);
+  } catch (error) {
+    console.error('Error clearing dashboards from localStorage:', error);
+  }
+}
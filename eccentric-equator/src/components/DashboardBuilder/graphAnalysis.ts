@@ -0,0 +1,215 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData, EdgeType } from './types';
+import { EDGE_TYPE_CONFIG, resolveEdgeType } from './types';
+import { periodIndex } from './periods';
+import { ORDERING_EDGE_TYPES } from './graphRules';
+
+/**
+ * Dependency analysis over the ordering edges (dependency, supports,
+ * implements): source is a prerequisite of target, so a slip flows from
+ * source to target.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+export interface DependencyGraph {
+  nodeById: Map<string, StrategyNode>;
+  successors: Map<string, { nodeId: string; edgeId: string }[]>;
+  predecessors: Map<string, { nodeId: string; edgeId: string }[]>;
+}
+
+export function buildDependencyGraph(nodes: StrategyNode[], edges: Edge[]): DependencyGraph {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const successors = new Map<string, { nodeId: string; edgeId: string }[]>();
+  const predecessors = new Map<string, { nodeId: string; edgeId: string }[]>();
+
+  edges.forEach(edge => {
+    const source = nodeById.get(edge.source);
+    if (!source || !nodeById.has(edge.target) || edge.source === edge.target) return;
+    const type = resolveEdgeType((edge.data as { type?: EdgeType } | undefined)?.type, source.data.category);
+    if (!ORDERING_EDGE_TYPES.includes(type)) return;
+    successors.set(edge.source, [...(successors.get(edge.source) ?? []), { nodeId: edge.target, edgeId: edge.id }]);
+    predecessors.set(edge.target, [...(predecessors.get(edge.target) ?? []), { nodeId: edge.source, edgeId: edge.id }]);
+  });
+
+  return { nodeById, successors, predecessors };
+}
+
+// Everything reachable from the start nodes (not including them), with the edges walked
+function reach(
+  links: DependencyGraph['successors'],
+  startIds: string[]
+): { nodeIds: Set<string>; edgeIds: Set<string> } {
+  const nodeIds = new Set<string>();
+  const edgeIds = new Set<string>();
+  const queue = [...startIds];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (links.get(id) ?? []).forEach(({ nodeId, edgeId }) => {
+      edgeIds.add(edgeId);
+      if (nodeIds.has(nodeId) || startIds.includes(nodeId)) return;
+      nodeIds.add(nodeId);
+      queue.push(nodeId);
+    });
+  }
+  return { nodeIds, edgeIds };
+}
+
+export interface ImpactSets {
+  // Prerequisites the node waits on, directly or transitively
+  upstream: Set<string>;
+  // Work that slips if the node slips
+  downstream: Set<string>;
+  edgeIds: Set<string>;
+}
+
+export function computeImpact(graph: DependencyGraph, nodeId: string): ImpactSets {
+  const up = reach(graph.predecessors, [nodeId]);
+  const down = reach(graph.successors, [nodeId]);
+  return {
+    upstream: up.nodeIds,
+    downstream: down.nodeIds,
+    edgeIds: new Set([...up.edgeIds, ...down.edgeIds]),
+  };
+}
+
+export interface Neighbourhood {
+  // Nodes linked to the focused one by any edge, in either direction
+  nodeIds: Set<string>;
+  edgeIds: Set<string>;
+}
+
+// Direct neighbours over every edge type, not just the ordering ones
+export function computeNeighbourhood(edges: Edge[], nodeId: string): Neighbourhood {
+  const nodeIds = new Set<string>();
+  const edgeIds = new Set<string>();
+  edges.forEach(edge => {
+    if (edge.source !== nodeId && edge.target !== nodeId) return;
+    edgeIds.add(edge.id);
+    const other = edge.source === nodeId ? edge.target : edge.source;
+    if (other !== nodeId) nodeIds.add(other);
+  });
+  return { nodeIds, edgeIds };
+}
+
+export interface RelationGroup {
+  type: EdgeType;
+  nodes: StrategyNode[];
+}
+
+export interface NodeRelations {
+  // Links pointing at the node, grouped by edge type
+  incoming: RelationGroup[];
+  outgoing: RelationGroup[];
+}
+
+// Everything a node links to or is linked from, over every edge type
+export function computeRelations(nodes: StrategyNode[], edges: Edge[], nodeId: string): NodeRelations {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const incoming = new Map<EdgeType, StrategyNode[]>();
+  const outgoing = new Map<EdgeType, StrategyNode[]>();
+  edges.forEach(edge => {
+    const source = nodeById.get(edge.source);
+    const target = nodeById.get(edge.target);
+    if (!source || !target || edge.source === edge.target) return;
+    const type = resolveEdgeType((edge.data as { type?: EdgeType } | undefined)?.type, source.data.category);
+    if (edge.target === nodeId) incoming.set(type, [...(incoming.get(type) ?? []), source]);
+    if (edge.source === nodeId) outgoing.set(type, [...(outgoing.get(type) ?? []), target]);
+  });
+  // Groups follow the order of EDGE_TYPE_CONFIG
+  const groups = (byType: Map<EdgeType, StrategyNode[]>) => (Object.keys(EDGE_TYPE_CONFIG) as EdgeType[])
+    .filter(type => byType.has(type))
+    .map(type => ({ type, nodes: byType.get(type)! }));
+  return { incoming: groups(incoming), outgoing: groups(outgoing) };
+}
+
+export interface CriticalPath {
+  nodeIds: string[];
+  edgeIds: string[];
+  // Unfinished nodes on the path
+  remaining: number;
+}
+
+/**
+ * Longest chain of unfinished work. Each open node costs one step (done nodes
+ * cost nothing); ties go to the chain spanning more periods. Cycle edges are
+ * ignored here; graphRules reports them.
+ */
+export function computeCriticalPath(graph: DependencyGraph): CriticalPath {
+  type Best = { cost: number; span: number; next?: { nodeId: string; edgeId: string } };
+  const best = new Map<string, Best>();
+  const visiting = new Set<string>();
+  const quarterIndex = (id: string) => periodIndex(graph.nodeById.get(id)!.data.quarter);
+
+  // Best chain starting at id, following successors
+  const walk = (id: string): Best => {
+    const known = best.get(id);
+    if (known) return known;
+    visiting.add(id);
+    const cost = graph.nodeById.get(id)!.data.status === 'done' ? 0 : 1;
+    let result: Best = { cost, span: 0 };
+    (graph.successors.get(id) ?? []).forEach(link => {
+      if (visiting.has(link.nodeId)) return;
+      const tail = walk(link.nodeId);
+      const span = Math.max(0, quarterIndex(link.nodeId) - quarterIndex(id)) + tail.span;
+      const candidate = { cost: cost + tail.cost, span, next: link };
+      if (candidate.cost > result.cost || (candidate.cost === result.cost && candidate.span > result.span)) {
+        result = candidate;
+      }
+    });
+    visiting.delete(id);
+    best.set(id, result);
+    return result;
+  };
+
+  let start: string | null = null;
+  graph.nodeById.forEach((_, id) => {
+    const candidate = walk(id);
+    const current = start ? best.get(start)! : null;
+    if (!current || candidate.cost > current.cost || (candidate.cost === current.cost && candidate.span > current.span)) {
+      start = id;
+    }
+  });
+
+  const path: CriticalPath = { nodeIds: [], edgeIds: [], remaining: 0 };
+  // A lone node is not a path
+  if (!start || !best.get(start)!.next) return path;
+  let id: string | undefined = start;
+  while (id) {
+    path.nodeIds.push(id);
+    if (graph.nodeById.get(id)!.data.status !== 'done') path.remaining++;
+    const next: Best['next'] = best.get(id)!.next;
+    if (next) path.edgeIds.push(next.edgeId);
+    id = next?.nodeId;
+  }
+  return path;
+}
+
+export interface BlockedPropagation {
+  // Nodes with status 'blocked'
+  blockers: Set<string>;
+  // Nodes held up by a blocker upstream -> the blockers responsible
+  affected: Map<string, string[]>;
+  edgeIds: Set<string>;
+}
+
+export function computeBlockedPropagation(graph: DependencyGraph): BlockedPropagation {
+  const blockers = new Set<string>();
+  graph.nodeById.forEach((node, id) => {
+    if (node.data.status === 'blocked') blockers.add(id);
+  });
+
+  const affected = new Map<string, string[]>();
+  const edgeIds = new Set<string>();
+  blockers.forEach(blocker => {
+    const downstream = reach(graph.successors, [blocker]);
+    downstream.edgeIds.forEach(id => edgeIds.add(id));
+    downstream.nodeIds.forEach(id => {
+      // Finished work is not held up any more
+      if (graph.nodeById.get(id)!.data.status === 'done') return;
+      affected.set(id, [...(affected.get(id) ?? []), blocker]);
+    });
+  });
+
+  return { blockers, affected, edgeIds };
+}
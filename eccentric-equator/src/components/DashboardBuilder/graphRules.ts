@@ -0,0 +1,326 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData, NodeCategory, EdgeType, NodeIssueSummary, PeriodModel } from './types';
+import type { Period } from './periods';
+import { CATEGORY_CONFIG, EDGE_TYPE_CONFIG, resolveEdgeType } from './types';
+import { DEFAULT_PERIOD_MODEL, buildPeriods, periodIndex, periodLabel, periodsOfDate } from './periods';
+
+/**
+ * Semantic checks over a strategy graph. Each rule looks at the whole graph
+ * and reports issues against the nodes and edges involved; the editor shows
+ * them as node badges and in an issues list.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface GraphIssue {
+  ruleId: string;
+  severity: IssueSeverity;
+  message: string;
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+export interface GraphRuleContext {
+  nodes: StrategyNode[];
+  edges: Edge[];
+  nodeById: Map<string, StrategyNode>;
+  // Effective type of every edge (explicit, else inherited from the source category)
+  edgeType: (edge: Edge) => EdgeType;
+  // The dashboard's timeline and its columns
+  periodModel: PeriodModel;
+  periods: Period[];
+}
+
+export interface GraphRule {
+  id: string;
+  description: string;
+  check: (context: GraphRuleContext) => GraphIssue[];
+}
+
+// Edge types where the source must happen before the target
+export const ORDERING_EDGE_TYPES: EdgeType[] = ['dependency', 'supports', 'implements'];
+export const MITIGATION_EDGE_TYPES: EdgeType[] = ['mitigates', 'mitigated-by'];
+
+// Which endpoint categories make sense for each edge type
+const EDGE_CATEGORY_RULES: Record<EdgeType, { valid: (source: NodeCategory, target: NodeCategory) => boolean; expected: string }> = {
+  dependency: {
+    valid: (s, t) => s !== 'metric' && t !== 'metric',
+    expected: 'work items, not metrics',
+  },
+  supports: {
+    valid: (s, t) => !['risk', 'metric'].includes(s) && !['risk', 'metric'].includes(t),
+    expected: 'objectives, initiatives, milestones or controls',
+  },
+  implements: {
+    valid: (s, t) => ['initiative', 'milestone', 'control'].includes(s) && ['objective', 'initiative', 'milestone'].includes(t),
+    expected: 'an initiative, milestone or control implementing an objective, initiative or milestone',
+  },
+  mitigates: {
+    valid: (s, t) => (s === 'risk') !== (t === 'risk') && [s, t].some(c => ['control', 'initiative', 'milestone'].includes(c)),
+    expected: 'a risk and the control or initiative that mitigates it',
+  },
+  'mitigated-by': {
+    valid: (s, t) => (s === 'risk') !== (t === 'risk') && [s, t].some(c => ['control', 'initiative', 'milestone'].includes(c)),
+    expected: 'a risk and the control or initiative that mitigates it',
+  },
+  measures: {
+    valid: (s, t) => (s === 'metric') !== (t === 'metric'),
+    expected: 'a metric and the item it measures',
+  },
+};
+
+function titleOf(node: StrategyNode | undefined): string {
+  return node ? `"${node.data.title || 'Untitled'}"` : 'a missing node';
+}
+
+const danglingEdgeRule: GraphRule = {
+  id: 'dangling-edge',
+  description: 'Connections must join two existing nodes',
+  check: ({ edges, nodeById }) => edges
+    .filter(edge => !nodeById.has(edge.source) || !nodeById.has(edge.target))
+    .map(edge => ({
+      ruleId: 'dangling-edge',
+      severity: 'error',
+      message: 'Connection points to a node that no longer exists',
+      nodeIds: [edge.source, edge.target].filter(id => nodeById.has(id)),
+      edgeIds: [edge.id],
+    })),
+};
+
+// Only explicitly chosen types are checked: inherited defaults (e.g. every link out
+// of a control reads as "mitigated-by") were never a statement by the author
+const edgeCategoryRule: GraphRule = {
+  id: 'invalid-edge-category',
+  description: 'Connection types must join compatible categories',
+  check: ({ edges, nodeById, edgeType }) => edges.flatMap(edge => {
+    const source = nodeById.get(edge.source);
+    const target = nodeById.get(edge.target);
+    if (!source || !target || !(edge.data as { type?: EdgeType } | undefined)?.type) return [];
+    const type = edgeType(edge);
+    const rule = EDGE_CATEGORY_RULES[type];
+    if (rule.valid(source.data.category, target.data.category)) return [];
+    return [{
+      ruleId: 'invalid-edge-category',
+      severity: 'error' as const,
+      message: `"${EDGE_TYPE_CONFIG[type].label}" from ${CATEGORY_CONFIG[source.data.category].label} ${titleOf(source)} ` +
+        `to ${CATEGORY_CONFIG[target.data.category].label} ${titleOf(target)}; expected ${rule.expected}`,
+      nodeIds: [source.id, target.id],
+      edgeIds: [edge.id],
+    }];
+  }),
+};
+
+// Strongly connected components (Tarjan) of the ordering edges; any with more
+// than one node, or a node linked to itself, is a cycle
+const cycleRule: GraphRule = {
+  id: 'dependency-cycle',
+  description: 'Dependencies must not form cycles',
+  check: ({ nodes, edges, nodeById, edgeType }) => {
+    const ordering = edges.filter(e => nodeById.has(e.source) && nodeById.has(e.target) && ORDERING_EDGE_TYPES.includes(edgeType(e)));
+    const successors = new Map<string, string[]>();
+    ordering.forEach(e => successors.set(e.source, [...(successors.get(e.source) ?? []), e.target]));
+
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let counter = 0;
+
+    const connect = (id: string) => {
+      index.set(id, counter);
+      lowLink.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+      (successors.get(id) ?? []).forEach(next => {
+        if (!index.has(next)) {
+          connect(next);
+          lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+        } else if (onStack.has(next)) {
+          lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+        }
+      });
+      if (lowLink.get(id) === index.get(id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== id);
+        components.push(component);
+      }
+    };
+    nodes.forEach(n => {
+      if (!index.has(n.id)) connect(n.id);
+    });
+
+    return components.flatMap(component => {
+      const members = new Set(component);
+      const cycleEdges = ordering.filter(e => members.has(e.source) && members.has(e.target));
+      if (component.length === 1 && cycleEdges.length === 0) return [];
+      const titles = component.map(id => titleOf(nodeById.get(id))).join(' → ');
+      return [{
+        ruleId: 'dependency-cycle',
+        severity: 'error' as const,
+        message: component.length === 1 ? `${titles} depends on itself` : `Dependency cycle between ${titles}`,
+        nodeIds: component,
+        edgeIds: cycleEdges.map(e => e.id),
+      }];
+    });
+  },
+};
+
+const orphanRiskRule: GraphRule = {
+  id: 'orphan-risk',
+  description: 'Every risk should be mitigated by a control',
+  check: ({ nodes, edges, nodeById, edgeType }) => {
+    const mitigated = new Set<string>();
+    edges.forEach(edge => {
+      if (!MITIGATION_EDGE_TYPES.includes(edgeType(edge))) return;
+      const source = nodeById.get(edge.source);
+      const target = nodeById.get(edge.target);
+      if (source?.data.category === 'risk' && target?.data.category === 'control') mitigated.add(source.id);
+      if (target?.data.category === 'risk' && source?.data.category === 'control') mitigated.add(target.id);
+    });
+    return nodes
+      .filter(n => n.data.category === 'risk' && !mitigated.has(n.id))
+      .map(n => ({
+        ruleId: 'orphan-risk',
+        severity: 'warning' as const,
+        message: `Risk ${titleOf(n)} has no mitigating control`,
+        nodeIds: [n.id],
+        edgeIds: [],
+      }));
+  },
+};
+
+const temporalRule: GraphRule = {
+  id: 'temporal-order',
+  description: 'Prerequisites must not be scheduled after the work that needs them',
+  check: ({ edges, nodeById, edgeType, periods }) => edges.flatMap(edge => {
+    const source = nodeById.get(edge.source);
+    const target = nodeById.get(edge.target);
+    if (!source || !target || !ORDERING_EDGE_TYPES.includes(edgeType(edge))) return [];
+    if (periodIndex(source.data.quarter) <= periodIndex(target.data.quarter)) return [];
+    return [{
+      ruleId: 'temporal-order',
+      severity: 'warning' as const,
+      message: `${titleOf(target)} (${periodLabel(target.data.quarter, periods)}) depends on ` +
+        `${titleOf(source)}, scheduled later in ${periodLabel(source.data.quarter, periods)}`,
+      nodeIds: [target.id, source.id],
+      edgeIds: [edge.id],
+    }];
+  }),
+};
+
+const statusRule: GraphRule = {
+  id: 'status-order',
+  description: 'Finished work should not depend on unfinished prerequisites',
+  check: ({ edges, nodeById, edgeType }) => edges.flatMap(edge => {
+    const source = nodeById.get(edge.source);
+    const target = nodeById.get(edge.target);
+    if (!source || !target || !ORDERING_EDGE_TYPES.includes(edgeType(edge))) return [];
+    if (target.data.status !== 'done' || source.data.status === 'done') return [];
+    const blocked = source.data.status === 'blocked';
+    return [{
+      ruleId: 'status-order',
+      severity: blocked ? 'error' as const : 'warning' as const,
+      message: `${titleOf(target)} is done but its prerequisite ${titleOf(source)} is ${blocked ? 'blocked' : source.data.status}`,
+      nodeIds: [target.id, source.id],
+      edgeIds: [edge.id],
+    }];
+  }),
+};
+
+const scheduleRule: GraphRule = {
+  id: 'schedule-dates',
+  description: 'Start and due dates must be in order and inside the node\'s period',
+  check: ({ nodes, periodModel, periods }) => nodes.flatMap((n): GraphIssue[] => {
+    const { startDate, dueDate, quarter } = n.data;
+    if (startDate && dueDate && startDate > dueDate) {
+      return [{
+        ruleId: 'schedule-dates',
+        severity: 'error' as const,
+        message: `${titleOf(n)} is due (${dueDate}) before it starts (${startDate})`,
+        nodeIds: [n.id],
+        edgeIds: [],
+      }];
+    }
+    const outside = [startDate, dueDate].filter((d): d is string => !!d && !periodsOfDate(d, periodModel).includes(quarter));
+    if (outside.length === 0) return [];
+    return [{
+      ruleId: 'schedule-dates',
+      severity: 'warning' as const,
+      message: `${titleOf(n)} is planned for ${periodLabel(quarter, periods)} but dated ${outside.join(' / ')}`,
+      nodeIds: [n.id],
+      edgeIds: [],
+    }];
+  }),
+};
+
+const periodRule: GraphRule = {
+  id: 'period-range',
+  description: 'Nodes must be planned in one of the dashboard\'s periods',
+  check: ({ nodes, periods }) => nodes
+    .filter(n => !periods.some(p => p.key === n.data.quarter))
+    .map(n => ({
+      ruleId: 'period-range',
+      severity: 'error' as const,
+      message: `${titleOf(n)} is planned for ${n.data.quarter.toUpperCase()}, outside the dashboard's timeline`,
+      nodeIds: [n.id],
+      edgeIds: [],
+    })),
+};
+
+export const GRAPH_RULES: GraphRule[] = [
+  danglingEdgeRule,
+  edgeCategoryRule,
+  cycleRule,
+  orphanRiskRule,
+  temporalRule,
+  statusRule,
+  scheduleRule,
+  periodRule,
+];
+
+export function validateGraph(
+  nodes: StrategyNode[],
+  edges: Edge[],
+  rules: GraphRule[] = GRAPH_RULES,
+  periodModel: PeriodModel = DEFAULT_PERIOD_MODEL
+): GraphIssue[] {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const context: GraphRuleContext = {
+    nodes,
+    edges,
+    nodeById,
+    edgeType: edge => resolveEdgeType(
+      (edge.data as { type?: EdgeType } | undefined)?.type,
+      nodeById.get(edge.source)?.data.category
+    ),
+    periodModel,
+    periods: buildPeriods(periodModel),
+  };
+  const issues = rules.flatMap(rule => rule.check(context));
+  // Errors first, stable within each severity
+  return [...issues.filter(i => i.severity === 'error'), ...issues.filter(i => i.severity === 'warning')];
+}
+
+// Per-node badge data for StrategyNode
+export function summarizeIssuesByNode(issues: GraphIssue[]): Map<string, NodeIssueSummary> {
+  const summaries = new Map<string, NodeIssueSummary>();
+  issues.forEach(issue => {
+    new Set(issue.nodeIds).forEach(id => {
+      const summary = summaries.get(id) ?? { errors: 0, warnings: 0, messages: [] };
+      if (issue.severity === 'error') summary.errors++;
+      else summary.warnings++;
+      summary.messages.push(issue.message);
+      summaries.set(id, summary);
+    });
+  });
+  return summaries;
+}
@@ -1,7 +1,41 @@
 export { default as DashboardViewer } from './DashboardViewer';
 export { default as DashboardViewerWrapper } from './DashboardViewerWrapper';
 export { default as DashboardList } from './DashboardList';
+export { default as DashboardEditor } from './DashboardEditor';
+export { default as StrategicBackground } from './StrategicBackground';
+export { default as VersionDiffViewer } from './VersionDiffViewer';
+export { default as VersionTimeline } from './VersionTimeline';
+export { default as LivePresence } from './LivePresence';
+export { default as GraphIssuesPanel } from './GraphIssuesPanel';
+export { default as RiskCoverageMatrix } from './RiskCoverageMatrix';
+export { default as ViewerFilterBar } from './ViewerFilterBar';
+export { default as NodeDetailDrawer } from './NodeDetailDrawer';
+export { default as PresentationPlayer } from './PresentationPlayer';
+export { default as PresentationStepsPanel } from './PresentationStepsPanel';
 export { PDFExportContainer } from './PDFExportContainer';
 export * from './types';
+export * from './quarters';
+export * from './periods';
+export * from './lanes';
+export * from './presentation';
 export * from './dashboardStorage';
 export * from './useDeviceDetection';
+export * from './dashboardSchema';
+export * from './dashboardRepository';
+export * from './indexedDbStore';
+export * from './supabaseRepository';
+export * from './versionHistory';
+export * from './versionDiff';
+export * from './dashboardMerge';
+export * from './dashboardRealtime';
+export * from './useDashboardRealtime';
+export * from './syncQueue';
+export * from './commandHistory';
+export * from './autoLayout';
+export * from './graphRules';
+export * from './graphAnalysis';
+export * from './useGraphAnalysis';
+export * from './riskCoverage';
+export * from './metrics';
+export * from './progress';
+export * from './nodeDetails';
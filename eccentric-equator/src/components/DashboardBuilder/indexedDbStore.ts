@@ -0,0 +1,225 @@
+import type { SavedDashboard } from './dashboardStorage';
+import { getAllDashboards, getStoredVersions, clearLocalStorageData } from './dashboardStorage';
+import type { StoredVersion } from './versionHistory';
+import type { DashboardRepository, DashboardStore } from './dashboardRepository';
+import {
+  createStoreRepository,
+  createDeferredRepository,
+  createLocalStorageRepository,
+} from './dashboardRepository';
+
+const DB_NAME = 'hackfluency';
+const DB_VERSION = 1;
+const DASHBOARDS_STORE = 'dashboards';
+const VERSIONS_STORE = 'dashboard_versions';
+
+type StoreName = typeof DASHBOARDS_STORE | typeof VERSIONS_STORE;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toStorageError(error: DOMException | null): Error {
+  if (error?.name === 'QuotaExceededError') {
+    return new Error('Storage limit reached. Please delete old dashboards or versions.');
+  }
+  return error ?? new Error('IndexedDB transaction aborted');
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DASHBOARDS_STORE)) {
+        db.createObjectStore(DASHBOARDS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(VERSIONS_STORE)) {
+        const versions = db.createObjectStore(VERSIONS_STORE, { keyPath: ['dashboardId', 'version'] });
+        versions.createIndex('dashboardId', 'dashboardId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+  });
+}
+
+// IndexedDB-backed store; each collection is rewritten in a single transaction
+export function createIndexedDbStore(): DashboardStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().catch((error) => {
+        dbPromise = null;
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+
+  async function readAll<T>(name: StoreName): Promise<T[]> {
+    const db = await getDb();
+    const tx = db.transaction(name, 'readonly');
+    return promisify(tx.objectStore(name).getAll() as IDBRequest<T[]>);
+  }
+
+  async function replaceAll<T>(name: StoreName, items: T[]): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(name, 'readwrite');
+    const store = tx.objectStore(name);
+    store.clear();
+    items.forEach(item => store.put(item));
+    await transactionDone(tx);
+  }
+
+  return {
+    readDashboards: () => readAll<SavedDashboard>(DASHBOARDS_STORE),
+    writeDashboards: (dashboards) => replaceAll(DASHBOARDS_STORE, dashboards),
+    readVersions: () => readAll<StoredVersion>(VERSIONS_STORE),
+    writeVersions: (versions) => replaceAll(VERSIONS_STORE, versions),
+  };
+}
+
+export function createIndexedDbRepository(): DashboardRepository {
+  return createStoreRepository(createIndexedDbStore());
+}
+
+// --- Migration off localStorage ---
+
+const MIGRATION_MARKER_KEY = 'hackfluency_storage_migrated';
+
+function isMigrated(): boolean {
+  try {
+    return localStorage.getItem(MIGRATION_MARKER_KEY) === 'indexeddb';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * One-time copy of the `hackfluency_*` localStorage collections into
+ * IndexedDB. Records already present in IndexedDB win; the localStorage keys
+ * are only cleared once the copy has been committed.
+ */
+export async function migrateLocalStorageToIndexedDb(store: DashboardStore): Promise<number> {
+  if (typeof window === 'undefined' || isMigrated()) return 0;
+
+  const legacyDashboards = getAllDashboards();
+  const legacyVersions = getStoredVersions();
+
+  if (legacyDashboards.length > 0 || legacyVersions.length > 0) {
+    const dashboards = await store.readDashboards();
+    const knownIds = new Set(dashboards.map(d => d.id));
+    await store.writeDashboards([
+      ...dashboards,
+      ...legacyDashboards.filter(d => !knownIds.has(d.id)),
+    ]);
+
+    const versions = await store.readVersions();
+    const versionKey = (v: StoredVersion) => `${v.dashboardId}@${v.version}`;
+    const knownVersions = new Set(versions.map(versionKey));
+    await store.writeVersions([
+      ...versions,
+      ...legacyVersions.filter(v => !knownVersions.has(versionKey(v))),
+    ]);
+
+    clearLocalStorageData();
+  }
+
+  try {
+    localStorage.setItem(MIGRATION_MARKER_KEY, 'indexeddb');
+  } catch (error) {
+    console.error('Error recording storage migration:', error);
+  }
+  return legacyDashboards.length;
+}
+
+// --- Quota reporting ---
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  percentUsed: number;
+  persisted: boolean;
+}
+
+// Share of the quota past which the UI warns before writes start failing
+export const STORAGE_WARNING_PERCENT = 80;
+
+// Current origin storage usage, or null when the browser cannot report it
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return {
+      usage,
+      quota,
+      percentUsed: quota > 0 ? Math.round((usage / quota) * 100) : 0,
+      persisted,
+    };
+  } catch (error) {
+    console.error('Error estimating storage usage:', error);
+    return null;
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+// e.g. "1.2 MB of 2.0 GB (0%)"
+export function describeStorageUsage({ usage, quota, percentUsed }: StorageUsage): string {
+  return `${formatBytes(usage)} of ${formatBytes(quota)} (${percentUsed}%)`;
+}
+
+/**
+ * Default browser repository: IndexedDB (after migrating any localStorage
+ * data), falling back to localStorage when IndexedDB is missing or fails to
+ * open (e.g. some private browsing modes).
+ */
+export function createBrowserRepository(): DashboardRepository {
+  return createDeferredRepository(async () => {
+    if (!isIndexedDbAvailable()) return createLocalStorageRepository();
+
+    const store = createIndexedDbStore();
+    try {
+      await store.readDashboards();
+    } catch (error) {
+      console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+      return createLocalStorageRepository();
+    }
+
+    try {
+      await migrateLocalStorageToIndexedDb(store);
+    } catch (error) {
+      // localStorage still holds the data; keep using it and retry next load
+      console.error('Error migrating dashboards to IndexedDB:', error);
+      return createLocalStorageRepository();
+    }
+    return createStoreRepository(store);
+  });
+}
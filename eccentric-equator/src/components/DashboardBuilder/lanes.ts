@@ -0,0 +1,170 @@
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+import type { StrategyNodeData, SwimlaneDefinition } from './types';
+import { computeProgress } from './progress';
+import { computeAutoLayout } from './autoLayout';
+
+/**
+ * Optional horizontal swimlanes (teams or domains) across the timeline. Lanes
+ * are fixed-height bands stacked below the period labels; a node's lane is
+ * stored on it and follows the band it is dropped in, the way its period
+ * follows its column. Collapsing a lane only affects the view: its nodes are
+ * hidden and the lanes below close up.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+// y of the first lane, below the period labels
+export const LANES_TOP = 72;
+export const DEFAULT_LANE_HEIGHT = 400;
+export const MIN_LANE_HEIGHT = 160;
+// Strip at the top of each lane holding its header
+export const LANE_HEADER_HEIGHT = 40;
+export const COLLAPSED_LANE_HEIGHT = 44;
+
+// Nodes are not measured outside the canvas; assume a typical card
+const FALLBACK_NODE_HEIGHT = 120;
+
+const NOTHING_COLLAPSED: ReadonlySet<string> = new Set();
+
+export interface LaneBand {
+  lane: SwimlaneDefinition;
+  index: number;
+  top: number;
+  height: number;
+  collapsed: boolean;
+}
+
+export function laneBands(lanes: SwimlaneDefinition[], collapsed: ReadonlySet<string> = NOTHING_COLLAPSED): LaneBand[] {
+  let top = LANES_TOP;
+  return lanes.map((lane, index) => {
+    const isCollapsed = collapsed.has(lane.key);
+    const band = { lane, index, top, height: isCollapsed ? COLLAPSED_LANE_HEIGHT : lane.height, collapsed: isCollapsed };
+    top += band.height;
+    return band;
+  });
+}
+
+// Bottom edge of the last lane (0 without lanes)
+export function lanesBottom(bands: LaneBand[]): number {
+  const last = bands[bands.length - 1];
+  return last ? last.top + last.height : 0;
+}
+
+// Lane whose band contains y (clamped to the first/last lane); undefined without lanes
+export function laneFromY(y: number, bands: LaneBand[]): string | undefined {
+  const band = bands.find(b => y < b.top + b.height) ?? bands[bands.length - 1];
+  return band?.lane.key;
+}
+
+// A node's lane: the stored one while it exists, else the band it is drawn in
+export function laneOf(node: StrategyNode, bands: LaneBand[]): string | undefined {
+  return bands.some(b => b.lane.key === node.data.lane) ? node.data.lane : laneFromY(node.position.y, bands);
+}
+
+// y of the first node row in a lane
+export function laneContentTop(band: LaneBand): number {
+  return band.top + LANE_HEADER_HEIGHT;
+}
+
+// Height for a first lane taking in every existing node
+export function laneHeightFor(nodes: StrategyNode[]): number {
+  if (nodes.length === 0) return DEFAULT_LANE_HEIGHT;
+  const top = Math.min(...nodes.map(n => n.position.y));
+  const bottom = Math.max(...nodes.map(n => n.position.y + (n.measured?.height ?? FALLBACK_NODE_HEIGHT)));
+  return Math.max(DEFAULT_LANE_HEIGHT, Math.ceil((bottom - top + LANE_HEADER_HEIGHT * 2) / 40) * 40);
+}
+
+/**
+ * New y and lane for every node after lanes are added, removed, reordered or
+ * resized: nodes keep their offset within their lane. The first lane takes in
+ * every node; nodes of a removed lane join the lane that takes its place.
+ * With no lanes left, nodes keep their y and lose their lane.
+ */
+export function relayoutLanes(
+  nodes: StrategyNode[],
+  before: SwimlaneDefinition[],
+  after: SwimlaneDefinition[]
+): Map<string, { y: number; lane: string | undefined }> {
+  const from = laneBands(before);
+  const to = laneBands(after);
+  const top = nodes.length > 0 ? Math.min(...nodes.map(n => n.position.y)) : 0;
+  const result = new Map<string, { y: number; lane: string | undefined }>();
+
+  nodes.forEach(node => {
+    const { y } = node.position;
+    if (to.length === 0) {
+      result.set(node.id, { y, lane: undefined });
+      return;
+    }
+    const key = laneOf(node, from);
+    const old = from.find(b => b.lane.key === key);
+    if (!old) {
+      result.set(node.id, { y: laneContentTop(to[0]) + y - top, lane: to[0].lane.key });
+      return;
+    }
+    const band = to.find(b => b.lane.key === key) ?? to[Math.min(old.index, to.length - 1)];
+    result.set(node.id, { y: band.top + y - old.top, lane: band.lane.key });
+  });
+  return result;
+}
+
+/**
+ * Display positions with collapsed lanes: their nodes are hidden, nodes in
+ * lanes below move up by the space the collapsed lanes gave back
+ */
+export function applyLaneCollapse(
+  nodes: StrategyNode[],
+  lanes: SwimlaneDefinition[],
+  collapsed: ReadonlySet<string>
+): StrategyNode[] {
+  if (collapsed.size === 0 || lanes.length === 0) return nodes;
+  const expanded = laneBands(lanes);
+  const shown = laneBands(lanes, collapsed);
+  return nodes.map(node => {
+    const key = laneOf(node, expanded);
+    const index = expanded.findIndex(b => b.lane.key === key);
+    if (index < 0) return node;
+    if (shown[index].collapsed) return { ...node, hidden: true };
+    const shift = expanded[index].top - shown[index].top;
+    return shift === 0 ? node : { ...node, position: { ...node.position, y: node.position.y - shift } };
+  });
+}
+
+// Tidy layout run lane by lane, so nodes stay in their bands
+export function computeLaneLayout(
+  nodes: StrategyNode[],
+  edges: Edge[],
+  lanes: SwimlaneDefinition[]
+): Map<string, XYPosition> {
+  if (lanes.length === 0) return computeAutoLayout(nodes, edges);
+  const bands = laneBands(lanes);
+  const positions = new Map<string, XYPosition>();
+  bands.forEach(band => {
+    const members = nodes.filter(n => laneOf(n, bands) === band.lane.key);
+    computeAutoLayout(members, edges, { top: laneContentTop(band) }).forEach((position, id) => positions.set(id, position));
+  });
+  return positions;
+}
+
+export interface LaneStats {
+  lane: SwimlaneDefinition;
+  total: number;
+  done: number;
+  blocked: number;
+  // Weighted progress of the lane's own work, 0..1
+  progress: number;
+}
+
+export function computeLaneStats(nodes: StrategyNode[], edges: Edge[], lanes: SwimlaneDefinition[]): LaneStats[] {
+  const bands = laneBands(lanes);
+  return bands.map(({ lane }) => {
+    const members = nodes.filter(n => laneOf(n, bands) === lane.key);
+    return {
+      lane,
+      total: members.length,
+      done: members.filter(n => n.data.status === 'done').length,
+      blocked: members.filter(n => n.data.status === 'blocked').length,
+      progress: computeProgress(members, edges).overall,
+    };
+  });
+}
@@ -0,0 +1,136 @@
+import type { Edge, Node } from '@xyflow/react';
+import type {
+  StrategyNodeData,
+  EdgeType,
+  MetricSeries,
+  MetricMeasurement,
+  MetricTrack,
+  MetricRollupSummary,
+} from './types';
+import { resolveEdgeType } from './types';
+
+/**
+ * Metric evaluation and roll-up. A metric is on track while its latest
+ * reading holds or improves on the previous one (or on the baseline), and
+ * achieved once it meets its target. Measures edges carry metric results
+ * into the node they measure, in either direction.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+export const METRIC_TRACK_CONFIG: Record<MetricTrack, { label: string; color: string }> = {
+  achieved: { label: 'Target met', color: '#00D26A' },
+  'on-track': { label: 'On track', color: '#3b82f6' },
+  'off-track': { label: 'Off track', color: '#ef4444' },
+  'no-data': { label: 'Not enough data', color: '#6a6a6a' },
+};
+
+export interface MetricEvaluation {
+  latest: MetricMeasurement | null;
+  // Share of the way from baseline (or first reading) to target, 0..1
+  progress: number | null;
+  track: MetricTrack;
+}
+
+// Measurements in date order (ISO dates sort lexically)
+export function sortedMeasurements(metric: MetricSeries): MetricMeasurement[] {
+  return [...metric.measurements].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function meetsTarget(metric: MetricSeries, value: number): boolean {
+  if (metric.target === undefined) return false;
+  return metric.direction === 'higher' ? value >= metric.target : value <= metric.target;
+}
+
+// Whether `value` is no worse than `reference` in the metric's direction
+function holdsOrImproves(metric: MetricSeries, value: number, reference: number): boolean {
+  return metric.direction === 'higher' ? value >= reference : value <= reference;
+}
+
+export function evaluateMetric(metric: MetricSeries): MetricEvaluation {
+  const series = sortedMeasurements(metric);
+  const latest = series[series.length - 1] ?? null;
+  if (!latest) return { latest, progress: null, track: 'no-data' };
+
+  let progress: number | null = null;
+  const start = metric.baseline ?? series[0].value;
+  if (metric.target !== undefined && metric.target !== start) {
+    progress = Math.min(1, Math.max(0, (latest.value - start) / (metric.target - start)));
+  }
+
+  if (meetsTarget(metric, latest.value)) return { latest, progress: 1, track: 'achieved' };
+
+  const reference = series.length > 1 ? series[series.length - 2].value : metric.baseline;
+  if (reference === undefined) return { latest, progress, track: 'no-data' };
+  return { latest, progress, track: holdsOrImproves(metric, latest.value, reference) ? 'on-track' : 'off-track' };
+}
+
+export function formatMetricValue(value: number, unit?: string): string {
+  const number = value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  if (!unit) return number;
+  return unit === '%' ? `${number}%` : `${number} ${unit}`;
+}
+
+// Headline value for a metric node: latest reading, else the free-text value
+export function metricDisplayValue(data: StrategyNodeData): string | undefined {
+  const latest = data.metric ? evaluateMetric(data.metric).latest : null;
+  return latest ? formatMetricValue(latest.value, data.metric!.unit) : data.value;
+}
+
+/**
+ * Summaries keyed by the measured node. Only structured metrics count; a
+ * metric measuring several nodes counts towards each of them.
+ */
+export function rollUpMetrics(nodes: StrategyNode[], edges: Edge[]): Map<string, MetricRollupSummary> {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const metricsByNode = new Map<string, Set<string>>();
+
+  edges.forEach(edge => {
+    const source = nodeById.get(edge.source);
+    const target = nodeById.get(edge.target);
+    if (!source || !target) return;
+    const type = resolveEdgeType((edge.data as { type?: EdgeType } | undefined)?.type, source.data.category);
+    if (type !== 'measures') return;
+    const metric = [source, target].find(n => n.data.category === 'metric' && n.data.metric);
+    const measured = [source, target].find(n => n.data.category !== 'metric');
+    if (!metric || !measured) return;
+    metricsByNode.set(measured.id, (metricsByNode.get(measured.id) ?? new Set()).add(metric.id));
+  });
+
+  const summaries = new Map<string, MetricRollupSummary>();
+  metricsByNode.forEach((metricIds, nodeId) => {
+    const summary: MetricRollupSummary = {
+      total: 0, achieved: 0, onTrack: 0, offTrack: 0, track: 'no-data', progress: null, messages: [],
+    };
+    const progress: number[] = [];
+    metricIds.forEach(id => {
+      const data = nodeById.get(id)!.data;
+      const evaluation = evaluateMetric(data.metric!);
+      summary.total++;
+      if (evaluation.track === 'achieved') summary.achieved++;
+      if (evaluation.track === 'on-track') summary.onTrack++;
+      if (evaluation.track === 'off-track') summary.offTrack++;
+      if (evaluation.progress !== null) progress.push(evaluation.progress);
+      const value = evaluation.latest ? formatMetricValue(evaluation.latest.value, data.metric!.unit) : '–';
+      summary.messages.push(`${data.title || 'Untitled'}: ${value} (${METRIC_TRACK_CONFIG[evaluation.track].label})`);
+    });
+    if (progress.length > 0) summary.progress = progress.reduce((sum, p) => sum + p, 0) / progress.length;
+
+    // One slipping metric puts the whole node off track
+    if (summary.offTrack > 0) summary.track = 'off-track';
+    else if (summary.achieved === summary.total) summary.track = 'achieved';
+    else if (summary.achieved + summary.onTrack > 0) summary.track = 'on-track';
+    summaries.set(nodeId, summary);
+  });
+  return summaries;
+}
+
+// Attach roll-up summaries to measured nodes; other nodes are returned as-is
+export function withMetricRollups(nodes: StrategyNode[], edges: Edge[]): StrategyNode[] {
+  const rollups = rollUpMetrics(nodes, edges);
+  if (rollups.size === 0) return nodes;
+  return nodes.map(node => {
+    const rollup = rollups.get(node.id);
+    return rollup ? { ...node, data: { ...node.data, metricRollup: rollup } } : node;
+  });
+}
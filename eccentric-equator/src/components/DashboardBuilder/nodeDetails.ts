@@ -0,0 +1,182 @@
+import { createContext } from 'react';
+import type { Node } from '@xyflow/react';
+import type {
+  StrategyNodeData,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  NodeCategory,
+  Status,
+  Priority,
+  Quarter,
+} from './types';
+import { CATEGORY_CONFIG, STATUS_CONFIG, PRIORITY_CONFIG } from './types';
+
+/**
+ * Ownership, dates, tags and custom fields on strategy nodes, plus the
+ * viewer's filter and search over them (shareable as URL parameters). Custom field definitions belong to the
+ * dashboard; nodes only store values keyed by field key.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+export const NO_CUSTOM_FIELDS: CustomFieldDefinition[] = [];
+
+// Field definitions of the dashboard being shown, for labelling node values
+export const CustomFieldsContext = createContext<CustomFieldDefinition[]>(NO_CUSTOM_FIELDS);
+
+export function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function formatNodeDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// Past its due date and not finished
+export function isOverdue(data: StrategyNodeData, today = todayIso()): boolean {
+  return !!data.dueDate && data.status !== 'done' && data.dueDate < today;
+}
+
+export function ownerInitials(owner: string): string {
+  const parts = owner.trim().split(/\s+/).filter(Boolean);
+  return parts.slice(0, 2).map(p => p[0]!.toUpperCase()).join('') || '?';
+}
+
+export function formatFieldValue(value: CustomFieldValue): string {
+  return typeof value === 'number' ? value.toLocaleString('en-US') : value;
+}
+
+// Stable key for a new field (or lane): slug of the label, suffixed until unique
+export function fieldKeyFromLabel(label: string, existing: { key: string }[], fallback = 'field'): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
+  let key = base;
+  for (let i = 2; existing.some(f => f.key === key); i++) key = `${base}-${i}`;
+  return key;
+}
+
+// --- Viewer filter ---
+
+export interface NodeFilter {
+  // Free text matched against title and description
+  search: string;
+  category: NodeCategory | null;
+  status: Status | null;
+  priority: Priority | null;
+  quarter: Quarter | null;
+  owner: string | null;
+  tag: string | null;
+  // Custom field key -> required value (compared as text)
+  fields: Record<string, string>;
+}
+
+export const EMPTY_NODE_FILTER: NodeFilter = {
+  search: '',
+  category: null,
+  status: null,
+  priority: null,
+  quarter: null,
+  owner: null,
+  tag: null,
+  fields: {},
+};
+
+// Lower-cased words of a search; a node matches when it contains all of them
+export function searchTerms(search: string): string[] {
+  return search.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Search terms to highlight in node text
+export const SearchTermsContext = createContext<string[]>([]);
+
+// Text cut into runs that do / do not match any of the terms
+export function splitMatches(text: string, terms: string[]): { text: string; match: boolean }[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+  // Longest first, so 'mfa' wins over 'mf'
+  const escaped = [...terms].sort((a, b) => b.length - a.length).map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  // Splitting on a capturing group puts the matches at odd indices
+  return text.split(new RegExp(`(${escaped.join('|')})`, 'gi'))
+    .map((part, i) => ({ text: part, match: i % 2 === 1 }))
+    .filter(run => run.text);
+}
+
+export function isNodeFilterActive(filter: NodeFilter): boolean {
+  return searchTerms(filter.search).length > 0
+    || !!filter.category || !!filter.status || !!filter.priority || !!filter.quarter
+    || !!filter.owner || !!filter.tag || Object.keys(filter.fields).length > 0;
+}
+
+export function matchesNodeFilter(data: StrategyNodeData, filter: NodeFilter): boolean {
+  if (filter.category && data.category !== filter.category) return false;
+  if (filter.status && data.status !== filter.status) return false;
+  if (filter.priority && data.priority !== filter.priority) return false;
+  if (filter.quarter && data.quarter !== filter.quarter) return false;
+  if (filter.owner && data.owner !== filter.owner) return false;
+  if (filter.tag && !data.tags?.includes(filter.tag)) return false;
+  const text = `${data.title}\n${data.description}`.toLowerCase();
+  if (!searchTerms(filter.search).every(term => text.includes(term))) return false;
+  return Object.entries(filter.fields).every(([key, value]) => {
+    const actual = data.fields?.[key];
+    return actual !== undefined && String(actual) === value;
+  });
+}
+
+function distinct(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((v): v is string => !!v))].sort((a, b) => a.localeCompare(b));
+}
+
+export function collectOwners(nodes: StrategyNode[]): string[] {
+  return distinct(nodes.map(n => n.data.owner));
+}
+
+export function collectTags(nodes: StrategyNode[]): string[] {
+  return distinct(nodes.flatMap(n => n.data.tags ?? []));
+}
+
+// Values a field can be filtered by: its options, or whatever nodes hold
+export function collectFieldValues(field: CustomFieldDefinition, nodes: StrategyNode[]): string[] {
+  if (field.type === 'select' && field.options?.length) return field.options;
+  return distinct(nodes.map(n => {
+    const value = n.data.fields?.[field.key];
+    return value === undefined ? undefined : String(value);
+  }));
+}
+
+// URL parameters of a filter, e.g. ?q=mfa&status=active&field.team=SOC
+const FIELD_PARAM_PREFIX = 'field.';
+
+function oneOf<T extends string>(value: string | null, config: Record<T, unknown>): T | null {
+  return value !== null && value in config ? (value as T) : null;
+}
+
+export function nodeFilterFromParams(params: URLSearchParams): NodeFilter {
+  const fields: Record<string, string> = {};
+  params.forEach((value, name) => {
+    if (name.startsWith(FIELD_PARAM_PREFIX) && value) fields[name.slice(FIELD_PARAM_PREFIX.length)] = value;
+  });
+  return {
+    search: params.get('q') ?? '',
+    category: oneOf(params.get('category'), CATEGORY_CONFIG),
+    status: oneOf(params.get('status'), STATUS_CONFIG),
+    priority: oneOf(params.get('priority'), PRIORITY_CONFIG),
+    quarter: params.get('period') || null,
+    owner: params.get('owner') || null,
+    tag: params.get('tag') || null,
+    fields,
+  };
+}
+
+// Writes the filter into params, leaving unrelated ones (id, from, to) alone
+export function writeNodeFilterParams(filter: NodeFilter, params: URLSearchParams): void {
+  [...params.keys()].filter(name => name.startsWith(FIELD_PARAM_PREFIX)).forEach(name => params.delete(name));
+  const values: [string, string | null][] = [
+    ['q', filter.search.trim() || null],
+    ['category', filter.category],
+    ['status', filter.status],
+    ['priority', filter.priority],
+    ['period', filter.quarter],
+    ['owner', filter.owner],
+    ['tag', filter.tag],
+    ...Object.entries(filter.fields).map(([key, value]): [string, string] => [`${FIELD_PARAM_PREFIX}${key}`, value]),
+  ];
+  values.forEach(([name, value]) => (value ? params.set(name, value) : params.delete(name)));
+}
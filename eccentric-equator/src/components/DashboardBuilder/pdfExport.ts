@@ -1,11 +1,15 @@
 import { toPng, toBlob } from 'html-to-image';
 import { jsPDF } from 'jspdf';
+import type { PeriodModel } from './types';
+import { DEFAULT_PERIOD_MODEL, buildPeriods, timelineLegend, timelineTitle } from './periods';
 
 interface ExportOptions {
   title: string;
   filename?: string;
   includeHeader?: boolean;
   description?: string;
+  // Timeline shown in the header and footer legend; calendar quarters by default
+  periodModel?: PeriodModel;
 }
 
 /**
@@ -20,8 +24,11 @@ export async function exportDashboardToPDF(
     title, 
     filename = 'strategy-roadmap.pdf', 
     includeHeader = true,
-    description = ''
+    description = '',
+    periodModel = DEFAULT_PERIOD_MODEL
   } = options;
+  const periods = buildPeriods(periodModel);
+  const timeline = timelineTitle(periods);
 
   // Find the canvas element
   const canvasElement = document.querySelector(canvasSelector) as HTMLElement;
@@ -66,7 +73,8 @@ export async function exportDashboardToPDF(
     color: white;
     font-family: 'Inter', system-ui, sans-serif;
   `;
-  document.body.appendChild(loadingOverlay);
+  // Inside the full-screen element when presenting, or it would not show
+  (document.fullscreenElement ?? document.body).appendChild(loadingOverlay);
 
   // Add export mode class to prepare for capture
   canvasElement.classList.add('pdf-export-mode');
@@ -177,7 +185,7 @@ export async function exportDashboardToPDF(
 
     pdf.setProperties({
       title: title || 'Security Strategy Roadmap',
-      subject: 'Q1-Q4 Cybersecurity Strategy Roadmap',
+      subject: `${timeline} Cybersecurity Strategy Roadmap`,
       author: 'Hackfluency',
       creator: 'Hackfluency Strategy Dashboard',
       keywords: 'cybersecurity, strategy, roadmap, security planning',
@@ -227,7 +235,7 @@ export async function exportDashboardToPDF(
         month: 'long',
         day: 'numeric'
       });
-      pdf.text(`Q1 - Q4 Strategy Roadmap  •  Generated on ${dateStr}`, 40, yOffset + 20);
+      pdf.text(`${timeline} Strategy Roadmap  •  Generated on ${dateStr}`, 40, yOffset + 20);
       
       pdf.setFontSize(12);
       pdf.setTextColor(0, 210, 106);
@@ -280,27 +288,68 @@ export async function exportDashboardToPDF(
       imgHeight
     );
 
-    // Footer
-    pdf.setFontSize(9);
-    pdf.setTextColor(100, 100, 100);
-    
-    // Left footer - quarters legend
-    pdf.text('Q1: Jan-Mar  |  Q2: Apr-Jun  |  Q3: Jul-Sep  |  Q4: Oct-Dec', 15, pageHeight - 10);
-    
-    // Center footer
-    pdf.text(
-      'Security Strategy Roadmap - Confidential',
-      pageWidth / 2,
-      pageHeight - 10,
-      { align: 'center' }
-    );
-    
-    pdf.setTextColor(0, 210, 106);
-    pdf.text('hackfluency.com', pageWidth - 15, pageHeight - 10, { align: 'right' });
-    
-    pdf.setFontSize(8);
-    pdf.setTextColor(80, 80, 80);
-    pdf.text('© 2026 Hackfluency. All rights reserved.', pageWidth / 2, pageHeight - 5, { align: 'center' });
+    const drawFooter = () => {
+      pdf.setFontSize(9);
+      pdf.setTextColor(100, 100, 100);
+      
+      // Left footer - timeline legend
+      pdf.text(timelineLegend(periods, periodModel), 15, pageHeight - 10);
+      
+      // Center footer
+      pdf.text(
+        'Security Strategy Roadmap - Confidential',
+        pageWidth / 2,
+        pageHeight - 10,
+        { align: 'center' }
+      );
+      
+      pdf.setTextColor(0, 210, 106);
+      pdf.text('hackfluency.com', pageWidth - 15, pageHeight - 10, { align: 'right' });
+      
+      pdf.setFontSize(8);
+      pdf.setTextColor(80, 80, 80);
+      pdf.text('© 2026 Hackfluency. All rights reserved.', pageWidth / 2, pageHeight - 5, { align: 'center' });
+    };
+
+    drawFooter();
+
+    // Appendix pages: any [data-pdf-appendix] element in the container gets its own page
+    const appendices = Array.from(canvasElement.querySelectorAll<HTMLElement>('[data-pdf-appendix]'));
+    for (const appendix of appendices) {
+      const appendixUrl = await toPng(appendix, {
+        backgroundColor: '#0a0a0a',
+        pixelRatio: 2,
+        cacheBust: true,
+      });
+      const appendixImg = new Image();
+      await new Promise((resolve, reject) => {
+        appendixImg.onload = resolve;
+        appendixImg.onerror = reject;
+        appendixImg.src = appendixUrl;
+      });
+
+      pdf.addPage('a3', 'landscape');
+      pdf.setFillColor(10, 10, 10);
+      pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+
+      pdf.setFontSize(20);
+      pdf.setTextColor(255, 255, 255);
+      pdf.text(appendix.dataset.pdfAppendix || title, 15, 22);
+      pdf.setFontSize(11);
+      pdf.setTextColor(138, 138, 138);
+      pdf.text(title, 15, 30);
+      pdf.setDrawColor(42, 42, 42);
+      pdf.setLineWidth(0.5);
+      pdf.line(15, 35, pageWidth - 15, 35);
+
+      // Fit below the heading, never scaled up past the page width
+      const maxWidth = pageWidth - 30;
+      const maxHeight = pageHeight - 45 - 25;
+      const scale = Math.min(maxWidth / appendixImg.width, maxHeight / appendixImg.height);
+      pdf.addImage(appendixUrl, 'PNG', 15, 45, appendixImg.width * scale, appendixImg.height * scale);
+
+      drawFooter();
+    }
 
     // Save the PDF
     pdf.save(filename);
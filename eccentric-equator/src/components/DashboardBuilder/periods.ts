@@ -0,0 +1,174 @@
+import type { Quarter, PeriodModel, PeriodUnit } from './types';
+import type { DashboardSettings } from './dashboardStorage';
+import { QUARTER_CONFIG } from './types';
+
+/**
+ * Per-dashboard timeline: the columns nodes are planned in. A model counts
+ * months, quarters or halves from a (fiscal) start month, optionally anchored
+ * to a calendar year; more periods than fit in a year become multi-year lanes.
+ * Period keys are the unit prefix plus the 1-based column ('q1', 'q6', 'm11'),
+ * so a key alone gives its column; dashboards without a model use calendar
+ * quarters Q1-Q4, which keeps their existing 'q1'..'q4' keys valid.
+ */
+
+export const PERIOD_UNIT_CONFIG: Record<PeriodUnit, { label: string; prefix: string; months: number }> = {
+  month: { label: 'Months', prefix: 'm', months: 1 },
+  quarter: { label: 'Quarters', prefix: 'q', months: 3 },
+  half: { label: 'Halves', prefix: 'h', months: 6 },
+};
+
+export const MAX_PERIODS = 36;
+
+export const DEFAULT_PERIOD_MODEL: PeriodModel = { unit: 'quarter', count: 4, startMonth: 1 };
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Columns cycle through the quarter colors
+const PERIOD_COLORS = Object.values(QUARTER_CONFIG).map(q => q.color);
+
+export interface Period {
+  key: Quarter;
+  index: number;
+  // Column badge: 'Q1', 'H2', 'Jul'
+  label: string;
+  // Months covered, e.g. 'Apr - Jun'; empty for single months
+  months: string;
+  color: string;
+  // Year lane the period falls in ('2027', 'FY 2026/27', 'Year 2'); null on single-year undated timelines
+  year: string | null;
+  // Months from the start of the timeline
+  offset: number;
+}
+
+export function resolvePeriodModel(settings?: DashboardSettings | null): PeriodModel {
+  return settings?.periods ?? DEFAULT_PERIOD_MODEL;
+}
+
+export function isDefaultPeriodModel(model: PeriodModel): boolean {
+  return model.unit === DEFAULT_PERIOD_MODEL.unit
+    && model.count === DEFAULT_PERIOD_MODEL.count
+    && model.startMonth === DEFAULT_PERIOD_MODEL.startMonth
+    && model.startYear === undefined;
+}
+
+export function periodKey(unit: PeriodUnit, index: number): Quarter {
+  return `${PERIOD_UNIT_CONFIG[unit].prefix}${index + 1}`;
+}
+
+// Column of a period key, -1 when it is not one
+export function periodIndex(key: Quarter): number {
+  const match = /^[mqh]([1-9]\d*)$/.exec(key);
+  return match ? Number(match[1]) - 1 : -1;
+}
+
+export function periodKeys(model: PeriodModel): Quarter[] {
+  return Array.from({ length: model.count }, (_, i) => periodKey(model.unit, i));
+}
+
+function spansYears(model: PeriodModel): boolean {
+  return model.count * PERIOD_UNIT_CONFIG[model.unit].months > 12;
+}
+
+function yearLabel(model: PeriodModel, year: number): string | null {
+  if (model.startYear === undefined) return spansYears(model) ? `Year ${year + 1}` : null;
+  const first = model.startYear + year;
+  return model.startMonth === 1 ? String(first) : `FY ${first}/${String(first + 1).slice(2)}`;
+}
+
+export function buildPeriods(model: PeriodModel): Period[] {
+  const { months: length } = PERIOD_UNIT_CONFIG[model.unit];
+  const perYear = 12 / length;
+  return periodKeys(model).map((key, index) => {
+    const offset = index * length;
+    const first = (model.startMonth - 1 + offset) % 12;
+    const last = (first + length - 1) % 12;
+    return {
+      key,
+      index,
+      label: model.unit === 'month' ? MONTH_NAMES[first] : `${key[0].toUpperCase()}${(index % perYear) + 1}`,
+      months: length === 1 ? '' : `${MONTH_NAMES[first]} - ${MONTH_NAMES[last]}`,
+      color: PERIOD_COLORS[index % PERIOD_COLORS.length],
+      year: yearLabel(model, Math.floor(offset / 12)),
+      offset,
+    };
+  });
+}
+
+// Consecutive periods sharing a year, for the multi-year lane headers
+export function groupPeriodsByYear(periods: Period[]): { year: string; periods: Period[] }[] {
+  const groups: { year: string; periods: Period[] }[] = [];
+  periods.forEach(period => {
+    if (period.year === null) return;
+    const last = groups[groups.length - 1];
+    if (last?.year === period.year) last.periods.push(period);
+    else groups.push({ year: period.year, periods: [period] });
+  });
+  return groups;
+}
+
+export function periodName(period: Period): string {
+  return period.year ? `${period.label} ${period.year}` : period.label;
+}
+
+// Label for a key that may not be in the model (old versions, bad imports)
+export function periodLabel(key: Quarter, periods: Period[]): string {
+  const period = periods.find(p => p.key === key);
+  return period ? periodName(period) : key.toUpperCase();
+}
+
+// Periods an ISO date (YYYY-MM-DD) can fall in: at most one on a dated
+// timeline, one per year lane on an undated one
+export function periodsOfDate(date: string, model: PeriodModel): Quarter[] {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7)) - 1;
+  const { months: length } = PERIOD_UNIT_CONFIG[model.unit];
+  const span = model.count * length;
+  const keys: Quarter[] = [];
+  if (model.startYear !== undefined) {
+    const offset = (year - model.startYear) * 12 + month - (model.startMonth - 1);
+    if (offset >= 0 && offset < span) keys.push(periodKey(model.unit, Math.floor(offset / length)));
+    return keys;
+  }
+  for (let offset = (month - (model.startMonth - 1) + 12) % 12; offset < span; offset += 12) {
+    keys.push(periodKey(model.unit, Math.floor(offset / length)));
+  }
+  return keys;
+}
+
+// Period containing today, on the first year lane when the timeline is undated
+export function currentPeriod(periods: Period[], model: PeriodModel, today: string): Period | null {
+  const [key] = periodsOfDate(today, model);
+  return periods.find(p => p.key === key) ?? null;
+}
+
+// Key covering the same months under another model (clamped to its ends),
+// so nodes keep their place in time when the timeline is reshaped
+export function remapPeriodKey(key: Quarter, from: PeriodModel, to: PeriodModel): Quarter {
+  const index = periodIndex(key);
+  if (index < 0) return periodKey(to.unit, 0);
+  const absolute = (model: PeriodModel) => (model.startYear ?? 0) * 12 + model.startMonth - 1;
+  // Undated timelines are aligned on their first year
+  const anchored = from.startYear !== undefined && to.startYear !== undefined;
+  const start = (anchored ? absolute(from) : from.startMonth - 1) + index * PERIOD_UNIT_CONFIG[from.unit].months;
+  let offset = start - (anchored ? absolute(to) : to.startMonth - 1);
+  // Months before an undated fiscal start belong to the end of that fiscal year
+  if (!anchored && offset < 0) offset += 12;
+  const target = Math.floor(offset / PERIOD_UNIT_CONFIG[to.unit].months);
+  return periodKey(to.unit, Math.min(to.count - 1, Math.max(0, target)));
+}
+
+// Span of the timeline, e.g. 'Q1 - Q4' or 'Q1 2026 - Q4 2027'
+export function timelineTitle(periods: Period[]): string {
+  const first = periods[0];
+  const last = periods[periods.length - 1];
+  return first === last ? periodName(first) : `${periodName(first)} - ${periodName(last)}`;
+}
+
+// Compact legend of the columns, for print footers
+export function timelineLegend(periods: Period[], model: PeriodModel): string {
+  if (periods.length <= 6 && model.unit !== 'month') {
+    return periods.map(p => `${p.label}: ${p.months.replace(' - ', '-')}`).join('  |  ');
+  }
+  const from = `${MONTH_NAMES[model.startMonth - 1]}${model.startYear !== undefined ? ` ${model.startYear}` : ''}`;
+  return `${periods.length} ${PERIOD_UNIT_CONFIG[model.unit].label.toLowerCase()} from ${from}`;
+}
@@ -0,0 +1,65 @@
+import type { Edge, Node, Viewport } from '@xyflow/react';
+import type { StrategyNodeData, PresentationStep, PresentationViewport } from './types';
+
+/**
+ * Guided tours through a roadmap. The author records steps in the editor
+ * (what is on screen, the selected nodes, a caption); the viewer plays them
+ * full-screen and the PDF export prints one page per step. A step stores the
+ * framed area in flow units rather than a pan/zoom, so it fits any screen.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+// Pan/zoom animation between steps
+export const STEP_TRANSITION_MS = 600;
+// Margin kept around a step's area when it is framed
+export const STEP_PADDING = 0.05;
+// Zoom range while presenting, wider than the fixed desktop zoom
+export const PRESENTATION_MIN_ZOOM = 0.2;
+export const PRESENTATION_MAX_ZOOM = 2;
+
+export const NO_STEPS: PresentationStep[] = [];
+
+// Area shown by a viewport on a canvas of the given size
+export function viewportArea(viewport: Viewport, width: number, height: number): PresentationViewport {
+  return {
+    x: -viewport.x / viewport.zoom,
+    y: -viewport.y / viewport.zoom,
+    width: width / viewport.zoom,
+    height: height / viewport.zoom,
+  };
+}
+
+// Highlighted nodes that still exist
+export function stepNodeIds(step: PresentationStep, nodes: StrategyNode[]): Set<string> {
+  const ids = new Set(nodes.map(n => n.id));
+  return new Set(step.nodeIds.filter(id => ids.has(id)));
+}
+
+/**
+ * Classes for a step: highlighted nodes stand out and everything else is
+ * dimmed, keeping links between highlighted nodes. A step without
+ * highlights leaves the view as it is.
+ */
+export function stepClasses(
+  step: PresentationStep,
+  nodes: StrategyNode[],
+  edges: Edge[]
+): { nodeClasses: Map<string, string>; edgeClasses: Map<string, string> } {
+  const highlighted = stepNodeIds(step, nodes);
+  const nodeClasses = new Map<string, string>();
+  const edgeClasses = new Map<string, string>();
+  if (highlighted.size === 0) return { nodeClasses, edgeClasses };
+  nodes.forEach(n => nodeClasses.set(n.id, highlighted.has(n.id) ? 'presentation-highlight' : 'presentation-dimmed'));
+  edges.forEach(e => {
+    edgeClasses.set(e.id, highlighted.has(e.source) && highlighted.has(e.target) ? 'presentation-highlight' : 'presentation-dimmed');
+  });
+  return { nodeClasses, edgeClasses };
+}
+
+export function moveStep(steps: PresentationStep[], index: number, by: number): PresentationStep[] {
+  const next = [...steps];
+  const [step] = next.splice(index, 1);
+  next.splice(Math.max(0, Math.min(next.length, index + by)), 0, step);
+  return next;
+}
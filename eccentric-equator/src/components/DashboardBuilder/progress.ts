@@ -0,0 +1,102 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData, EdgeType, Status, Priority, NodeProgressSummary } from './types';
+import { resolveEdgeType } from './types';
+
+/**
+ * Weighted progress rolled up along supports / implements edges: the source
+ * contributes to the target, so an objective's completion is the
+ * priority-weighted completion of the initiatives and milestones behind it.
+ * Intermediate items count their own status alongside their contributors.
+ * Overall roadmap progress is weighted across objectives.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+export const ROLLUP_EDGE_TYPES: EdgeType[] = ['supports', 'implements'];
+
+// How complete an item is on its own status
+export const STATUS_COMPLETION: Record<Status, number> = { planned: 0, active: 0.5, blocked: 0, done: 1 };
+
+export const PRIORITY_WEIGHT: Record<Priority, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+export interface ProgressRollup {
+  // Objectives with at least one contributor
+  byNode: Map<string, NodeProgressSummary>;
+  // Roadmap completion, 0..1
+  overall: number;
+  // What the overall figure is weighted across
+  basis: 'objectives' | 'items';
+}
+
+function weightedMean(items: { weight: number; value: number }[]): number {
+  const total = items.reduce((sum, i) => sum + i.weight, 0);
+  return total > 0 ? items.reduce((sum, i) => sum + i.weight * i.value, 0) / total : 0;
+}
+
+export function computeProgress(nodes: StrategyNode[], edges: Edge[]): ProgressRollup {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const contributors = new Map<string, string[]>();
+
+  edges.forEach(edge => {
+    const source = nodeById.get(edge.source);
+    if (!source || !nodeById.has(edge.target) || edge.source === edge.target) return;
+    const type = resolveEdgeType((edge.data as { type?: EdgeType } | undefined)?.type, source.data.category);
+    if (!ROLLUP_EDGE_TYPES.includes(type)) return;
+    const list = contributors.get(edge.target) ?? [];
+    if (!list.includes(edge.source)) contributors.set(edge.target, [...list, edge.source]);
+  });
+
+  const progress = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  // A done item is complete whatever its contributors say; cycle members fall back to their own status
+  const walk = (id: string): number => {
+    const known = progress.get(id);
+    if (known !== undefined) return known;
+    const data = nodeById.get(id)!.data;
+    const own = STATUS_COMPLETION[data.status];
+    const children = (contributors.get(id) ?? []).filter(c => !visiting.has(c));
+    if (data.status === 'done' || children.length === 0) {
+      progress.set(id, own);
+      return own;
+    }
+    visiting.add(id);
+    const parts = children.map(c => ({ weight: PRIORITY_WEIGHT[nodeById.get(c)!.data.priority], value: walk(c) }));
+    // Objectives are outcomes: only the work behind them counts
+    if (data.category !== 'objective') parts.push({ weight: PRIORITY_WEIGHT[data.priority], value: own });
+    const value = weightedMean(parts);
+    visiting.delete(id);
+    progress.set(id, value);
+    return value;
+  };
+
+  const byNode = new Map<string, NodeProgressSummary>();
+  contributors.forEach((children, id) => {
+    if (nodeById.get(id)!.data.category !== 'objective') return;
+    byNode.set(id, {
+      progress: walk(id),
+      contributors: children.length,
+      done: children.filter(c => nodeById.get(c)!.data.status === 'done').length,
+    });
+  });
+
+  // Risks and metrics are not work to complete
+  const objectives = nodes.filter(n => n.data.category === 'objective');
+  const basis = objectives.length > 0 ? 'objectives' : 'items';
+  const counted = basis === 'objectives'
+    ? objectives
+    : nodes.filter(n => n.data.category !== 'risk' && n.data.category !== 'metric');
+  const overall = weightedMean(counted.map(n => ({ weight: PRIORITY_WEIGHT[n.data.priority], value: walk(n.id) })));
+
+  return { byNode, overall, basis };
+}
+
+// Attach progress summaries to objectives with contributors; other nodes are returned as-is
+export function withProgressRollups(nodes: StrategyNode[], edges: Edge[]): StrategyNode[] {
+  const { byNode } = computeProgress(nodes, edges);
+  if (byNode.size === 0) return nodes;
+  return nodes.map(node => {
+    const summary = byNode.get(node.id);
+    return summary ? { ...node, data: { ...node.data, progress: summary } } : node;
+  });
+}
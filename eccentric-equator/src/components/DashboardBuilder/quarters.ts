@@ -0,0 +1,54 @@
+import type { Node } from '@xyflow/react';
+import type { Quarter, StrategyNodeData } from './types';
+import { periodIndex } from './periods';
+
+// --- FIXED COORDINATE SYSTEM ---
+// Node x positions live in a virtual space of fixed-width period columns,
+// 1440px for the default four quarters; nodes use nodeOrigin [0.5, 0], so
+// position.x is the node's center. Columns are the dashboard's periods
+// (see periods.ts); 'quarter' here means whichever period a column holds.
+export const VIRTUAL_WIDTH = 1440;
+export const QUARTERS: Quarter[] = ['q1', 'q2', 'q3', 'q4'];
+export const QUARTER_WIDTH = VIRTUAL_WIDTH / QUARTERS.length;
+
+// Width of a timeline with the given number of columns
+export function timelineWidth(columns: number): number {
+  return columns * QUARTER_WIDTH;
+}
+
+// Column containing x (clamped to the first/last column)
+export function quarterFromX(x: number, keys: Quarter[] = QUARTERS): Quarter {
+  const index = Math.floor(x / QUARTER_WIDTH);
+  return keys[Math.min(keys.length - 1, Math.max(0, index))];
+}
+
+// Horizontal center of a period column
+export function quarterCenterX(quarter: Quarter): number {
+  return (Math.max(0, periodIndex(quarter)) + 0.5) * QUARTER_WIDTH;
+}
+
+// Center of the column containing x, for snapping dropped nodes into place
+export function snapToQuarterX(x: number, keys: Quarter[] = QUARTERS): number {
+  return quarterCenterX(quarterFromX(x, keys));
+}
+
+export interface QuarterMismatch {
+  id: string;
+  // Quarter stored on the node
+  stored: Quarter;
+  // Quarter of the column the node is drawn in
+  column: Quarter;
+}
+
+// 'move' keeps the stored quarter and moves the node into its column;
+// 'requarter' keeps the position and takes the column's quarter
+export type QuarterFix = 'move' | 'requarter';
+
+// Nodes whose stored quarter disagrees with the column they sit in (common in
+// dashboards created before positions drove the quarter)
+export function findQuarterMismatches(nodes: Node<StrategyNodeData>[], keys: Quarter[] = QUARTERS): QuarterMismatch[] {
+  return nodes.flatMap(node => {
+    const column = quarterFromX(node.position.x, keys);
+    return column === node.data.quarter ? [] : [{ id: node.id, stored: node.data.quarter, column }];
+  });
+}
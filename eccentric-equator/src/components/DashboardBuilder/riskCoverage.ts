@@ -0,0 +1,147 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData, EdgeType, Priority, Status } from './types';
+import { resolveEdgeType } from './types';
+import { MITIGATION_EDGE_TYPES } from './graphRules';
+
+/**
+ * Risk coverage derived from mitigation edges between risks and controls.
+ * Residual risk is the risk's priority discounted by how far its controls
+ * have got: implemented controls count fully, in-progress ones partly.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+export type ResidualRating = 'low' | 'medium' | 'high' | 'critical';
+
+export type CoverageLevel = 'none' | 'planned' | 'partial' | 'implemented';
+
+export interface CoverageControl {
+  id: string;
+  title: string;
+  status: Status;
+}
+
+export interface RiskCoverageRow {
+  riskId: string;
+  title: string;
+  priority: Priority;
+  status: Status;
+  controls: CoverageControl[];
+  coverage: CoverageLevel;
+  // 0..1 share of the risk the controls take away
+  mitigation: number;
+  residual: ResidualRating;
+}
+
+export interface RiskCoverage {
+  // Highest residual first
+  rows: RiskCoverageRow[];
+  // Open critical risks without an active or implemented control
+  uncoveredCritical: RiskCoverageRow[];
+}
+
+export const RESIDUAL_CONFIG: Record<ResidualRating, { label: string; color: string }> = {
+  low: { label: 'Low', color: '#00D26A' },
+  medium: { label: 'Medium', color: '#3b82f6' },
+  high: { label: 'High', color: '#f59e0b' },
+  critical: { label: 'Critical', color: '#ef4444' },
+};
+
+export const COVERAGE_CONFIG: Record<CoverageLevel, { label: string }> = {
+  none: { label: 'No controls' },
+  planned: { label: 'Planned' },
+  partial: { label: 'In progress' },
+  implemented: { label: 'Implemented' },
+};
+
+export const COVERAGE_LEVELS: CoverageLevel[] = ['none', 'planned', 'partial', 'implemented'];
+export const RESIDUAL_RATINGS: ResidualRating[] = ['low', 'medium', 'high', 'critical'];
+
+const PRIORITY_SEVERITY: Record<Priority, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+// How much of a risk a single control removes at each status
+const CONTROL_EFFECTIVENESS: Record<Status, number> = { done: 1, active: 0.5, planned: 0.2, blocked: 0 };
+
+function coverageLevel(controls: CoverageControl[]): CoverageLevel {
+  if (controls.some(c => c.status === 'done')) return 'implemented';
+  if (controls.some(c => c.status === 'active')) return 'partial';
+  return controls.length > 0 ? 'planned' : 'none';
+}
+
+function residualRating(score: number): ResidualRating {
+  if (score >= 3) return 'critical';
+  if (score >= 2) return 'high';
+  if (score >= 1) return 'medium';
+  return 'low';
+}
+
+export function computeRiskCoverage(nodes: StrategyNode[], edges: Edge[]): RiskCoverage {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const controlsByRisk = new Map<string, Set<string>>();
+
+  // Either direction counts: risk -mitigates-> control and control -mitigated-by-> risk
+  edges.forEach(edge => {
+    const source = nodeById.get(edge.source);
+    const target = nodeById.get(edge.target);
+    if (!source || !target) return;
+    const type = resolveEdgeType((edge.data as { type?: EdgeType } | undefined)?.type, source.data.category);
+    if (!MITIGATION_EDGE_TYPES.includes(type)) return;
+    const risk = [source, target].find(n => n.data.category === 'risk');
+    const control = [source, target].find(n => n.data.category === 'control');
+    if (!risk || !control) return;
+    controlsByRisk.set(risk.id, (controlsByRisk.get(risk.id) ?? new Set()).add(control.id));
+  });
+
+  const rows = nodes
+    .filter(n => n.data.category === 'risk')
+    .map((risk): RiskCoverageRow => {
+      const controls = [...(controlsByRisk.get(risk.id) ?? [])].map(id => {
+        const control = nodeById.get(id)!;
+        return { id, title: control.data.title, status: control.data.status };
+      });
+      // Controls act independently: each removes its share of what is left
+      const mitigation = 1 - controls.reduce((left, c) => left * (1 - CONTROL_EFFECTIVENESS[c.status]), 1);
+      // A risk marked done is closed out, whatever its controls say
+      const score = risk.data.status === 'done' ? 0 : PRIORITY_SEVERITY[risk.data.priority] * (1 - mitigation);
+      return {
+        riskId: risk.id,
+        title: risk.data.title,
+        priority: risk.data.priority,
+        status: risk.data.status,
+        controls,
+        coverage: coverageLevel(controls),
+        mitigation,
+        residual: residualRating(score),
+      };
+    })
+    .sort((a, b) =>
+      RESIDUAL_RATINGS.indexOf(b.residual) - RESIDUAL_RATINGS.indexOf(a.residual) ||
+      PRIORITY_SEVERITY[b.priority] - PRIORITY_SEVERITY[a.priority]);
+
+  return {
+    rows,
+    uncoveredCritical: rows.filter(r =>
+      r.priority === 'critical' && r.status !== 'done' && (r.coverage === 'none' || r.coverage === 'planned')),
+  };
+}
+
+// Residual rating of a risk at this priority covered by a single control at this level
+export function heatmapRating(priority: Priority, level: CoverageLevel): ResidualRating {
+  const mitigation = { none: 0, planned: CONTROL_EFFECTIVENESS.planned, partial: CONTROL_EFFECTIVENESS.active, implemented: 1 }[level];
+  return residualRating(PRIORITY_SEVERITY[priority] * (1 - mitigation));
+}
+
+// Risk counts per priority (rows) and coverage level (columns), for the heatmap
+export function coverageHeatmap(rows: RiskCoverageRow[]): Record<Priority, Record<CoverageLevel, number>> {
+  const empty = () => ({ none: 0, planned: 0, partial: 0, implemented: 0 });
+  const heatmap: Record<Priority, Record<CoverageLevel, number>> = {
+    critical: empty(),
+    high: empty(),
+    medium: empty(),
+    low: empty(),
+  };
+  rows.forEach(row => {
+    heatmap[row.priority][row.coverage]++;
+  });
+  return heatmap;
+}
@@ -0,0 +1,305 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SavedDashboard, DashboardVersion } from './dashboardStorage';
+import {
+  createDashboardRecord,
+  createVersionEntry,
+  applyDashboardUpdate,
+  assertExpectedVersion,
+  assertDeletable,
+  DashboardConflictError,
+  markPublished,
+  markArchived,
+  markRestored,
+  markTrashed,
+  markUntrashed,
+} from './dashboardStorage';
+import type { DashboardRepository, WriteOptions } from './dashboardRepository';
+import { DashboardRepositoryError, createVersionOperations } from './dashboardRepository';
+import type { DashboardRow } from './dashboardSchema';
+import { dashboardFromRow, dashboardToRow, STATUS_TO_INT } from './dashboardSchema';
+import type { StoredVersion, VersionRetention, GraphDelta } from './versionHistory';
+import { appendVersion, resolveVersion, resolveVersions, DEFAULT_VERSION_RETENTION } from './versionHistory';
+
+const DASHBOARD_COLUMNS = 'id, title, status, version, payload';
+const VERSION_COLUMNS = 'dashboard_id, version, saved_at, payload';
+
+export interface SupabaseDashboardRepository extends DashboardRepository {
+  // Dashboard IDs the signed-in user may access (via `dashboard_access`)
+  listAuthorizedIds(): Promise<string[]>;
+  listByIds(ids: string[]): Promise<SavedDashboard[]>;
+}
+
+export interface SupabaseRepositoryOptions {
+  retention?: VersionRetention;
+}
+
+// Payload is a stored history entry (snapshot or delta); rows written before
+// deltas were stored here hold plain nodes/edges/settings, read as snapshots
+interface VersionRow {
+  dashboard_id: string;
+  version: number;
+  saved_at: string;
+  payload: (Partial<Pick<DashboardVersion, 'nodes' | 'edges' | 'settings'>> & { kind?: string; delta?: GraphDelta }) | null;
+}
+
+// Payload fields a status change touches; status and version are columns
+const STATUS_PAYLOAD_KEYS = ['publishedAt', 'archivedAt', 'archivedFrom', 'trashedAt', 'trashedFrom', 'updatedAt', 'updatedBy'];
+
+function storedPayload(row: DashboardRow): Record<string, unknown> {
+  return typeof row.payload === 'object' && row.payload !== null && !Array.isArray(row.payload)
+    ? row.payload as Record<string, unknown>
+    : {};
+}
+
+// Version history is optional: without the `dashboard_versions` table (see
+// supabase/migrations) dashboards still load and save, only without history
+function isMissingTable(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+function storedVersionFromRow({ dashboard_id, version, saved_at, payload }: VersionRow): StoredVersion {
+  const base = { dashboardId: dashboard_id, version, savedAt: saved_at, settings: payload?.settings };
+  return payload?.kind === 'delta' && payload.delta
+    ? { ...base, kind: 'delta', delta: payload.delta }
+    : { ...base, kind: 'snapshot', nodes: payload?.nodes ?? [], edges: payload?.edges ?? [] };
+}
+
+function versionRowFrom(entry: StoredVersion): VersionRow {
+  const { dashboardId, version, savedAt, ...payload } = entry;
+  return { dashboard_id: dashboardId, version, saved_at: savedAt, payload };
+}
+
+/**
+ * Repository over the Supabase `dashboards`, `dashboard_access` and
+ * `dashboard_versions` tables. The client is injected so a local Supabase
+ * instance can stand in for the hosted project. Writes go on top of the
+ * stored payload, so keys this client does not know about survive. Version
+ * history is stored as snapshot/delta rows under the same retention rules
+ * as the local backends (see versionHistory).
+ */
+export function createSupabaseRepository(
+  client: SupabaseClient,
+  { retention = DEFAULT_VERSION_RETENTION }: SupabaseRepositoryOptions = {}
+): SupabaseDashboardRepository {
+  const fail = (action: string, cause: unknown): never => {
+    throw new DashboardRepositoryError(`Failed to ${action}`, { cause });
+  };
+
+  const listByIds = async (ids: string[]): Promise<SavedDashboard[]> => {
+    if (ids.length === 0) return [];
+    const { data, error } = await client.from('dashboards').select(DASHBOARD_COLUMNS).in('id', ids);
+    if (error) fail('fetch dashboards', error);
+    return (data ?? []).map(dashboardFromRow);
+  };
+
+  const listAuthorizedIds = async (): Promise<string[]> => {
+    const { data, error } = await client.from('dashboard_access').select('dashboard_id');
+    if (error) fail('fetch dashboard access', error);
+    return (data ?? []).map(row => row.dashboard_id as string);
+  };
+
+  const getRow = async (id: string): Promise<DashboardRow | null> => {
+    const { data, error } = await client
+      .from('dashboards')
+      .select(DASHBOARD_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+    if (error) fail('fetch dashboard', error);
+    return data;
+  };
+
+  const get = async (id: string): Promise<SavedDashboard | null> => {
+    const row = await getRow(id);
+    return row ? dashboardFromRow(row) : null;
+  };
+
+  // Name shown to other viewers as "updated by"
+  const currentActor = async (): Promise<string | undefined> => {
+    const { data: { session } } = await client.auth.getSession();
+    return session?.user.email ?? session?.user.id;
+  };
+
+  /**
+   * Compare-and-swap on the version column so concurrent writers cannot
+   * clobber each other. Only the payload fields in `keys` are replaced;
+   * the rest of the stored payload is written back as it was read. Legacy
+   * rows without a version column value (read as version 1) match on NULL.
+   */
+  const write = async (
+    dashboard: SavedDashboard,
+    previousVersion: number,
+    row: DashboardRow,
+    keys: string[]
+  ): Promise<SavedDashboard> => {
+    const stamped = { ...dashboard, updatedBy: await currentActor() };
+    const { id, payload, ...columns } = dashboardToRow(stamped);
+    const written = payload as Record<string, unknown>;
+    const changes = Object.fromEntries(keys.map(key => [key, written[key]]));
+    const query = client
+      .from('dashboards')
+      .update({ ...columns, payload: { ...storedPayload(row), ...changes } })
+      .eq('id', id);
+    const { data, error } = await (row.version == null ? query.is('version', null) : query.eq('version', row.version))
+      .select('id');
+    if (error) fail('save dashboard', error);
+    if ((data ?? []).length === 0) {
+      const current = await get(id);
+      if (current) throw new DashboardConflictError(current, previousVersion);
+      fail('save dashboard (it no longer exists)', null);
+    }
+    return stamped;
+  };
+
+  // Stored history of a dashboard, optionally only up to a version (ascending)
+  const readVersions = async (dashboardId: string, upTo?: number): Promise<StoredVersion[] | null> => {
+    let query = client.from('dashboard_versions').select(VERSION_COLUMNS).eq('dashboard_id', dashboardId);
+    if (upTo !== undefined) query = query.lte('version', upTo);
+    const { data, error } = await query.order('version', { ascending: true });
+    if (isMissingTable(error)) return null;
+    if (error) fail('fetch dashboard versions', error);
+    return (data ?? []).map(row => storedVersionFromRow(row as VersionRow));
+  };
+
+  /**
+   * Append to the history the way the local backends do: a delta unless a
+   * snapshot is due, then trim to the retention limit (the new oldest row is
+   * rewritten as a snapshot before older rows go). The dashboard row is
+   * already saved, so a failed history write only warns.
+   */
+  const addVersion = async (dashboard: SavedDashboard): Promise<void> => {
+    const warn = (error: unknown) =>
+      console.warn(`Dashboard ${dashboard.id}: failed to save version ${dashboard.version}`, error);
+    try {
+      const stored = await readVersions(dashboard.id);
+      if (!stored) return;
+      const next = appendVersion(
+        stored,
+        createVersionEntry(dashboard.id, dashboard.version, dashboard.nodes, dashboard.edges, dashboard.settings),
+        retention
+      );
+
+      const added = next.find(entry => entry.version === dashboard.version);
+      if (!added) return;
+      const { error } = await client.from('dashboard_versions').insert(versionRowFrom(added));
+      if (error) return warn(error);
+
+      const oldest = next[0];
+      if (!stored.some(entry => entry.version < oldest.version)) return;
+      const { error: rebaseError } = await client
+        .from('dashboard_versions')
+        .update({ payload: versionRowFrom(oldest).payload })
+        .eq('dashboard_id', dashboard.id)
+        .eq('version', oldest.version);
+      if (rebaseError) return warn(rebaseError);
+      const { error: trimError } = await client
+        .from('dashboard_versions')
+        .delete()
+        .eq('dashboard_id', dashboard.id)
+        .lt('version', oldest.version);
+      if (trimError) warn(trimError);
+    } catch (error) {
+      warn(error);
+    }
+  };
+
+  // Status changes only touch the status fields of the stored payload
+  const transition = async (
+    id: string,
+    apply: (dashboard: SavedDashboard) => SavedDashboard,
+    { expectedVersion }: WriteOptions = {}
+  ): Promise<SavedDashboard | null> => {
+    const row = await getRow(id);
+    if (!row) return null;
+    const current = dashboardFromRow(row);
+    assertExpectedVersion(current, expectedVersion);
+    return write(apply(current), current.version, row, STATUS_PAYLOAD_KEYS);
+  };
+
+  const repository: Omit<SupabaseDashboardRepository, 'restoreVersion' | 'forkVersion'> = {
+    listAuthorizedIds,
+    listByIds,
+
+    list: async () => listByIds(await listAuthorizedIds()),
+
+    get,
+
+    async create(draft) {
+      const dashboard = { ...createDashboardRecord(draft), updatedBy: await currentActor() };
+      const { error } = await client.from('dashboards').insert(dashboardToRow(dashboard));
+      if (error) fail('create dashboard', error);
+
+      const { data: { user } } = await client.auth.getUser();
+      if (user) {
+        const { error: accessError } = await client
+          .from('dashboard_access')
+          .insert({ dashboard_id: dashboard.id, user_id: user.id });
+        if (accessError) fail('grant dashboard access', accessError);
+      }
+
+      await addVersion(dashboard);
+      return dashboard;
+    },
+
+    async update(id, updates, { expectedVersion } = {}) {
+      const row = await getRow(id);
+      if (!row) return null;
+      const current = dashboardFromRow(row);
+      assertExpectedVersion(current, expectedVersion);
+
+      const { dashboard, contentChanged } = applyDashboardUpdate(current, updates);
+      // Only what the update sets, so stored parts this client left out stay
+      const saved = await write(dashboard, current.version, row, [...Object.keys(updates), 'updatedAt', 'updatedBy']);
+      if (contentChanged) await addVersion(saved);
+      return saved;
+    },
+
+    publish: (id, options) => transition(id, d => markPublished(d), options),
+    archive: (id, options) => transition(id, d => markArchived(d), options),
+    restore: (id, options) => transition(id, d => markRestored(d), options),
+    trash: (id, options) => transition(id, d => markTrashed(d), options),
+    restoreFromTrash: (id, options) => transition(id, d => markUntrashed(d), options),
+
+    async delete(id, { expectedVersion } = {}) {
+      const row = await getRow(id);
+      if (!row) return false;
+      const current = dashboardFromRow(row);
+      assertDeletable(current, expectedVersion);
+
+      // Same checks in the statement, in case it was restored or edited since the read
+      const query = client
+        .from('dashboards')
+        .delete()
+        .eq('id', id)
+        .eq('status', STATUS_TO_INT.trashed);
+      const { data, error } = await (row.version == null ? query.is('version', null) : query.eq('version', row.version))
+        .select('id');
+      if (error) fail('delete dashboard', error);
+      if ((data ?? []).length === 0) {
+        const latest = await get(id);
+        if (!latest) return false;
+        assertDeletable(latest, current.version);
+        throw new DashboardConflictError(latest, current.version);
+      }
+
+      // The versions table cascades on delete; this covers setups without the foreign key
+      const { error: versionsError } = await client.from('dashboard_versions').delete().eq('dashboard_id', id);
+      if (versionsError && !isMissingTable(versionsError)) {
+        console.warn(`Dashboard ${id}: failed to delete its versions`, versionsError);
+      }
+      return true;
+    },
+
+    async listVersions(dashboardId) {
+      const stored = await readVersions(dashboardId);
+      return stored ? resolveVersions(stored, dashboardId) : [];
+    },
+
+    async getVersion(dashboardId, version) {
+      // Deltas rebuild from the nearest snapshot at or before the version
+      const stored = await readVersions(dashboardId, version);
+      return stored ? resolveVersion(stored, dashboardId, version) : null;
+    },
+  };
+
+  return { ...repository, ...createVersionOperations(repository) };
+}
@@ -0,0 +1,220 @@
+import type { SavedDashboard } from './dashboardStorage';
+import { DashboardConflictError } from './dashboardStorage';
+import type { DashboardRepository } from './dashboardRepository';
+import { DashboardRepositoryError } from './dashboardRepository';
+import { TimeoutError, withTimeout } from '../../lib/withTimeout';
+
+/**
+ * Offline queue for dashboard mutations. When the backend is unreachable the
+ * mutation is persisted locally and replayed, in order, once connectivity
+ * returns. Stale mutations surface as conflicts instead of overwriting.
+ */
+
+export type MutationKind = 'archive' | 'restore' | 'trash' | 'restoreFromTrash' | 'delete';
+
+export interface DashboardMutation {
+  kind: MutationKind;
+  dashboardId: string;
+  // Version the user acted on; checked on replay like any other write
+  expectedVersion?: number;
+}
+
+export interface QueuedMutation extends DashboardMutation {
+  id: string;
+  queuedAt: string;
+}
+
+export interface SyncConflict {
+  mutation: QueuedMutation;
+  message: string;
+  // Stored dashboard at replay time, when known
+  current?: SavedDashboard;
+}
+
+export interface ReplayResult {
+  applied: { mutation: QueuedMutation; dashboard: SavedDashboard | null }[];
+  conflicts: SyncConflict[];
+  // Still queued (connectivity dropped again during replay)
+  remaining: number;
+}
+
+export type MutationOutcome =
+  | { status: 'applied'; dashboard: SavedDashboard | null }
+  | { status: 'queued'; mutation: QueuedMutation };
+
+export interface SyncQueue {
+  pending(): QueuedMutation[];
+  enqueue(mutation: DashboardMutation): QueuedMutation;
+  // Apply now when online, otherwise (or on a connectivity failure) queue it
+  run(repository: DashboardRepository, mutation: DashboardMutation): Promise<MutationOutcome>;
+  replay(repository: DashboardRepository): Promise<ReplayResult>;
+  subscribe(listener: (pending: QueuedMutation[]) => void): () => void;
+}
+
+const QUEUE_KEY = 'hackfluency_sync_queue';
+const DEFAULT_TIMEOUT_MS = 8000;
+
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+// fetch() network failure messages: Chrome, Firefox, Safari and Node
+const NETWORK_FAILURE = /failed to fetch|network ?error|load failed|fetch failed/i;
+
+// The status a mutation leaves the dashboard in; deletes leave nothing to check
+const TARGET_STATUS: Partial<Record<MutationKind, (dashboard: SavedDashboard) => boolean>> = {
+  archive: d => d.status === 'archived',
+  restore: d => d.status === 'draft' || d.status === 'published',
+  trash: d => d.status === 'trashed',
+  restoreFromTrash: d => d.status !== 'trashed',
+};
+
+// A conflict on replay may just be this same mutation having landed before
+// its request timed out: the dashboard has moved on, but to where we wanted
+export function alreadyApplied(mutation: DashboardMutation, current: SavedDashboard): boolean {
+  return TARGET_STATUS[mutation.kind]?.(current) ?? false;
+}
+
+// Failures worth retrying later, as opposed to the server rejecting the write
+export function isConnectivityError(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  if (error instanceof DashboardRepositoryError) return isConnectivityError(error.cause);
+  const message = (error as { message?: unknown } | null)?.message;
+  if (typeof message === 'string' && NETWORK_FAILURE.test(message)) return true;
+  // fetch() rejects with a TypeError on network failure, worded per browser;
+  // any other TypeError is a bug unless the browser reports being offline
+  return error instanceof TypeError && !isOnline();
+}
+
+export async function applyMutation(
+  repository: DashboardRepository,
+  { kind, dashboardId, expectedVersion }: DashboardMutation
+): Promise<SavedDashboard | null> {
+  switch (kind) {
+    case 'archive':
+      return repository.archive(dashboardId, { expectedVersion });
+    case 'restore':
+      return repository.restore(dashboardId, { expectedVersion });
+    case 'trash':
+      return repository.trash(dashboardId, { expectedVersion });
+    case 'restoreFromTrash':
+      return repository.restoreFromTrash(dashboardId, { expectedVersion });
+    case 'delete':
+      await repository.delete(dashboardId, { expectedVersion });
+      return null;
+  }
+}
+
+function readQueue(): QueuedMutation[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const data = localStorage.getItem(QUEUE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error reading sync queue:', error);
+    return [];
+  }
+}
+
+function writeQueue(queue: QueuedMutation[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    if (queue.length === 0) localStorage.removeItem(QUEUE_KEY);
+    else localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error writing sync queue:', error);
+  }
+}
+
+export interface SyncQueueOptions {
+  timeoutMs?: number;
+}
+
+export function createSyncQueue({ timeoutMs = DEFAULT_TIMEOUT_MS }: SyncQueueOptions = {}): SyncQueue {
+  const listeners = new Set<(pending: QueuedMutation[]) => void>();
+  let replaying: Promise<ReplayResult> | null = null;
+
+  const save = (queue: QueuedMutation[]) => {
+    writeQueue(queue);
+    listeners.forEach(listener => listener(queue));
+  };
+
+  const enqueue = (mutation: DashboardMutation): QueuedMutation => {
+    const queued: QueuedMutation = {
+      ...mutation,
+      id: `mut-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: new Date().toISOString(),
+    };
+    save([...readQueue(), queued]);
+    return queued;
+  };
+
+  const replayAll = async (repository: DashboardRepository): Promise<ReplayResult> => {
+    const result: ReplayResult = { applied: [], conflicts: [], remaining: 0 };
+    let queue = readQueue();
+
+    while (queue.length > 0) {
+      const [mutation] = queue;
+      try {
+        const dashboard = await withTimeout(applyMutation(repository, mutation), timeoutMs);
+        if (mutation.kind !== 'delete' && !dashboard) {
+          result.conflicts.push({ mutation, message: 'Dashboard no longer exists' });
+        } else {
+          result.applied.push({ mutation, dashboard });
+        }
+      } catch (error) {
+        // Still offline: keep this and everything after it, in order
+        if (isConnectivityError(error)) break;
+        if (error instanceof DashboardConflictError && alreadyApplied(mutation, error.current)) {
+          result.applied.push({ mutation, dashboard: error.current });
+        } else {
+          result.conflicts.push(error instanceof DashboardConflictError
+            ? { mutation, message: error.message, current: error.current }
+            : { mutation, message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+      // Re-read so mutations queued during replay are kept
+      queue = readQueue().filter(m => m.id !== mutation.id);
+      save(queue);
+    }
+
+    result.remaining = queue.length;
+    return result;
+  };
+
+  return {
+    pending: readQueue,
+    enqueue,
+
+    async run(repository, mutation) {
+      // Keep ordering: nothing jumps ahead of already queued work
+      if (!isOnline() || readQueue().length > 0) {
+        return { status: 'queued', mutation: enqueue(mutation) };
+      }
+      try {
+        const dashboard = await withTimeout(applyMutation(repository, mutation), timeoutMs);
+        return { status: 'applied', dashboard };
+      } catch (error) {
+        if (!isConnectivityError(error)) throw error;
+        // A timed-out request may still land: its queued copy then conflicts on
+        // replay, and replay counts it as applied if the dashboard is already there
+        return { status: 'queued', mutation: enqueue(mutation) };
+      }
+    },
+
+    replay(repository) {
+      // One replay at a time; concurrent callers share the running one
+      replaying ??= replayAll(repository).finally(() => {
+        replaying = null;
+      });
+      return replaying;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -1,11 +1,115 @@
 export type NodeCategory = 'objective' | 'initiative' | 'milestone' | 'risk' | 'control' | 'metric';
 
-export type Quarter = 'q1' | 'q2' | 'q3' | 'q4';
+// Key of the period column a node is planned in: 'q1'..'q4' under the default
+// calendar-quarter model, or e.g. 'q6', 'h2', 'm11' under a custom one (see periods.ts)
+export type Quarter = string;
+
+export type CalendarQuarter = 'q1' | 'q2' | 'q3' | 'q4';
+
+export type PeriodUnit = 'month' | 'quarter' | 'half';
+
+// How a dashboard's timeline is divided into columns
+export interface PeriodModel {
+  unit: PeriodUnit;
+  // Number of columns; more than a year's worth spans several years
+  count: number;
+  // First month of the (fiscal) year, 1-12
+  startMonth: number;
+  // Calendar year the timeline starts in; without it periods repeat every year
+  startYear?: number;
+}
 
 export type Status = 'planned' | 'active' | 'done' | 'blocked';
 
 export type Priority = 'low' | 'medium' | 'high' | 'critical';
 
+// Validation badge shown on a node (computed, never persisted)
+export interface NodeIssueSummary {
+  errors: number;
+  warnings: number;
+  messages: string[];
+}
+
+export interface NodeLink {
+  url: string;
+  label?: string;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'select';
+
+// Per-dashboard field definition; values live on each node under `fields[key]`
+export interface CustomFieldDefinition {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[]; // For select fields
+}
+
+export type CustomFieldValue = string | number;
+
+// Horizontal band across the timeline for a team or domain (see lanes.ts)
+export interface SwimlaneDefinition {
+  key: string;
+  label: string;
+  height: number; // In flow units
+}
+
+// Area of the canvas a presentation step frames, in flow units, so it fits any screen
+export interface PresentationViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One stop of a dashboard's guided tour (see presentation.ts)
+export interface PresentationStep {
+  id: string;
+  caption: string;
+  viewport: PresentationViewport;
+  nodeIds: string[]; // Highlighted nodes; none highlights the whole view
+}
+
+// Completion rolled up from supporting work (computed, never persisted)
+export interface NodeProgressSummary {
+  // Weighted completion, 0..1
+  progress: number;
+  // Direct contributors and how many of them are done
+  contributors: number;
+  done: number;
+}
+
+// Which way a metric should move
+export type MetricDirection = 'higher' | 'lower';
+
+export interface MetricMeasurement {
+  date: string; // ISO date (YYYY-MM-DD)
+  value: number;
+}
+
+// Structured metric definition, metric nodes only
+export interface MetricSeries {
+  unit?: string;
+  baseline?: number;
+  target?: number;
+  direction: MetricDirection;
+  measurements: MetricMeasurement[];
+}
+
+export type MetricTrack = 'achieved' | 'on-track' | 'off-track' | 'no-data';
+
+// Metrics measuring a node, rolled up along measures edges (computed, never persisted)
+export interface MetricRollupSummary {
+  total: number;
+  achieved: number;
+  onTrack: number;
+  offTrack: number;
+  track: MetricTrack;
+  // Mean progress towards target of the metrics that have one, 0..1
+  progress: number | null;
+  messages: string[];
+}
+
 export interface StrategyNodeData extends Record<string, unknown> {
   category: NodeCategory;
   quarter: Quarter;
@@ -13,12 +117,23 @@ export interface StrategyNodeData extends Record<string, unknown> {
   description: string;
   status: Status;
   priority: Priority;
-  value?: string; // For metrics
+  value?: string; // For metrics, free text shown when there are no measurements
+  metric?: MetricSeries; // For metrics
+  owner?: string;
+  startDate?: string; // ISO date (YYYY-MM-DD), inside the node's period
+  dueDate?: string; // ISO date (YYYY-MM-DD), inside the node's period
+  lane?: string; // Swimlane key, when the dashboard defines lanes
+  tags?: string[];
+  links?: NodeLink[]; // Tickets, docs
+  fields?: Record<string, CustomFieldValue>; // Values for the dashboard's custom fields
   mode?: 'view' | 'build'; // Controls interactive features (resize, etc.)
+  issues?: NodeIssueSummary; // Rule violations, injected by the editor
+  metricRollup?: MetricRollupSummary; // Metrics measuring this node, injected for display
+  progress?: NodeProgressSummary; // Completion of supporting work, injected for display
   [key: string]: unknown;
 }
 
-export const QUARTER_CONFIG: Record<Quarter, { label: string; color: string; months: string }> = {
+export const QUARTER_CONFIG: Record<CalendarQuarter, { label: string; color: string; months: string }> = {
   q1: { label: 'Q1', color: '#00D26A', months: 'Jan - Mar' },
   q2: { label: 'Q2', color: '#3b82f6', months: 'Apr - Jun' },
   q3: { label: 'Q3', color: '#8b5cf6', months: 'Jul - Sep' },
@@ -130,6 +245,16 @@ export const CATEGORY_EDGE_DEFAULTS: Record<NodeCategory, EdgeType> = {
   metric: 'measures',
 };
 
+// Helper function to resolve the effective edge type (explicit, else inherited)
+export function resolveEdgeType(
+  edgeType: EdgeType | undefined,
+  sourceCategory: NodeCategory | undefined
+): EdgeType {
+  if (edgeType && EDGE_TYPE_CONFIG[edgeType]) return edgeType;
+  if (sourceCategory && CATEGORY_EDGE_DEFAULTS[sourceCategory]) return CATEGORY_EDGE_DEFAULTS[sourceCategory];
+  return 'dependency';
+}
+
 // Helper function to resolve edge color
 export function resolveEdgeColor(
   edgeType: EdgeType | undefined,
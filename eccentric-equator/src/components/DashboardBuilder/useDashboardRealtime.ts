@@ -0,0 +1,78 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { SavedDashboard } from './dashboardStorage';
+import type { DashboardRealtime, ViewerPresence } from './dashboardRealtime';
+
+export interface RemoteUpdate {
+  by: string;
+  at: string;
+}
+
+export interface DashboardRealtimeState {
+  // Latest known copy of the dashboard (initial value until a change arrives)
+  dashboard: SavedDashboard | null;
+  lastUpdate: RemoteUpdate | null;
+  // Other people viewing the same dashboard
+  viewers: ViewerPresence[];
+}
+
+const VIEWER_ID_KEY = 'hf_viewer_id';
+
+// One id per browser tab so the same user in two tabs shows up once per tab
+function getViewerId(): string {
+  try {
+    const existing = sessionStorage.getItem(VIEWER_ID_KEY);
+    if (existing) return existing;
+    const id = crypto.randomUUID();
+    sessionStorage.setItem(VIEWER_ID_KEY, id);
+    return id;
+  } catch {
+    return `viewer-${Math.random().toString(36).slice(2)}`;
+  }
+}
+
+// Ignore events older than what is already shown (e.g. delivered out of order)
+function isNewer(incoming: SavedDashboard, current: SavedDashboard): boolean {
+  if (incoming.version !== current.version) return incoming.version > current.version;
+  return Date.parse(incoming.updatedAt) >= Date.parse(current.updatedAt);
+}
+
+/**
+ * Subscribe to live changes and presence for an open dashboard.
+ * `viewerName` is what other viewers see (e.g. the signed-in email).
+ */
+export function useDashboardRealtime(
+  initial: SavedDashboard | null,
+  realtime: DashboardRealtime,
+  viewerName: string
+): DashboardRealtimeState {
+  const [dashboard, setDashboard] = useState<SavedDashboard | null>(initial);
+  const [lastUpdate, setLastUpdate] = useState<RemoteUpdate | null>(null);
+  const [viewers, setViewers] = useState<ViewerPresence[]>([]);
+  const viewerId = useMemo(getViewerId, []);
+  const currentRef = useRef(initial);
+
+  useEffect(() => {
+    currentRef.current = initial;
+    setDashboard(initial);
+  }, [initial]);
+
+  const dashboardId = initial?.id ?? null;
+
+  useEffect(() => {
+    if (!dashboardId) return;
+
+    const self: ViewerPresence = { viewerId, name: viewerName, joinedAt: new Date().toISOString() };
+    return realtime.subscribe(dashboardId, self, {
+      onChange: (incoming) => {
+        const current = currentRef.current;
+        if (current && !isNewer(incoming, current)) return;
+        currentRef.current = incoming;
+        setDashboard(incoming);
+        setLastUpdate({ by: incoming.updatedBy || 'someone', at: incoming.updatedAt });
+      },
+      onPresence: (all) => setViewers(all.filter(v => v.viewerId !== viewerId)),
+    });
+  }, [dashboardId, realtime, viewerId, viewerName]);
+
+  return { dashboard, lastUpdate, viewers };
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { VIRTUAL_WIDTH } from './quarters';
 
 /**
  * Device type based on screen size
@@ -191,6 +192,50 @@ export function useReactFlowConfig(deviceInfo: DeviceInfo) {
   }, [deviceInfo]);
 }
 
+/**
+ * Viewport settings that depend on how wide the timeline is
+ */
+interface TimelineViewportConfig {
+  panOnDrag: boolean;
+  minZoom: number;
+  maxZoom: number;
+  defaultViewport: { x: number; y: number; zoom: number };
+  translateExtent: number[][];
+}
+
+// Smallest zoom a fixed view shrinks to before it lets the user pan instead
+export const MIN_FIXED_ZOOM = 0.6;
+
+/**
+ * Adapt a ReactFlow configuration to content larger than the default four
+ * quarters (wider timelines, stacked swimlanes): the pan extent grows with
+ * it, and a fixed zoom shrinks so the content still fits, down to
+ * `minFixedZoom` (past that, panning is enabled)
+ */
+export function fitConfigToTimeline<T extends TimelineViewportConfig>(
+  config: T,
+  { width, height = 0 }: { width: number; height?: number },
+  minFixedZoom = MIN_FIXED_ZOOM
+): T {
+  const [[left, top], [right, bottom]] = config.translateExtent;
+  if (width <= VIRTUAL_WIDTH && height <= bottom) return config;
+  const widened = {
+    ...config,
+    translateExtent: [[left, top], [right + Math.max(0, width - VIRTUAL_WIDTH), Math.max(bottom, height + 50)]],
+  };
+  if (config.minZoom !== config.maxZoom) return widened;
+
+  const scale = Math.min(VIRTUAL_WIDTH / Math.max(width, VIRTUAL_WIDTH), bottom / Math.max(height, bottom));
+  const zoom = Math.max(minFixedZoom, config.minZoom * scale);
+  return {
+    ...widened,
+    minZoom: zoom,
+    maxZoom: zoom,
+    defaultViewport: { ...config.defaultViewport, zoom },
+    panOnDrag: config.panOnDrag || zoom === minFixedZoom,
+  };
+}
+
 /**
  * Hook to get CSS class for container based on device
  */
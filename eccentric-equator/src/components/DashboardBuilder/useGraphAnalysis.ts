@@ -0,0 +1,107 @@
+import { useMemo } from 'react';
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData } from './types';
+import {
+  buildDependencyGraph,
+  computeImpact,
+  computeCriticalPath,
+  computeBlockedPropagation,
+  computeNeighbourhood,
+} from './graphAnalysis';
+
+// 'focus' turns clicking a node into showing just its neighbourhood
+export type AnalysisMode = 'none' | 'critical' | 'blocked' | 'focus';
+
+export interface GraphAnalysisView {
+  // Class names for React Flow node/edge wrappers; anything absent is dimmed while active
+  nodeClasses: Map<string, string>;
+  edgeClasses: Map<string, string>;
+  active: boolean;
+  summary: string | null;
+}
+
+const INACTIVE: GraphAnalysisView = { nodeClasses: new Map(), edgeClasses: new Map(), active: false, summary: null };
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Highlighting for the viewer's analysis views. A focused node (impact of a
+ * slip, or its neighbourhood in focus mode) takes precedence over the
+ * critical path / blocked views.
+ */
+export function useGraphAnalysis(
+  nodes: Node<StrategyNodeData>[],
+  edges: Edge[],
+  mode: AnalysisMode,
+  focusNodeId: string | null
+): GraphAnalysisView {
+  const graph = useMemo(() => buildDependencyGraph(nodes, edges), [nodes, edges]);
+
+  return useMemo(() => {
+    const nodeClasses = new Map<string, string>();
+    const edgeClasses = new Map<string, string>();
+
+    if (mode === 'focus') {
+      const node = focusNodeId ? graph.nodeById.get(focusNodeId) : undefined;
+      if (!node) return { ...INACTIVE, summary: 'Focus mode: click a node to show its connections' };
+      const neighbourhood = computeNeighbourhood(edges, node.id);
+      nodeClasses.set(node.id, 'analysis-focus');
+      neighbourhood.nodeIds.forEach(id => nodeClasses.set(id, 'analysis-neighbour'));
+      neighbourhood.edgeIds.forEach(id => edgeClasses.set(id, 'analysis-path'));
+      return {
+        nodeClasses,
+        edgeClasses,
+        active: true,
+        summary: `Focus on "${node.data.title || 'Untitled'}": ${plural(neighbourhood.nodeIds.size, 'connected item')}`,
+      };
+    }
+
+    if (focusNodeId && graph.nodeById.has(focusNodeId)) {
+      const impact = computeImpact(graph, focusNodeId);
+      nodeClasses.set(focusNodeId, 'analysis-focus');
+      impact.upstream.forEach(id => nodeClasses.set(id, 'analysis-upstream'));
+      impact.downstream.forEach(id => nodeClasses.set(id, 'analysis-downstream'));
+      impact.edgeIds.forEach(id => edgeClasses.set(id, 'analysis-path'));
+      const title = graph.nodeById.get(focusNodeId)!.data.title || 'Untitled';
+      return {
+        nodeClasses,
+        edgeClasses,
+        active: true,
+        summary: `If "${title}" slips: ${plural(impact.downstream.size, 'item')} downstream · waits on ${impact.upstream.size}`,
+      };
+    }
+
+    if (mode === 'critical') {
+      const path = computeCriticalPath(graph);
+      path.nodeIds.forEach(id => nodeClasses.set(id, 'analysis-critical'));
+      path.edgeIds.forEach(id => edgeClasses.set(id, 'analysis-critical'));
+      return {
+        nodeClasses,
+        edgeClasses,
+        active: path.nodeIds.length > 0,
+        summary: path.nodeIds.length > 0
+          ? `Critical path: ${plural(path.nodeIds.length, 'step')}, ${path.remaining} still open`
+          : 'No dependency chains to analyse',
+      };
+    }
+
+    if (mode === 'blocked') {
+      const blocked = computeBlockedPropagation(graph);
+      blocked.affected.forEach((_, id) => nodeClasses.set(id, 'analysis-blocked'));
+      blocked.blockers.forEach(id => nodeClasses.set(id, 'analysis-blocker'));
+      blocked.edgeIds.forEach(id => edgeClasses.set(id, 'analysis-blocked'));
+      return {
+        nodeClasses,
+        edgeClasses,
+        active: blocked.blockers.size > 0,
+        summary: blocked.blockers.size > 0
+          ? `${plural(blocked.blockers.size, 'blocked item')} holding up ${[...blocked.affected.keys()].filter(id => !blocked.blockers.has(id)).length} more`
+          : 'Nothing is blocked',
+      };
+    }
+
+    return INACTIVE;
+  }, [graph, edges, mode, focusNodeId]);
+}
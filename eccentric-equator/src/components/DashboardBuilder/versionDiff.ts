@@ -0,0 +1,229 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData, EdgeType, NodeCategory, SwimlaneDefinition } from './types';
+import {
+  CATEGORY_CONFIG,
+  CATEGORY_EDGE_DEFAULTS,
+  EDGE_TYPE_CONFIG,
+  PRIORITY_CONFIG,
+  STATUS_CONFIG,
+} from './types';
+import type { DashboardVersion } from './dashboardStorage';
+import type { Period } from './periods';
+import { DEFAULT_PERIOD_MODEL, buildPeriods, periodLabel } from './periods';
+
+export type NodeChangeKind = 'added' | 'removed' | 'moved' | 'status' | 'edited';
+export type EdgeChangeKind = 'added' | 'removed' | 'retyped';
+
+export interface NodeChange {
+  nodeId: string;
+  kinds: NodeChangeKind[];
+  before?: Node<StrategyNodeData>;
+  after?: Node<StrategyNodeData>;
+}
+
+export interface EdgeChange {
+  edgeId: string;
+  kind: EdgeChangeKind;
+  before?: Edge;
+  after?: Edge;
+}
+
+export interface VersionComparison {
+  fromVersion: number;
+  toVersion: number;
+  nodeChanges: NodeChange[];
+  edgeChanges: EdgeChange[];
+}
+
+// Position shifts smaller than this are treated as noise, not moves
+const MOVE_THRESHOLD = 20;
+
+function edgeTypeOf(edge: Edge, nodes: Node<StrategyNodeData>[]): EdgeType {
+  const explicit = (edge.data as { type?: EdgeType } | undefined)?.type;
+  if (explicit) return explicit;
+  const source = nodes.find(n => n.id === edge.source);
+  return source ? CATEGORY_EDGE_DEFAULTS[source.data.category] : 'dependency';
+}
+
+// Schedule, tags, links and custom field values
+function detailsChanged(before: StrategyNodeData, after: StrategyNodeData): boolean {
+  return (['startDate', 'dueDate', 'tags', 'links', 'fields'] as const)
+    .some(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+}
+
+function compareNode(before: Node<StrategyNodeData>, after: Node<StrategyNodeData>): NodeChangeKind[] {
+  const kinds: NodeChangeKind[] = [];
+  const dx = Math.abs(before.position.x - after.position.x);
+  const dy = Math.abs(before.position.y - after.position.y);
+  if (before.data.quarter !== after.data.quarter || before.data.lane !== after.data.lane || dx > MOVE_THRESHOLD || dy > MOVE_THRESHOLD) {
+    kinds.push('moved');
+  }
+  if (before.data.status !== after.data.status) kinds.push('status');
+  if (
+    before.data.title !== after.data.title ||
+    before.data.description !== after.data.description ||
+    before.data.priority !== after.data.priority ||
+    before.data.category !== after.data.category ||
+    before.data.value !== after.data.value ||
+    JSON.stringify(before.data.metric) !== JSON.stringify(after.data.metric) ||
+    before.data.owner !== after.data.owner ||
+    detailsChanged(before.data, after.data)
+  ) {
+    kinds.push('edited');
+  }
+  return kinds;
+}
+
+export function compareVersions(from: DashboardVersion, to: DashboardVersion): VersionComparison {
+  const fromNodes = new Map(from.nodes.map(n => [n.id, n]));
+  const toNodes = new Map(to.nodes.map(n => [n.id, n]));
+  const nodeChanges: NodeChange[] = [];
+
+  to.nodes.forEach(after => {
+    const before = fromNodes.get(after.id);
+    if (!before) {
+      nodeChanges.push({ nodeId: after.id, kinds: ['added'], after });
+      return;
+    }
+    const kinds = compareNode(before, after);
+    if (kinds.length > 0) nodeChanges.push({ nodeId: after.id, kinds, before, after });
+  });
+  from.nodes.forEach(before => {
+    if (!toNodes.has(before.id)) nodeChanges.push({ nodeId: before.id, kinds: ['removed'], before });
+  });
+
+  const fromEdges = new Map(from.edges.map(e => [e.id, e]));
+  const toEdges = new Map(to.edges.map(e => [e.id, e]));
+  const edgeChanges: EdgeChange[] = [];
+
+  to.edges.forEach(after => {
+    const before = fromEdges.get(after.id);
+    if (!before) {
+      edgeChanges.push({ edgeId: after.id, kind: 'added', after });
+    } else if (edgeTypeOf(before, from.nodes) !== edgeTypeOf(after, to.nodes)) {
+      edgeChanges.push({ edgeId: after.id, kind: 'retyped', before, after });
+    }
+  });
+  from.edges.forEach(before => {
+    if (!toEdges.has(before.id)) edgeChanges.push({ edgeId: before.id, kind: 'removed', before });
+  });
+
+  return { fromVersion: from.version, toVersion: to.version, nodeChanges, edgeChanges };
+}
+
+/**
+ * Graph to render for a comparison: the newer version plus the nodes and
+ * edges that were removed since the older one, each tagged with a
+ * `diff-*` class name for highlighting.
+ */
+export function buildComparisonGraph(
+  from: DashboardVersion,
+  to: DashboardVersion,
+  comparison: VersionComparison
+): { nodes: Node<StrategyNodeData>[]; edges: Edge[] } {
+  const nodeKinds = new Map(comparison.nodeChanges.map(c => [c.nodeId, c.kinds]));
+  const edgeKinds = new Map(comparison.edgeChanges.map(c => [c.edgeId, c.kind]));
+  const removedNodes = comparison.nodeChanges.filter(c => c.kinds.includes('removed')).map(c => c.before!);
+  const removedEdges = comparison.edgeChanges.filter(c => c.kind === 'removed').map(c => c.before!);
+
+  const nodes = [...to.nodes, ...removedNodes].map(node => {
+    const kinds = nodeKinds.get(node.id);
+    return kinds ? { ...node, className: kinds.map(k => `diff-${k}`).join(' ') } : node;
+  });
+  const edges = [...to.edges, ...removedEdges].map(edge => {
+    const kind = edgeKinds.get(edge.id);
+    return kind ? { ...edge, className: `diff-${kind}` } : edge;
+  });
+
+  return { nodes, edges };
+}
+
+function nodeLabel(node: Node<StrategyNodeData>): string {
+  const category: NodeCategory = node.data.category;
+  return `${CATEGORY_CONFIG[category]?.label ?? 'Node'} '${node.data.title}'`;
+}
+
+export interface ChangeSummary {
+  kind: 'added' | 'removed' | 'changed';
+  text: string;
+  nodeId?: string;
+  edgeId?: string;
+}
+
+// Human-readable change list, e.g. "Initiative 'Asset Inventory' moved Q1→Q2, status planned→active"
+export function describeChanges(
+  comparison: VersionComparison,
+  from: DashboardVersion,
+  to: DashboardVersion,
+  periods: Period[] = buildPeriods(DEFAULT_PERIOD_MODEL),
+  lanes: SwimlaneDefinition[] = []
+): ChangeSummary[] {
+  const lines: ChangeSummary[] = [];
+  const laneLabel = (key: string | undefined) => (key ? lanes.find(l => l.key === key)?.label ?? key : 'no lane');
+  const allNodes = new Map([...from.nodes, ...to.nodes].map(n => [n.id, n]));
+  const titleOf = (id: string) => allNodes.get(id)?.data.title ?? id;
+
+  comparison.nodeChanges.forEach(({ nodeId, kinds, before, after }) => {
+    if (kinds.includes('added') && after) {
+      lines.push({
+        kind: 'added',
+        nodeId,
+        text: `${nodeLabel(after)} added in ${periodLabel(after.data.quarter, periods)}`,
+      });
+      return;
+    }
+    if (kinds.includes('removed') && before) {
+      lines.push({ kind: 'removed', nodeId, text: `${nodeLabel(before)} removed` });
+      return;
+    }
+    if (!before || !after) return;
+
+    const parts: string[] = [];
+    if (kinds.includes('moved')) {
+      const moves: string[] = [];
+      if (before.data.quarter !== after.data.quarter) {
+        moves.push(`moved ${periodLabel(before.data.quarter, periods)}→${periodLabel(after.data.quarter, periods)}`);
+      }
+      if (before.data.lane !== after.data.lane) {
+        moves.push(`lane ${laneLabel(before.data.lane)}→${laneLabel(after.data.lane)}`);
+      }
+      parts.push(...(moves.length > 0 ? moves : ['repositioned']));
+    }
+    if (kinds.includes('status')) {
+      parts.push(`status ${STATUS_CONFIG[before.data.status].label.toLowerCase()}→${STATUS_CONFIG[after.data.status].label.toLowerCase()}`);
+    }
+    if (kinds.includes('edited')) {
+      if (before.data.title !== after.data.title) parts.push(`renamed from '${before.data.title}'`);
+      if (before.data.priority !== after.data.priority) {
+        parts.push(`priority ${PRIORITY_CONFIG[before.data.priority].label.toLowerCase()}→${PRIORITY_CONFIG[after.data.priority].label.toLowerCase()}`);
+      }
+      if (before.data.description !== after.data.description) parts.push('description edited');
+      if (before.data.value !== after.data.value) parts.push(`value ${before.data.value ?? '—'}→${after.data.value ?? '—'}`);
+      if (JSON.stringify(before.data.metric) !== JSON.stringify(after.data.metric)) parts.push('metric updated');
+      if (before.data.owner !== after.data.owner) parts.push(`owner ${before.data.owner ?? '—'}→${after.data.owner ?? '—'}`);
+      if (detailsChanged(before.data, after.data)) parts.push('details edited');
+      if (before.data.category !== after.data.category) {
+        parts.push(`category ${CATEGORY_CONFIG[before.data.category].label}→${CATEGORY_CONFIG[after.data.category].label}`);
+      }
+    }
+    lines.push({ kind: 'changed', nodeId, text: `${nodeLabel(after)} ${parts.join(', ')}` });
+  });
+
+  comparison.edgeChanges.forEach(({ edgeId, kind, before, after }) => {
+    const edge = (after ?? before)!;
+    const link = `'${titleOf(edge.source)}' → '${titleOf(edge.target)}'`;
+    if (kind === 'added') {
+      lines.push({ kind, edgeId, text: `${EDGE_TYPE_CONFIG[edgeTypeOf(edge, to.nodes)].label} link ${link} added` });
+    } else if (kind === 'removed') {
+      lines.push({ kind, edgeId, text: `${EDGE_TYPE_CONFIG[edgeTypeOf(edge, from.nodes)].label} link ${link} removed` });
+    } else if (before && after) {
+      lines.push({
+        kind: 'changed',
+        edgeId,
+        text: `Link ${link} changed ${EDGE_TYPE_CONFIG[edgeTypeOf(before, from.nodes)].label}→${EDGE_TYPE_CONFIG[edgeTypeOf(after, to.nodes)].label}`,
+      });
+    }
+  });
+
+  return lines;
+}
@@ -0,0 +1,206 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { StrategyNodeData } from './types';
+import type { DashboardVersion, DashboardSettings } from './dashboardStorage';
+
+/**
+ * Version history stored as structural deltas.
+ *
+ * Each dashboard's history is a chain: a full snapshot every
+ * `snapshotInterval` versions, and deltas against the previous version in
+ * between. Any version is rebuilt from the nearest snapshot before it.
+ */
+
+type StrategyNode = Node<StrategyNodeData>;
+
+export interface GraphDelta {
+  addedNodes: StrategyNode[];
+  removedNodeIds: string[];
+  changedNodes: StrategyNode[];
+  addedEdges: Edge[];
+  removedEdgeIds: string[];
+  changedEdges: Edge[];
+}
+
+interface StoredVersionBase {
+  dashboardId: string;
+  version: number;
+  savedAt: string;
+}
+
+// Entries written before deltas existed have no `kind` and are full snapshots.
+// Settings are small, so deltas carry them whole.
+export type StoredVersion =
+  | (StoredVersionBase & { kind?: 'snapshot'; nodes: StrategyNode[]; edges: Edge[]; settings?: DashboardSettings })
+  | (StoredVersionBase & { kind: 'delta'; delta: GraphDelta; settings?: DashboardSettings });
+
+export interface VersionRetention {
+  // Maximum versions kept per dashboard; null keeps the full history
+  maxVersions: number | null;
+  // A full snapshot is stored every N versions
+  snapshotInterval: number;
+}
+
+export const DEFAULT_VERSION_RETENTION: VersionRetention = {
+  maxVersions: null,
+  snapshotInterval: 10,
+};
+
+// --- Structural diff ---
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffById<T extends { id: string }>(previous: T[], next: T[]) {
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+
+  return {
+    added: next.filter(item => !previousById.has(item.id)),
+    removed: previous.filter(item => !nextIds.has(item.id)).map(item => item.id),
+    changed: next.filter(item => {
+      const before = previousById.get(item.id);
+      return before !== undefined && !isEqual(before, item);
+    }),
+  };
+}
+
+export function diffGraph(
+  previous: { nodes: StrategyNode[]; edges: Edge[] },
+  next: { nodes: StrategyNode[]; edges: Edge[] }
+): GraphDelta {
+  const nodes = diffById(previous.nodes, next.nodes);
+  const edges = diffById(previous.edges, next.edges);
+  return {
+    addedNodes: nodes.added,
+    removedNodeIds: nodes.removed,
+    changedNodes: nodes.changed,
+    addedEdges: edges.added,
+    removedEdgeIds: edges.removed,
+    changedEdges: edges.changed,
+  };
+}
+
+export function isEmptyDelta(delta: GraphDelta): boolean {
+  return delta.addedNodes.length === 0 && delta.removedNodeIds.length === 0 &&
+    delta.changedNodes.length === 0 && delta.addedEdges.length === 0 &&
+    delta.removedEdgeIds.length === 0 && delta.changedEdges.length === 0;
+}
+
+function applyById<T extends { id: string }>(items: T[], added: T[], removedIds: string[], changed: T[]): T[] {
+  const removed = new Set(removedIds);
+  const changedById = new Map(changed.map(item => [item.id, item]));
+  return [
+    ...items.filter(item => !removed.has(item.id)).map(item => changedById.get(item.id) ?? item),
+    ...added,
+  ];
+}
+
+export function applyDelta(
+  base: { nodes: StrategyNode[]; edges: Edge[] },
+  delta: GraphDelta
+): { nodes: StrategyNode[]; edges: Edge[] } {
+  return {
+    nodes: applyById(base.nodes, delta.addedNodes, delta.removedNodeIds, delta.changedNodes),
+    edges: applyById(base.edges, delta.addedEdges, delta.removedEdgeIds, delta.changedEdges),
+  };
+}
+
+// --- Chain reconstruction ---
+
+function chainFor(stored: StoredVersion[], dashboardId: string): StoredVersion[] {
+  return stored
+    .filter(v => v.dashboardId === dashboardId)
+    .sort((a, b) => a.version - b.version);
+}
+
+// Rebuild every version of a chain (ascending order)
+function resolveChain(chain: StoredVersion[]): DashboardVersion[] {
+  const resolved: DashboardVersion[] = [];
+  let current: { nodes: StrategyNode[]; edges: Edge[] } | null = null;
+
+  for (const entry of chain) {
+    if (entry.kind === 'delta') {
+      // A delta without a preceding snapshot cannot be rebuilt
+      if (!current) continue;
+      current = applyDelta(current, entry.delta);
+    } else {
+      current = { nodes: entry.nodes, edges: entry.edges };
+    }
+    resolved.push({
+      dashboardId: entry.dashboardId,
+      version: entry.version,
+      nodes: current.nodes,
+      edges: current.edges,
+      settings: entry.settings,
+      savedAt: entry.savedAt,
+    });
+  }
+  return resolved;
+}
+
+// All versions of a dashboard, newest first
+export function resolveVersions(stored: StoredVersion[], dashboardId: string): DashboardVersion[] {
+  return resolveChain(chainFor(stored, dashboardId)).reverse();
+}
+
+export function resolveVersion(
+  stored: StoredVersion[],
+  dashboardId: string,
+  version: number
+): DashboardVersion | null {
+  const chain = chainFor(stored, dashboardId);
+  const index = chain.findIndex(v => v.version === version);
+  if (index === -1) return null;
+
+  let start = index;
+  while (start > 0 && chain[start].kind === 'delta') start--;
+  return resolveChain(chain.slice(start, index + 1)).pop() ?? null;
+}
+
+function toSnapshot(version: DashboardVersion): StoredVersion {
+  return { kind: 'snapshot', ...version };
+}
+
+/**
+ * Append a version to the stored history. Stores a delta against the previous
+ * version unless a snapshot is due, then applies the retention limit (the
+ * oldest kept version is re-based into a snapshot so the chain stays valid).
+ */
+export function appendVersion(
+  stored: StoredVersion[],
+  entry: DashboardVersion,
+  retention: VersionRetention = DEFAULT_VERSION_RETENTION
+): StoredVersion[] {
+  const others = stored.filter(v => v.dashboardId !== entry.dashboardId);
+  const chain = chainFor(stored, entry.dashboardId).filter(v => v.version !== entry.version);
+
+  const lastSnapshotIndex = chain.map(v => v.kind !== 'delta').lastIndexOf(true);
+  const sinceSnapshot = lastSnapshotIndex === -1 ? Infinity : chain.length - lastSnapshotIndex;
+  const previous = chain.length > 0
+    ? resolveVersion(chain, entry.dashboardId, chain[chain.length - 1].version)
+    : null;
+
+  let nextChain: StoredVersion[] = [
+    ...chain,
+    previous && sinceSnapshot < retention.snapshotInterval
+      ? {
+          kind: 'delta',
+          dashboardId: entry.dashboardId,
+          version: entry.version,
+          savedAt: entry.savedAt,
+          delta: diffGraph(previous, entry),
+          settings: entry.settings,
+        }
+      : toSnapshot(entry),
+  ];
+
+  if (retention.maxVersions !== null && nextChain.length > retention.maxVersions) {
+    const keepFrom = nextChain.length - retention.maxVersions;
+    const newOldest = resolveVersion(nextChain, entry.dashboardId, nextChain[keepFrom].version);
+    nextChain = nextChain.slice(keepFrom);
+    if (newOldest) nextChain[0] = toSnapshot(newOldest);
+  }
+
+  return [...others, ...nextChain];
+}
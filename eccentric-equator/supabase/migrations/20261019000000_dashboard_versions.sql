@@ -0,0 +1,37 @@
+-- Version history of dashboard content (nodes, edges and settings), one row per
+-- saved version. The app works without this table, only without history.
+
+create table if not exists public.dashboard_versions (
+  dashboard_id text not null references public.dashboards (id) on delete cascade,
+  version integer not null check (version >= 1),
+  saved_at timestamptz not null default now(),
+  payload jsonb not null default '{}'::jsonb,
+  primary key (dashboard_id, version)
+);
+
+alter table public.dashboard_versions enable row level security;
+
+-- Same access as the dashboard itself, granted through dashboard_access
+create policy "dashboard_versions_select" on public.dashboard_versions
+  for select using (
+    exists (
+      select 1 from public.dashboard_access a
+      where a.dashboard_id = dashboard_versions.dashboard_id and a.user_id = auth.uid()
+    )
+  );
+
+create policy "dashboard_versions_insert" on public.dashboard_versions
+  for insert with check (
+    exists (
+      select 1 from public.dashboard_access a
+      where a.dashboard_id = dashboard_versions.dashboard_id and a.user_id = auth.uid()
+    )
+  );
+
+create policy "dashboard_versions_delete" on public.dashboard_versions
+  for delete using (
+    exists (
+      select 1 from public.dashboard_access a
+      where a.dashboard_id = dashboard_versions.dashboard_id and a.user_id = auth.uid()
+    )
+  );
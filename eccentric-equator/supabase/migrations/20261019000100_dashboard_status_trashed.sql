@@ -0,0 +1,7 @@
+-- Dashboard status: 0 = draft, 1 = published, 2 = archived, 3 = trashed.
+-- Trashed dashboards are purged by the app after the retention window.
+
+alter table public.dashboards drop constraint if exists dashboards_status_check;
+
+alter table public.dashboards
+  add constraint dashboards_status_check check (status in (0, 1, 2, 3));
@@ -0,0 +1,14 @@
+-- Broadcast dashboard updates over Supabase Realtime so open viewers follow
+-- edits live (postgres_changes UPDATE on public.dashboards). Viewers only
+-- read the new row, so the default replica identity is enough.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'dashboards'
+  ) then
+    alter publication supabase_realtime add table public.dashboards;
+  end if;
+end
+$$;
@@ -0,0 +1,11 @@
+-- Version history is stored as snapshots and deltas. Trimming it to the
+-- retention limit rewrites the new oldest row as a snapshot, so writers also
+-- need update access (same rule as the other dashboard_versions policies).
+
+create policy "dashboard_versions_update" on public.dashboard_versions
+  for update using (
+    exists (
+      select 1 from public.dashboard_access a
+      where a.dashboard_id = dashboard_versions.dashboard_id and a.user_id = auth.uid()
+    )
+  );